@@ -27,10 +27,14 @@ import SearchPage from './pages/SearchPage'
 import QuotesPage from './pages/QuotesPage'
 import ForumPage from './pages/ForumPage'
 import ForumPostPage from './pages/ForumPostPage'
+import ForumWikiPage from './pages/ForumWikiPage'
+import ForumCategoryPage from './pages/ForumCategoryPage'
 import ArtboardsPage from './pages/ArtboardsPage'
 import ArtboardDetailPage from './pages/ArtboardDetailPage'
 import CollabPage from './pages/CollabPage'
+import CollabProjectPage from './pages/CollabProjectPage'
 import ConsensusPage from './pages/ConsensusPage'
+import ConsensusConversationPage from './pages/ConsensusConversationPage'
 
 /** Official Git SCM logo (https://git-scm.com/images/logos/downloads/Git-Icon-1788C.svg) */
 function GitLogo() {
@@ -147,8 +151,12 @@ function AppRoutes() {
       <Route path="/feed" element={<FeedPage />} />
       <Route path="/forum" element={<ForumPage />} />
       <Route path="/forum/post" element={<ForumPostPage />} />
+      <Route path="/forum/wiki" element={<ForumWikiPage />} />
+      <Route path="/forum/category" element={<ForumCategoryPage />} />
       <Route path="/collab" element={<CollabPage />} />
+      <Route path="/collab/project" element={<CollabProjectPage />} />
       <Route path="/consensus" element={<ConsensusPage />} />
+      <Route path="/consensus/conversation" element={<ConsensusConversationPage />} />
       <Route path="/artboards" element={<ArtboardsPage />} />
       <Route path="/artboard/:id" element={<ArtboardDetailPage />} />
       <Route path="/post/:uri" element={<PostDetailPage />} />
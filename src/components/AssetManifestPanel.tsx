@@ -0,0 +1,216 @@
+import { useState } from 'react'
+import { buildManifest, verifyAssets, type AssetCheck, type AssetCheckStatus } from '../lib/assetManifest'
+import { formatByteSize } from '../lib/magnet'
+import type { ProjectAsset } from '../types'
+import styles from '../pages/ForumPage.module.css'
+
+const STATUS_LABELS: Record<AssetCheckStatus, { label: string; icon: string; ok: boolean }> = {
+  pass: { label: 'OK', icon: '✅', ok: true },
+  mismatch: { label: 'Checksum mismatch', icon: '❌', ok: false },
+  size: { label: 'Wrong size', icon: '❌', ok: false },
+  missing: { label: 'Missing', icon: '⚠️', ok: false },
+  extra: { label: 'Not in manifest', icon: '➖', ok: true },
+}
+
+const cellStyle: React.CSSProperties = { padding: '0.25rem 0.5rem', borderBottom: '1px solid var(--border)', textAlign: 'left' }
+
+function DropZone({
+  label,
+  disabled,
+  onFiles,
+}: {
+  label: string
+  disabled?: boolean
+  onFiles: (files: File[]) => void
+}) {
+  const [dragOver, setDragOver] = useState(false)
+  return (
+    <label
+      onDragOver={(e) => {
+        e.preventDefault()
+        setDragOver(true)
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault()
+        setDragOver(false)
+        if (!disabled) onFiles(Array.from(e.dataTransfer.files))
+      }}
+      style={{
+        display: 'block',
+        padding: '0.75rem',
+        border: `2px dashed ${dragOver ? 'var(--accent)' : 'var(--border)'}`,
+        borderRadius: '0.5rem',
+        fontSize: '0.85rem',
+        color: 'var(--muted)',
+        cursor: disabled ? 'default' : 'pointer',
+      }}
+    >
+      {label} or <span className={styles.standardLink}>choose files</span>
+      <input
+        type="file"
+        multiple
+        disabled={disabled}
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files ?? []))
+          e.target.value = ''
+        }}
+        style={{ display: 'none' }}
+      />
+    </label>
+  )
+}
+
+/**
+ * Asset manifest of a project (file names, sizes, SHA-256). Owners generate it by
+ * dropping the files; anyone can drop their downloaded files to verify them. Files are
+ * hashed locally.
+ */
+export default function AssetManifestPanel({
+  assets,
+  canEdit,
+  onSave,
+}: {
+  assets: ProjectAsset[]
+  canEdit: boolean
+  /** Should reject when saving fails (the draft is then kept). */
+  onSave: (assets: ProjectAsset[]) => Promise<void>
+}) {
+  const [draft, setDraft] = useState<ProjectAsset[] | null>(null)
+  const [report, setReport] = useState<AssetCheck[] | null>(null)
+  const [progress, setProgress] = useState<{ done: number; total: number; verb: string } | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  async function handleGenerate(files: File[]) {
+    if (files.length === 0) return
+    setProgress({ done: 0, total: files.length, verb: 'Hashing' })
+    try {
+      setDraft(await buildManifest(files, (done) => setProgress({ done, total: files.length, verb: 'Hashing' })))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not hash files')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  async function handleVerify(files: File[]) {
+    if (files.length === 0) return
+    setProgress({ done: 0, total: assets.length, verb: 'Checking' })
+    try {
+      setReport(await verifyAssets(assets, files, (done) => setProgress({ done, total: assets.length, verb: 'Checking' })))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not check files')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  async function handleSave() {
+    if (!draft) return
+    setSaving(true)
+    try {
+      await onSave(draft)
+      setDraft(null)
+      setReport(null)
+    } catch {
+      /* onSave reports the error; keep the draft */
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const shown = draft ?? assets
+  const totalSize = shown.reduce((sum, a) => sum + a.size, 0)
+  const failed = report?.filter((r) => !STATUS_LABELS[r.status].ok).length ?? 0
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {canEdit && (
+        <DropZone
+          label={assets.length ? 'Drop the project files to regenerate the manifest' : 'Drop the project files to generate a manifest'}
+          disabled={!!progress}
+          onFiles={handleGenerate}
+        />
+      )}
+      {progress && (
+        <div className={styles.loading}>
+          {progress.verb} {progress.done}/{progress.total}…
+        </div>
+      )}
+
+      {shown.length === 0 ? (
+        <div className={styles.empty}>No asset manifest yet.</div>
+      ) : (
+        <div>
+          <p style={{ margin: '0 0 0.25rem', fontSize: '0.85rem', color: 'var(--muted)' }}>
+            {draft ? 'New manifest (not saved)' : 'Manifest'} · {shown.length} file{shown.length !== 1 ? 's' : ''} ·{' '}
+            {formatByteSize(totalSize)}
+          </p>
+          <div style={{ maxHeight: '16rem', overflow: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.8rem' }}>
+              <thead>
+                <tr>
+                  <th style={cellStyle}>File</th>
+                  <th style={cellStyle}>Size</th>
+                  <th style={cellStyle}>SHA-256</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((a) => (
+                  <tr key={a.name}>
+                    <td style={{ ...cellStyle, wordBreak: 'break-all' }}>{a.name}</td>
+                    <td style={{ ...cellStyle, whiteSpace: 'nowrap' }} title={`${a.size.toLocaleString()} bytes`}>
+                      {formatByteSize(a.size)}
+                    </td>
+                    <td style={cellStyle}>
+                      <code title={a.sha256}>{a.sha256.slice(0, 16)}…</code>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {draft && (
+            <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+              <button type="button" className={styles.tabActive} disabled={saving} onClick={handleSave}>
+                {saving ? 'Saving…' : 'Save manifest'}
+              </button>
+              <button type="button" className={styles.tab} disabled={saving} onClick={() => setDraft(null)}>
+                Discard
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {assets.length > 0 && !draft && (
+        <DropZone label="Drop your downloaded files to verify them" disabled={!!progress} onFiles={handleVerify} />
+      )}
+
+      {report && !draft && (
+        <div>
+          <p style={{ margin: '0 0 0.25rem', fontSize: '0.85rem', fontWeight: 600 }}>
+            {failed === 0 ? '✅ All files match the manifest' : `❌ ${failed} file${failed !== 1 ? 's' : ''} failed`}
+          </p>
+          <ul style={{ listStyle: 'none', margin: 0, padding: 0, fontSize: '0.8rem', display: 'flex', flexDirection: 'column', gap: '0.2rem' }}>
+            {report.map((r) => {
+              const status = STATUS_LABELS[r.status]
+              return (
+                <li key={`${r.status}:${r.name}`} style={{ display: 'flex', gap: '0.5rem' }}>
+                  <span aria-hidden>{status.icon}</span>
+                  <span style={{ flex: 1, minWidth: 0, wordBreak: 'break-all' }}>{r.name}</span>
+                  <span style={{ color: status.ok ? 'var(--muted)' : 'var(--error)', whiteSpace: 'nowrap' }}>
+                    {status.label}
+                    {r.status === 'size' && r.expected && r.actual && (
+                      <> ({formatByteSize(r.actual.size)}, expected {formatByteSize(r.expected.size)})</>
+                    )}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import type { ForumHide } from '../types'
+
+export interface ForumHiddenNoticeProps {
+  hide: ForumHide
+  /** What is hidden, e.g. "Post" or "Reply" */
+  label: string
+  onShow: () => void
+  /** Shown to whoever wrote the hide */
+  onUnhide?: () => void
+}
+
+/** Collapsed stand-in for a forum post or reply hidden by a moderator or the thread author. */
+export default function ForumHiddenNotice({ hide, label, onShow, onUnhide }: ForumHiddenNoticeProps) {
+  return (
+    <div
+      role="note"
+      style={{
+        display: 'flex',
+        gap: '0.5rem',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        padding: '0.5rem 0.75rem',
+        border: '1px dashed var(--border)',
+        borderRadius: '0.5rem',
+        fontSize: '0.85rem',
+        color: 'var(--muted)',
+      }}
+    >
+      <span>
+        {label} hidden by moderator{hide.byThreadAuthor ? ' (thread author)' : ''}
+        {hide.reason ? `: ${hide.reason}` : ''}
+      </span>
+      <button
+        type="button"
+        onClick={onShow}
+        style={{ background: 'none', border: 'none', padding: 0, color: 'var(--accent)', cursor: 'pointer', fontSize: 'inherit' }}
+      >
+        Show
+      </button>
+      {onUnhide && (
+        <button
+          type="button"
+          onClick={onUnhide}
+          style={{ background: 'none', border: 'none', padding: 0, color: 'var(--accent)', cursor: 'pointer', fontSize: 'inherit' }}
+        >
+          Unhide
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { FORUM_IMAGE_MAX, FORUM_IMAGE_TYPES } from '../lib/forum'
+import type { ForumImageDraft } from '../types'
+import styles from '../pages/ForumPostDetailPage.module.css'
+
+export interface ForumImagePickerProps {
+  images: ForumImageDraft[]
+  onChange: (images: ForumImageDraft[]) => void
+  disabled?: boolean
+}
+
+function ImagePreview({ file, alt }: { file: File; alt: string }) {
+  const url = useMemo(() => URL.createObjectURL(file), [file])
+  useEffect(() => {
+    return () => URL.revokeObjectURL(url)
+  }, [url])
+  return <img src={url} alt={alt} className={styles.mediaPreviewImg} />
+}
+
+/** Add / drop images (max 4) with alt text for each, for the forum post and reply forms. */
+export default function ForumImagePicker({ images, onChange, disabled }: ForumImagePickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  function addFiles(list: FileList | null) {
+    if (!list?.length) return
+    const toAdd = Array.from(list)
+      .filter((f) => FORUM_IMAGE_TYPES.includes(f.type))
+      .map((file) => ({ file, alt: '' }))
+    onChange([...images, ...toAdd].slice(0, FORUM_IMAGE_MAX))
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault()
+    if (!disabled) addFiles(e.dataTransfer.files)
+  }
+
+  function handleDragOver(e: React.DragEvent) {
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+  }
+
+  function setAlt(index: number, alt: string) {
+    onChange(images.map((img, i) => (i === index ? { ...img, alt } : img)))
+  }
+
+  return (
+    <div className={styles.mediaDropZone} onDrop={handleDrop} onDragOver={handleDragOver}>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={FORUM_IMAGE_TYPES.join(',')}
+        multiple
+        className={styles.mediaInputHidden}
+        onChange={(e) => {
+          addFiles(e.target.files)
+          e.target.value = ''
+        }}
+      />
+      <button
+        type="button"
+        className={styles.addMediaBtn}
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || images.length >= FORUM_IMAGE_MAX}
+      >
+        Add image
+      </button>
+      <span className={styles.mediaDropHint}>or drag and drop up to {FORUM_IMAGE_MAX} images here</span>
+      {images.length > 0 && (
+        <div className={styles.mediaPreviews}>
+          {images.map((img, i) => (
+            <div key={i} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', width: 120 }}>
+              <div className={styles.mediaPreviewWrap}>
+                <ImagePreview file={img.file} alt={img.alt} />
+                <button
+                  type="button"
+                  className={styles.mediaPreviewRemove}
+                  onClick={() => onChange(images.filter((_, j) => j !== i))}
+                  disabled={disabled}
+                  aria-label="Remove"
+                >
+                  ×
+                </button>
+              </div>
+              <input
+                type="text"
+                value={img.alt}
+                onChange={(e) => setAlt(i, e.target.value)}
+                placeholder="Alt text"
+                aria-label={`Alt text for image ${i + 1}`}
+                maxLength={1000}
+                disabled={disabled}
+                style={{ width: '100%', fontSize: '0.8rem', padding: '0.2rem 0.35rem' }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
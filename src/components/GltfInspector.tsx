@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react'
+import { inspectGltfFiles, inspectGltfUrl, isGltfName, type GltfNode, type GltfSummary } from '../lib/gltf'
+import styles from '../pages/ForumPage.module.css'
+
+function SceneNode({ node }: { node: GltfNode }) {
+  const label = (
+    <>
+      {node.name}
+      {node.mesh && <span style={{ color: 'var(--muted)' }}> · mesh {node.mesh}</span>}
+      {node.camera && <span style={{ color: 'var(--muted)' }}> · camera</span>}
+      {node.skinned && <span style={{ color: 'var(--muted)' }}> · skinned</span>}
+    </>
+  )
+  if (node.children.length === 0) return <li>{label}</li>
+  return (
+    <li>
+      <details open>
+        <summary style={{ cursor: 'pointer' }}>{label}</summary>
+        <ul style={{ margin: 0, paddingLeft: '1rem' }}>
+          {node.children.map((c, i) => (
+            <SceneNode key={i} node={c} />
+          ))}
+        </ul>
+      </details>
+    </li>
+  )
+}
+
+/**
+ * Texture types a thumbnail blob may carry. The model file names the type, so anything
+ * else (text/html, image/svg+xml…) becomes an opaque download rather than a document
+ * that would run in the app's origin when opened.
+ */
+const THUMBNAIL_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/ktx2']
+
+function thumbnailType(mimeType: string | undefined): string {
+  const type = (mimeType ?? 'image/png').trim().toLowerCase()
+  return THUMBNAIL_TYPES.includes(type) ? type : 'application/octet-stream'
+}
+
+function colorCss(c: [number, number, number, number]): string {
+  return `rgba(${Math.round(c[0] * 255)}, ${Math.round(c[1] * 255)}, ${Math.round(c[2] * 255)}, ${c[3]})`
+}
+
+/**
+ * Inspector for glTF 2.0 / GLB models: loads the project's preview URL on request,
+ * or local files dropped on it (a .glb, or a .gltf with its .bin and textures).
+ */
+export default function GltfInspector({ previewUrl }: { previewUrl?: string }) {
+  const [summary, setSummary] = useState<GltfSummary | null>(null)
+  const [source, setSource] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [dragOver, setDragOver] = useState(false)
+  const [thumbnails, setThumbnails] = useState<Array<string | null>>([])
+
+  useEffect(() => {
+    if (!summary) return
+    const urls = summary.textures.map((t) =>
+      t.data ? URL.createObjectURL(new Blob([new Uint8Array(t.data)], { type: thumbnailType(t.mimeType) })) : null
+    )
+    setThumbnails(urls)
+    return () => {
+      for (const u of urls) if (u) URL.revokeObjectURL(u)
+    }
+  }, [summary])
+
+  async function load(label: string, run: () => Promise<GltfSummary>) {
+    setLoading(true)
+    setError(null)
+    try {
+      setSummary(await run())
+      setSource(label)
+    } catch (err) {
+      setSummary(null)
+      setError(err instanceof Error ? err.message : 'Could not read the model')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function loadFiles(list: FileList | null) {
+    const files = list ? Array.from(list) : []
+    const model = files.find((f) => isGltfName(f.name))
+    load(model?.name ?? 'local file', () => inspectGltfFiles(files))
+  }
+
+  const scene = summary ? summary.scenes[summary.defaultScene] ?? summary.scenes[0] : null
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragOver(true)
+        }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setDragOver(false)
+          loadFiles(e.dataTransfer.files)
+        }}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          flexWrap: 'wrap',
+          padding: '0.75rem',
+          border: `2px dashed ${dragOver ? 'var(--accent)' : 'var(--border)'}`,
+          borderRadius: '0.5rem',
+          fontSize: '0.85rem',
+          color: 'var(--muted)',
+        }}
+      >
+        {previewUrl && isGltfName(previewUrl) && (
+          <button
+            type="button"
+            className={styles.tab}
+            disabled={loading}
+            onClick={() => load(previewUrl, () => inspectGltfUrl(previewUrl))}
+          >
+            Inspect preview model
+          </button>
+        )}
+        <label style={{ cursor: 'pointer' }}>
+          Drop a .glb / .gltf (with its .bin and textures) or <span className={styles.standardLink}>choose files</span>
+          <input
+            type="file"
+            multiple
+            accept=".glb,.gltf,.bin,image/*"
+            onChange={(e) => {
+              loadFiles(e.target.files)
+              e.target.value = ''
+            }}
+            style={{ display: 'none' }}
+          />
+        </label>
+      </div>
+
+      {loading && <div className={styles.loading}>Reading model…</div>}
+      {error && <p className={styles.error}>{error}</p>}
+
+      {summary && !loading && (
+        <div style={{ marginTop: '0.75rem', fontSize: '0.85rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          <p style={{ margin: 0, color: 'var(--muted)' }}>
+            {source} · {summary.container.toUpperCase()} · glTF {summary.version}
+            {summary.generator && <> · {summary.generator}</>}
+          </p>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <span className={styles.commentBadge}>{summary.nodeCount} nodes</span>
+            <span className={styles.commentBadge}>
+              {summary.meshCount} meshes / {summary.primitiveCount} primitives
+            </span>
+            <span className={styles.commentBadge}>{summary.vertexCount.toLocaleString()} vertices</span>
+            <span className={styles.commentBadge}>{summary.triangleCount.toLocaleString()} triangles</span>
+          </div>
+          {summary.extensionsRequired.length > 0 && (
+            <p style={{ margin: 0, color: 'var(--muted)' }}>Requires: {summary.extensionsRequired.join(', ')}</p>
+          )}
+
+          {scene && (
+            <section>
+              <h4 style={{ margin: '0 0 0.25rem', fontSize: '0.9rem' }}>
+                Scene graph{summary.scenes.length > 1 && ` (${scene.name}, ${summary.scenes.length} scenes)`}
+              </h4>
+              <ul style={{ margin: 0, paddingLeft: '1rem', maxHeight: '16rem', overflow: 'auto' }}>
+                {scene.roots.map((n, i) => (
+                  <SceneNode key={i} node={n} />
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {summary.materials.length > 0 && (
+            <section>
+              <h4 style={{ margin: '0 0 0.25rem', fontSize: '0.9rem' }}>Materials ({summary.materials.length})</h4>
+              <ul style={{ margin: 0, paddingLeft: '1rem' }}>
+                {summary.materials.map((m, i) => (
+                  <li key={i}>
+                    {m.baseColor && (
+                      <span
+                        aria-hidden
+                        style={{
+                          display: 'inline-block',
+                          width: 10,
+                          height: 10,
+                          marginRight: '0.35rem',
+                          borderRadius: 2,
+                          border: '1px solid var(--border)',
+                          background: colorCss(m.baseColor),
+                        }}
+                      />
+                    )}
+                    {m.name}
+                    <span style={{ color: 'var(--muted)' }}>
+                      {' '}
+                      · metallic {m.metallic} · roughness {m.roughness}
+                      {m.alphaMode !== 'OPAQUE' && <> · {m.alphaMode.toLowerCase()}</>}
+                      {m.doubleSided && <> · double-sided</>}
+                      {m.textures.length > 0 && <> · {m.textures.join(', ')}</>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {summary.textures.length > 0 && (
+            <section>
+              <h4 style={{ margin: '0 0 0.25rem', fontSize: '0.9rem' }}>Textures ({summary.textures.length})</h4>
+              <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                {summary.textures.map((t, i) => (
+                  <figure key={i} style={{ margin: 0, width: 80, textAlign: 'center' }}>
+                    {thumbnails[i] ? (
+                      <img
+                        src={thumbnails[i] ?? undefined}
+                        alt={t.name}
+                        style={{ width: 80, height: 80, objectFit: 'cover', borderRadius: '0.25rem', background: 'var(--bg)' }}
+                      />
+                    ) : (
+                      <div
+                        title={t.uri ? `External: ${t.uri}` : undefined}
+                        style={{ width: 80, height: 80, borderRadius: '0.25rem', background: 'var(--bg)', border: '1px dashed var(--border)' }}
+                      />
+                    )}
+                    <figcaption style={{ fontSize: '0.7rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {t.name}
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {summary.animations.length > 0 && (
+            <section>
+              <h4 style={{ margin: '0 0 0.25rem', fontSize: '0.9rem' }}>Animations ({summary.animations.length})</h4>
+              <ul style={{ margin: 0, paddingLeft: '1rem' }}>
+                {summary.animations.map((a, i) => (
+                  <li key={i}>
+                    {a.name}
+                    <span style={{ color: 'var(--muted)' }}>
+                      {' '}
+                      · {a.duration.toFixed(2)}s · {a.channels} channel{a.channels !== 1 ? 's' : ''}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+import { useMemo } from 'react'
+import {
+  cardFlowsToCsv,
+  cumulativeFlowToCsv,
+  getBurndown,
+  getCardFlows,
+  getCumulativeFlow,
+  getCycleTimeStats,
+  getWeeklyThroughput,
+  transitionsToCsv,
+  type BurndownPoint,
+  type FlowDay,
+  type WeeklyThroughput,
+} from '../lib/kanbanAnalytics'
+import { downloadTextFile } from '../lib/downloadText'
+import type { KanbanBoard } from '../types'
+import styles from '../pages/ForumPage.module.css'
+
+const CHART_WIDTH = 560
+const CHART_HEIGHT = 180
+const PAD = { top: 10, right: 10, bottom: 22, left: 30 }
+/** Fills for cumulative flow bands, by column index. */
+const FLOW_COLORS = ['#94a3b8', '#60a5fa', '#f59e0b', '#34d399', '#a78bfa', '#f472b6', '#f87171', '#2dd4bf']
+
+const chartStyle: React.CSSProperties = { width: '100%', maxWidth: CHART_WIDTH, height: 'auto', display: 'block' }
+const axisText: React.SVGProps<SVGTextElement> = { fontSize: 10, fill: 'var(--muted)' }
+
+function formatDays(days: number): string {
+  return days < 1 ? `${Math.round(days * 24)}h` : `${days.toFixed(1)}d`
+}
+
+function shortDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function plotX(i: number, count: number): number {
+  const w = CHART_WIDTH - PAD.left - PAD.right
+  return PAD.left + (count <= 1 ? w / 2 : (i / (count - 1)) * w)
+}
+
+function plotY(value: number, max: number): number {
+  const h = CHART_HEIGHT - PAD.top - PAD.bottom
+  return PAD.top + h - (max ? (value / max) * h : 0)
+}
+
+/** Y axis with 0 and max labels plus first/last X labels. */
+function Axes({ max, first, last }: { max: number; first?: string; last?: string }) {
+  return (
+    <g>
+      <line x1={PAD.left} x2={CHART_WIDTH - PAD.right} y1={plotY(0, max)} y2={plotY(0, max)} stroke="var(--border)" />
+      <text {...axisText} x={PAD.left - 4} y={plotY(0, max)} textAnchor="end" dominantBaseline="middle">
+        0
+      </text>
+      <text {...axisText} x={PAD.left - 4} y={plotY(max, max)} textAnchor="end" dominantBaseline="middle">
+        {max}
+      </text>
+      {first && (
+        <text {...axisText} x={PAD.left} y={CHART_HEIGHT - 6}>
+          {shortDate(first)}
+        </text>
+      )}
+      {last && (
+        <text {...axisText} x={CHART_WIDTH - PAD.right} y={CHART_HEIGHT - 6} textAnchor="end">
+          {shortDate(last)}
+        </text>
+      )}
+    </g>
+  )
+}
+
+function ThroughputChart({ weeks }: { weeks: WeeklyThroughput[] }) {
+  const max = Math.max(1, ...weeks.map((w) => w.count))
+  const slot = (CHART_WIDTH - PAD.left - PAD.right) / weeks.length
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={chartStyle} role="img" aria-label="Cards finished per week">
+      <Axes max={max} first={weeks[0]?.weekStart} last={weeks[weeks.length - 1]?.weekStart} />
+      {weeks.map((w, i) => (
+        <rect
+          key={w.weekStart}
+          x={PAD.left + i * slot + slot * 0.15}
+          y={plotY(w.count, max)}
+          width={slot * 0.7}
+          height={plotY(0, max) - plotY(w.count, max)}
+          fill="var(--accent)"
+        >
+          <title>
+            Week of {shortDate(w.weekStart)}: {w.count} finished
+          </title>
+        </rect>
+      ))}
+    </svg>
+  )
+}
+
+function BurndownChart({ points }: { points: BurndownPoint[] }) {
+  const max = Math.max(1, ...points.map((p) => Math.max(p.remaining ?? 0, p.ideal)))
+  const line = (values: Array<number | undefined>) =>
+    values
+      .map((v, i) => (v === undefined ? null : `${plotX(i, values.length).toFixed(1)},${plotY(v, max).toFixed(1)}`))
+      .filter(Boolean)
+      .join(' ')
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={chartStyle} role="img" aria-label="Burndown of cards with due dates">
+      <Axes max={max} first={points[0]?.date} last={points[points.length - 1]?.date} />
+      <polyline points={line(points.map((p) => p.ideal))} fill="none" stroke="var(--muted)" strokeDasharray="4 3" />
+      <polyline points={line(points.map((p) => p.remaining))} fill="none" stroke="var(--accent)" strokeWidth={2} />
+    </svg>
+  )
+}
+
+function CumulativeFlowChart({ board, flow }: { board: KanbanBoard; flow: FlowDay[] }) {
+  const max = Math.max(1, ...flow.map((d) => Object.values(d.counts).reduce((sum, n) => sum + n, 0)))
+  // Stack with the done column at the bottom, backlog on top.
+  const order = [...board.columns].reverse()
+  const bands = order.map((col, level) => {
+    const lower = flow.map((d) => order.slice(0, level).reduce((sum, c) => sum + (d.counts[c.id] ?? 0), 0))
+    const upper = flow.map((d, i) => lower[i] + (d.counts[col.id] ?? 0))
+    const top = upper.map((v, i) => `${plotX(i, flow.length).toFixed(1)},${plotY(v, max).toFixed(1)}`)
+    const bottom = lower.map((v, i) => `${plotX(i, flow.length).toFixed(1)},${plotY(v, max).toFixed(1)}`).reverse()
+    return { col, points: [...top, ...bottom].join(' ') }
+  })
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={chartStyle} role="img" aria-label="Cumulative flow diagram">
+        <Axes max={max} first={flow[0]?.date} last={flow[flow.length - 1]?.date} />
+        {bands.map(({ col, points }) => (
+          <polygon
+            key={col.id}
+            points={points}
+            fill={FLOW_COLORS[board.columns.indexOf(col) % FLOW_COLORS.length]}
+            fillOpacity={0.8}
+          >
+            <title>{col.title}</title>
+          </polygon>
+        ))}
+      </svg>
+      <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', fontSize: '0.75rem', color: 'var(--muted)' }}>
+        {board.columns.map((col, i) => (
+          <span key={col.id} style={{ display: 'inline-flex', alignItems: 'center', gap: '0.25rem' }}>
+            <span aria-hidden style={{ width: 10, height: 10, borderRadius: 2, background: FLOW_COLORS[i % FLOW_COLORS.length] }} />
+            {col.title}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/** Cycle time, weekly throughput, burndown and cumulative flow for a board, with CSV export. */
+export default function KanbanAnalytics({ board, fileName }: { board: KanbanBoard; fileName: string }) {
+  const data = useMemo(() => {
+    const flows = getCardFlows(board)
+    return {
+      flows,
+      stats: getCycleTimeStats(flows),
+      throughput: getWeeklyThroughput(flows),
+      burndown: getBurndown(board, flows),
+      flow: getCumulativeFlow(board),
+    }
+  }, [board])
+
+  if (data.flows.length === 0) return <div className={styles.empty}>Add cards to the board to see analytics.</div>
+
+  const heading: React.CSSProperties = { margin: '0 0 0.25rem', fontSize: '0.9rem' }
+  const doneTitle = board.columns[board.columns.length - 1]?.title
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+        {data.stats ? (
+          <>
+            <span className={styles.commentBadge}>{data.stats.count} finished</span>
+            <span className={styles.commentBadge}>Cycle time avg {formatDays(data.stats.averageDays)}</span>
+            <span className={styles.commentBadge}>median {formatDays(data.stats.medianDays)}</span>
+            <span className={styles.commentBadge}>85% within {formatDays(data.stats.p85Days)}</span>
+          </>
+        ) : (
+          <span style={{ fontSize: '0.85rem', color: 'var(--muted)' }}>
+            Cycle time shows up once cards reach {doneTitle ?? 'the last column'}.
+          </span>
+        )}
+      </div>
+
+      <section>
+        <h4 style={heading}>Throughput per week</h4>
+        <ThroughputChart weeks={data.throughput} />
+      </section>
+
+      <section>
+        <h4 style={heading}>Burndown (cards with due dates)</h4>
+        {data.burndown.length ? (
+          <BurndownChart points={data.burndown} />
+        ) : (
+          <p style={{ margin: 0, fontSize: '0.85rem', color: 'var(--muted)' }}>No cards have a due date.</p>
+        )}
+      </section>
+
+      <section>
+        <h4 style={heading}>Cumulative flow</h4>
+        <CumulativeFlowChart board={board} flow={data.flow} />
+      </section>
+
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <button
+          type="button"
+          className={styles.tab}
+          onClick={() => downloadTextFile(`${fileName}-cards.csv`, cardFlowsToCsv(board, data.flows), 'text/csv')}
+        >
+          Cards CSV
+        </button>
+        <button
+          type="button"
+          className={styles.tab}
+          onClick={() => downloadTextFile(`${fileName}-transitions.csv`, transitionsToCsv(board), 'text/csv')}
+        >
+          Transitions CSV
+        </button>
+        <button
+          type="button"
+          className={styles.tab}
+          onClick={() => downloadTextFile(`${fileName}-flow.csv`, cumulativeFlowToCsv(board, data.flow), 'text/csv')}
+        >
+          Cumulative flow CSV
+        </button>
+      </div>
+    </div>
+  )
+}
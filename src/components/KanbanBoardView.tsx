@@ -0,0 +1,548 @@
+import { useState } from 'react'
+import type { KanbanBoard, KanbanCard } from '../types'
+import type { KanbanCardEdit } from '../lib/collab'
+import KanbanCardDetails from './KanbanCardDetails'
+import styles from '../pages/ForumPage.module.css'
+
+const PRIORITY_COLORS: Record<KanbanCard['priority'], string> = {
+  low: 'var(--muted)',
+  medium: 'var(--warning, orange)',
+  high: 'var(--error, red)',
+}
+
+const DRAG_TYPE = 'application/x-artsky-kanban-card'
+
+export interface KanbanBoardViewProps {
+  board: KanbanBoard
+  /** When false the board is read-only (viewer is not a project member). */
+  canEdit: boolean
+  /** When true the viewer can add, rename, reorder and delete columns (project owner). */
+  canEditColumns?: boolean
+  /** When true the viewer can delete cards (owner and maintainers). */
+  canDeleteCards?: boolean
+  /** DIDs that cards can be assigned to. */
+  assignees?: string[]
+  /** Display name for a DID (assignee, last editor). */
+  labelForDid?: (did: string) => string
+  /** When true the viewer can comment on cards (any active member). Defaults to canEdit. */
+  canComment?: boolean
+  /** Viewer's DID, to offer deleting their own comments. */
+  currentDid?: string
+  onAddCard: (columnId: string, title: string) => Promise<void>
+  /** Move a card to `toIndex` in a column (same column to reorder). */
+  onMoveCard: (cardId: string, toColumnId: string, toIndex: number) => Promise<void>
+  /** Reports its own errors and rejects on failure, so the card editor stays open. */
+  onUpdateCard: (cardId: string, edit: KanbanCardEdit) => Promise<void>
+  onDeleteCard: (cardId: string) => Promise<void>
+  onAddColumn?: (title: string) => Promise<void>
+  onRenameColumn?: (columnId: string, title: string) => Promise<void>
+  onMoveColumn?: (columnId: string, toIndex: number) => Promise<void>
+  onSetWipLimit?: (columnId: string, limit: number | null) => Promise<void>
+  onDeleteColumn?: (columnId: string) => Promise<void>
+}
+
+function todayIso(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function CardEditor({
+  card,
+  assignees,
+  labelForDid,
+  onSave,
+  onDelete,
+  onCancel,
+}: {
+  card: KanbanCard
+  assignees: string[]
+  labelForDid: (did: string) => string
+  onSave: (edit: KanbanCardEdit) => Promise<void>
+  onDelete?: () => Promise<void>
+  onCancel: () => void
+}) {
+  const [title, setTitle] = useState(card.title)
+  const [description, setDescription] = useState(card.description ?? '')
+  const [assignee, setAssignee] = useState(card.assignee ?? '')
+  const [priority, setPriority] = useState<KanbanCard['priority']>(card.priority)
+  const [dueDate, setDueDate] = useState(card.dueDate ?? '')
+  const [labels, setLabels] = useState((card.labels ?? []).join(', '))
+  const [saving, setSaving] = useState(false)
+  const options = card.assignee && !assignees.includes(card.assignee) ? [...assignees, card.assignee] : assignees
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault()
+    if (!title.trim() || saving) return
+    setSaving(true)
+    try {
+      await onSave({
+        title,
+        description: description.trim() || undefined,
+        assignee: assignee || undefined,
+        priority,
+        dueDate: dueDate || undefined,
+        labels: labels.split(',').map((l) => l.trim()).filter(Boolean),
+      })
+    } catch {
+      /* onSave reports the error; keep the editor open with the edits */
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function remove() {
+    if (!onDelete || saving || !confirm(`Delete "${card.title}"?`)) return
+    setSaving(true)
+    try {
+      await onDelete()
+    } catch {
+      /* onDelete reports the error */
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const field = { width: '100%', padding: '0.3rem', fontSize: '0.8rem', boxSizing: 'border-box' as const }
+  return (
+    <form
+      onSubmit={save}
+      onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem' }}
+    >
+      <input type="text" aria-label="Title" value={title} onChange={(e) => setTitle(e.target.value)} style={field} autoFocus />
+      <textarea
+        aria-label="Description"
+        placeholder="Description"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        rows={3}
+        style={field}
+      />
+      <select aria-label="Assignee" value={assignee} onChange={(e) => setAssignee(e.target.value)} style={field}>
+        <option value="">Unassigned</option>
+        {options.map((did) => (
+          <option key={did} value={did}>
+            {labelForDid(did)}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Priority"
+        value={priority}
+        onChange={(e) => setPriority(e.target.value as KanbanCard['priority'])}
+        style={field}
+      >
+        <option value="low">Low</option>
+        <option value="medium">Medium</option>
+        <option value="high">High</option>
+      </select>
+      <input type="date" aria-label="Due date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} style={field} />
+      <input
+        type="text"
+        aria-label="Labels"
+        placeholder="Labels (comma-separated)"
+        value={labels}
+        onChange={(e) => setLabels(e.target.value)}
+        style={field}
+      />
+      <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap' }}>
+        <button type="submit" className={styles.tab} disabled={saving || !title.trim()}>
+          Save
+        </button>
+        <button type="button" className={styles.tab} onClick={onCancel} disabled={saving}>
+          Cancel
+        </button>
+        {onDelete && (
+          <button type="button" className={styles.tab} onClick={remove} disabled={saving} style={{ color: 'var(--error, red)' }}>
+            Delete
+          </button>
+        )}
+      </div>
+    </form>
+  )
+}
+
+/**
+ * Task board columns. Cards can be dragged between and within columns, or moved from the
+ * keyboard: focus a card, then Alt+↑/↓ reorders it, Alt+←/→ moves it to the neighbouring
+ * column, Enter opens the editor and Delete removes it (when allowed). Clicking a card's
+ * title opens its linked items and comments.
+ */
+export default function KanbanBoardView({
+  board,
+  canEdit,
+  canEditColumns = false,
+  canDeleteCards = false,
+  assignees = [],
+  labelForDid,
+  canComment = canEdit,
+  currentDid,
+  onAddCard,
+  onMoveCard,
+  onUpdateCard,
+  onDeleteCard,
+  onAddColumn,
+  onRenameColumn,
+  onMoveColumn,
+  onSetWipLimit,
+  onDeleteColumn,
+}: KanbanBoardViewProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [busy, setBusy] = useState(false)
+  const [editingCard, setEditingCard] = useState<string | null>(null)
+  const [openCard, setOpenCard] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ columnId: string; index: number } | null>(null)
+  const [newColumn, setNewColumn] = useState('')
+  const label = labelForDid ?? ((did: string) => did)
+  const today = todayIso()
+
+  async function run(action: () => Promise<void>) {
+    if (busy) return
+    setBusy(true)
+    try {
+      await action()
+    } catch {
+      /* the action reports its own errors */
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  function add(columnId: string) {
+    const title = (drafts[columnId] ?? '').trim()
+    if (!title) return
+    run(async () => {
+      await onAddCard(columnId, title)
+      setDrafts((d) => ({ ...d, [columnId]: '' }))
+    })
+  }
+
+  function move(cardId: string, toColumnId: string, toIndex: number) {
+    run(() => onMoveCard(cardId, toColumnId, toIndex))
+  }
+
+  function handleCardKey(e: React.KeyboardEvent, card: KanbanCard, colIndex: number, cardIndex: number) {
+    if (!canEdit || e.target !== e.currentTarget) return
+    const col = board.columns[colIndex]
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      setEditingCard(card.id)
+    } else if (e.key === 'Delete' && canDeleteCards) {
+      e.preventDefault()
+      if (confirm(`Delete "${card.title}"?`)) run(() => onDeleteCard(card.id))
+    } else if (e.altKey && e.key === 'ArrowUp' && cardIndex > 0) {
+      e.preventDefault()
+      move(card.id, col.id, cardIndex - 1)
+    } else if (e.altKey && e.key === 'ArrowDown' && cardIndex < col.cards.length - 1) {
+      e.preventDefault()
+      move(card.id, col.id, cardIndex + 1)
+    } else if (e.altKey && e.key === 'ArrowLeft' && colIndex > 0) {
+      e.preventDefault()
+      const to = board.columns[colIndex - 1]
+      move(card.id, to.id, Math.min(cardIndex, to.cards.length))
+    } else if (e.altKey && e.key === 'ArrowRight' && colIndex < board.columns.length - 1) {
+      e.preventDefault()
+      const to = board.columns[colIndex + 1]
+      move(card.id, to.id, Math.min(cardIndex, to.cards.length))
+    }
+  }
+
+  function handleDrop(e: React.DragEvent, columnId: string, index: number) {
+    const cardId = e.dataTransfer.getData(DRAG_TYPE)
+    setDropTarget(null)
+    if (!cardId) return
+    e.preventDefault()
+    e.stopPropagation()
+    const col = board.columns.find((c) => c.id === columnId)
+    const from = col?.cards.findIndex((c) => c.id === cardId) ?? -1
+    // Dropping below itself in the same column: indexes shift once the card is taken out.
+    const toIndex = from >= 0 && from < index ? index - 1 : index
+    if (from === toIndex) return
+    move(cardId, columnId, toIndex)
+  }
+
+  function allowDrop(e: React.DragEvent, columnId: string, index: number) {
+    if (!canEdit || !e.dataTransfer.types.includes(DRAG_TYPE)) return
+    e.preventDefault()
+    e.stopPropagation()
+    if (dropTarget?.columnId !== columnId || dropTarget.index !== index) setDropTarget({ columnId, index })
+  }
+
+  function renameColumn(columnId: string, current: string) {
+    const title = prompt('Column name', current)
+    if (title === null || !title.trim() || title.trim() === current || !onRenameColumn) return
+    run(() => onRenameColumn(columnId, title))
+  }
+
+  function editWipLimit(columnId: string, current?: number) {
+    const value = prompt('WIP limit (leave empty for no limit)', current ? String(current) : '')
+    if (value === null || !onSetWipLimit) return
+    const limit = value.trim() ? Number(value.trim()) : null
+    run(() => onSetWipLimit(columnId, limit))
+  }
+
+  function addColumn(e: React.FormEvent) {
+    e.preventDefault()
+    const title = newColumn.trim()
+    if (!title || !onAddColumn) return
+    run(async () => {
+      await onAddColumn(title)
+      setNewColumn('')
+    })
+  }
+
+  const columnButton = { padding: '0 0.3rem', fontSize: '0.75rem', background: 'none', border: 'none', color: 'var(--muted)', cursor: 'pointer' }
+
+  return (
+    <div style={{ display: 'flex', gap: '0.75rem', overflowX: 'auto', paddingBottom: '0.5rem' }}>
+      {board.columns.map((col, colIndex) => {
+        const overLimit = col.wipLimit !== undefined && col.cards.length > col.wipLimit
+        const atLimit = col.wipLimit !== undefined && col.cards.length >= col.wipLimit
+        return (
+          <section
+            key={col.id}
+            aria-label={col.title}
+            onDragOver={(e) => allowDrop(e, col.id, col.cards.length)}
+            onDragLeave={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null)
+            }}
+            onDrop={(e) => handleDrop(e, col.id, col.cards.length)}
+            style={{
+              flex: '0 0 240px',
+              padding: '0.75rem',
+              background: 'var(--surface)',
+              borderRadius: '0.5rem',
+              border: `1px solid ${overLimit ? 'var(--error, red)' : 'var(--border)'}`,
+              outline: dropTarget?.columnId === col.id ? '2px dashed var(--accent)' : undefined,
+            }}
+          >
+            <h4 style={{ fontSize: '0.9rem', fontWeight: 700, margin: '0 0 0.5rem', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+              <span style={{ flex: 1, minWidth: 0 }}>
+                {col.title}{' '}
+                <span
+                  style={{ color: overLimit ? 'var(--error, red)' : 'var(--muted)', fontWeight: overLimit ? 700 : 400 }}
+                  title={col.wipLimit ? `WIP limit ${col.wipLimit}` : undefined}
+                >
+                  ({col.wipLimit ? `${col.cards.length}/${col.wipLimit}` : col.cards.length})
+                </span>
+              </span>
+              {canEditColumns && (
+                <>
+                  <button
+                    type="button"
+                    style={columnButton}
+                    aria-label={`Move ${col.title} left`}
+                    disabled={busy || colIndex === 0}
+                    onClick={() => onMoveColumn && run(() => onMoveColumn(col.id, colIndex - 1))}
+                  >
+                    ←
+                  </button>
+                  <button
+                    type="button"
+                    style={columnButton}
+                    aria-label={`Move ${col.title} right`}
+                    disabled={busy || colIndex === board.columns.length - 1}
+                    onClick={() => onMoveColumn && run(() => onMoveColumn(col.id, colIndex + 1))}
+                  >
+                    →
+                  </button>
+                </>
+              )}
+            </h4>
+            {canEditColumns && (
+              <p style={{ margin: '0 0 0.5rem', fontSize: '0.75rem', display: 'flex', gap: '0.25rem' }}>
+                <button type="button" style={columnButton} disabled={busy} onClick={() => renameColumn(col.id, col.title)}>
+                  Rename
+                </button>
+                <button type="button" style={columnButton} disabled={busy} onClick={() => editWipLimit(col.id, col.wipLimit)}>
+                  WIP limit
+                </button>
+                <button
+                  type="button"
+                  style={columnButton}
+                  disabled={busy || col.cards.length > 0 || board.columns.length === 1}
+                  title={col.cards.length > 0 ? 'Only empty columns can be deleted' : undefined}
+                  onClick={() => onDeleteColumn && confirm(`Delete column "${col.title}"?`) && run(() => onDeleteColumn(col.id))}
+                >
+                  Delete
+                </button>
+              </p>
+            )}
+            <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+              {col.cards.map((card, cardIndex) => {
+                const overdue = !!card.dueDate && card.dueDate < today
+                const showDropLine = dropTarget?.columnId === col.id && dropTarget.index === cardIndex
+                return (
+                  <li
+                    key={card.id}
+                    tabIndex={canEdit && editingCard !== card.id ? 0 : undefined}
+                    aria-label={canEdit ? `${card.title}. Alt+arrow keys to move, Enter to edit.` : undefined}
+                    draggable={canEdit && editingCard !== card.id && openCard !== card.id}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(DRAG_TYPE, card.id)
+                      e.dataTransfer.effectAllowed = 'move'
+                    }}
+                    onDragEnd={() => setDropTarget(null)}
+                    onDragOver={(e) => {
+                      // Drop above this card when over its top half, below it otherwise.
+                      const rect = e.currentTarget.getBoundingClientRect()
+                      allowDrop(e, col.id, e.clientY < rect.top + rect.height / 2 ? cardIndex : cardIndex + 1)
+                    }}
+                    onDrop={(e) => handleDrop(e, col.id, dropTarget?.columnId === col.id ? dropTarget.index : cardIndex)}
+                    onKeyDown={(e) => handleCardKey(e, card, colIndex, cardIndex)}
+                    style={{
+                      padding: '0.5rem',
+                      background: 'var(--bg)',
+                      borderRadius: '0.375rem',
+                      borderLeft: `3px solid ${PRIORITY_COLORS[card.priority] ?? 'var(--border)'}`,
+                      borderTop: showDropLine ? '2px solid var(--accent)' : undefined,
+                      cursor: canEdit ? 'grab' : undefined,
+                    }}
+                  >
+                    {editingCard === card.id ? (
+                      <CardEditor
+                        card={card}
+                        assignees={assignees}
+                        labelForDid={label}
+                        onSave={async (edit) => {
+                          await onUpdateCard(card.id, edit)
+                          setEditingCard(null)
+                        }}
+                        onDelete={
+                          canDeleteCards
+                            ? async () => {
+                                await onDeleteCard(card.id)
+                                setEditingCard(null)
+                              }
+                            : undefined
+                        }
+                        onCancel={() => setEditingCard(null)}
+                      />
+                    ) : (
+                      <>
+                        <p style={{ margin: 0, fontSize: '0.9rem', fontWeight: 600 }}>
+                          <button
+                            type="button"
+                            aria-expanded={openCard === card.id}
+                            onClick={() => setOpenCard(openCard === card.id ? null : card.id)}
+                            style={{ all: 'unset', cursor: 'pointer' }}
+                          >
+                            {card.title}
+                          </button>
+                          {card.links && card.links.length > 0 && (
+                            <span style={{ marginLeft: '0.35rem', fontSize: '0.7rem', color: 'var(--muted)', fontWeight: 400 }}>
+                              🔗 {card.links.length}
+                            </span>
+                          )}
+                        </p>
+                        {card.description && (
+                          <p style={{ margin: '0.25rem 0 0', fontSize: '0.8rem', color: 'var(--muted)' }}>{card.description}</p>
+                        )}
+                        {card.labels && card.labels.length > 0 && (
+                          <p style={{ margin: '0.25rem 0 0', display: 'flex', flexWrap: 'wrap', gap: '0.25rem' }}>
+                            {card.labels.map((l) => (
+                              <span
+                                key={l}
+                                style={{
+                                  fontSize: '0.7rem',
+                                  padding: '0.05rem 0.4rem',
+                                  borderRadius: '999px',
+                                  background: 'var(--surface)',
+                                  border: '1px solid var(--border)',
+                                }}
+                              >
+                                {l}
+                              </span>
+                            ))}
+                          </p>
+                        )}
+                        <p style={{ margin: '0.25rem 0 0', fontSize: '0.75rem', color: 'var(--muted)' }}>
+                          {card.priority}
+                          {card.dueDate && (
+                            <>
+                              {' · '}
+                              <span style={overdue ? { color: 'var(--error, red)', fontWeight: 600 } : undefined}>
+                                {overdue ? 'overdue ' : 'due '}
+                                {card.dueDate}
+                              </span>
+                            </>
+                          )}
+                          {card.assignee && <> · {label(card.assignee)}</>}
+                          {card.updatedBy && <> · edited by {label(card.updatedBy)}</>}
+                        </p>
+                        {openCard === card.id && (
+                          <KanbanCardDetails
+                            projectUri={board.projectUri}
+                            card={card}
+                            canEditLinks={canEdit}
+                            canComment={canComment}
+                            currentDid={currentDid}
+                            labelForDid={label}
+                            onUpdateLinks={(links) => onUpdateCard(card.id, { links })}
+                          />
+                        )}
+                        {canEdit && (
+                          <div style={{ display: 'flex', gap: '0.25rem', marginTop: '0.35rem' }}>
+                            <select
+                              aria-label={`Move "${card.title}"`}
+                              value={col.id}
+                              onChange={(e) => {
+                                const to = board.columns.find((c) => c.id === e.target.value)
+                                if (to) move(card.id, to.id, to.cards.length)
+                              }}
+                              disabled={busy}
+                              style={{ flex: 1, minWidth: 0, fontSize: '0.8rem' }}
+                            >
+                              {board.columns.map((c) => (
+                                <option key={c.id} value={c.id}>
+                                  {c.id === col.id ? c.title : `Move to ${c.title}`}
+                                </option>
+                              ))}
+                            </select>
+                            <button type="button" className={styles.tab} onClick={() => setEditingCard(card.id)} disabled={busy}>
+                              Edit
+                            </button>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+            {canEdit && (
+              <div style={{ display: 'flex', gap: '0.25rem', marginTop: '0.5rem' }}>
+                <input
+                  type="text"
+                  placeholder={atLimit ? 'WIP limit reached' : 'New card'}
+                  value={drafts[col.id] ?? ''}
+                  onChange={(e) => setDrafts((d) => ({ ...d, [col.id]: e.target.value }))}
+                  onKeyDown={(e) => e.key === 'Enter' && add(col.id)}
+                  disabled={atLimit}
+                  style={{ flex: 1, minWidth: 0, padding: '0.35rem', fontSize: '0.85rem' }}
+                />
+                <button type="button" className={styles.tab} onClick={() => add(col.id)} disabled={busy || atLimit}>
+                  Add
+                </button>
+              </div>
+            )}
+          </section>
+        )
+      })}
+      {canEditColumns && onAddColumn && (
+        <form onSubmit={addColumn} style={{ flex: '0 0 200px', display: 'flex', gap: '0.25rem', alignItems: 'flex-start' }}>
+          <input
+            type="text"
+            placeholder="New column"
+            value={newColumn}
+            onChange={(e) => setNewColumn(e.target.value)}
+            style={{ flex: 1, minWidth: 0, padding: '0.35rem', fontSize: '0.85rem' }}
+          />
+          <button type="submit" className={styles.tab} disabled={busy || !newColumn.trim()}>
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,313 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { addCardComment, deleteCardComment, listCardComments } from '../lib/collab'
+import { cardLinkHref, loadCardLinkPreviews, MAX_CARD_LINKS, parseCardLink, type CardLinkPreview } from '../lib/cardLinks'
+import { getPostMediaInfoForDisplay } from '../lib/bsky'
+import { formatExactDateTime, formatRelativeTime } from '../lib/date'
+import type { KanbanCard, KanbanCardComment, KanbanCardLink } from '../types'
+import styles from '../pages/ForumPage.module.css'
+
+const KIND_ICONS: Record<KanbanCardLink['kind'], string> = { post: '🦋', forum: '💬', artboard: '🖼️' }
+
+const previewBox: React.CSSProperties = {
+  display: 'flex',
+  gap: '0.5rem',
+  padding: '0.4rem',
+  border: '1px solid var(--border)',
+  borderRadius: '0.375rem',
+  background: 'var(--surface)',
+  fontSize: '0.8rem',
+  minWidth: 0,
+}
+
+function LinkPreview({ preview }: { preview: CardLinkPreview }) {
+  const href = cardLinkHref(preview)
+  const wrap = (body: React.ReactNode) =>
+    href ? (
+      <Link to={href} style={{ ...previewBox, color: 'inherit', textDecoration: 'none' }}>
+        {body}
+      </Link>
+    ) : (
+      <div style={previewBox}>{body}</div>
+    )
+
+  if ('missing' in preview) {
+    return wrap(
+      <span style={{ color: 'var(--muted)' }}>
+        {KIND_ICONS[preview.kind]} This {preview.kind === 'forum' ? 'thread' : preview.kind} is no longer available
+      </span>
+    )
+  }
+  if (preview.kind === 'post') {
+    const { post } = preview
+    const media = getPostMediaInfoForDisplay(post)
+    const text = (post.record as { text?: string })?.text ?? ''
+    return wrap(
+      <>
+        {media && (
+          <img
+            src={media.url}
+            alt=""
+            loading="lazy"
+            style={{ width: 56, height: 56, objectFit: 'cover', borderRadius: '0.25rem', flexShrink: 0 }}
+          />
+        )}
+        <span style={{ minWidth: 0 }}>
+          <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontWeight: 600 }}>
+            {post.author.avatar && (
+              <img src={post.author.avatar} alt="" style={{ width: 16, height: 16, borderRadius: '50%' }} />
+            )}
+            @{post.author.handle}
+          </span>
+          <span style={{ display: 'block', color: 'var(--muted)', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+            {text.slice(0, 160) || (media ? (media.type === 'video' ? 'Video' : 'Image') : '')}
+          </span>
+        </span>
+      </>
+    )
+  }
+  if (preview.kind === 'forum') {
+    const { post } = preview
+    return wrap(
+      <span style={{ minWidth: 0 }}>
+        <span style={{ display: 'block', fontWeight: 600 }}>
+          {KIND_ICONS.forum} {post.title || 'Untitled'}
+        </span>
+        <span style={{ color: 'var(--muted)' }}>
+          {post.authorHandle ? `@${post.authorHandle}` : post.did}
+          {post.body && <> · {post.body.slice(0, 120)}</>}
+        </span>
+      </span>
+    )
+  }
+  const { artboard } = preview
+  return wrap(
+    <>
+      {artboard.thumbs.length > 0 && (
+        <span style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 28px)', gap: 2, flexShrink: 0 }}>
+          {artboard.thumbs.map((t) => (
+            <img key={t} src={t} alt="" loading="lazy" style={{ width: 28, height: 28, objectFit: 'cover', borderRadius: 2 }} />
+          ))}
+        </span>
+      )}
+      <span style={{ minWidth: 0 }}>
+        <span style={{ display: 'block', fontWeight: 600 }}>
+          {KIND_ICONS.artboard} {artboard.name}
+        </span>
+        <span style={{ color: 'var(--muted)' }}>
+          Artboard · {artboard.postCount} post{artboard.postCount !== 1 ? 's' : ''}
+        </span>
+      </span>
+    </>
+  )
+}
+
+/**
+ * What an opened card shows: its linked posts, forum threads and artboards (previewed
+ * inline) and its comment thread.
+ */
+export default function KanbanCardDetails({
+  projectUri,
+  card,
+  canEditLinks,
+  canComment,
+  currentDid,
+  labelForDid,
+  onUpdateLinks,
+}: {
+  projectUri: string
+  card: KanbanCard
+  canEditLinks: boolean
+  canComment: boolean
+  currentDid?: string
+  labelForDid: (did: string) => string
+  onUpdateLinks: (links: KanbanCardLink[]) => Promise<void>
+}) {
+  const links = card.links ?? []
+  const [previews, setPreviews] = useState<CardLinkPreview[] | null>(null)
+  const [comments, setComments] = useState<KanbanCardComment[] | null>(null)
+  const [linkInput, setLinkInput] = useState('')
+  const [commentInput, setCommentInput] = useState('')
+  const [busy, setBusy] = useState(false)
+  // Serialized so a board refresh with the same links doesn't refetch the previews.
+  const linksKey = JSON.stringify(links)
+
+  useEffect(() => {
+    let cancelled = false
+    loadCardLinkPreviews(JSON.parse(linksKey) as KanbanCardLink[]).then((p) => {
+      if (!cancelled) setPreviews(p)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [linksKey])
+
+  useEffect(() => {
+    let cancelled = false
+    listCardComments(projectUri, card.id)
+      .then((c) => {
+        if (!cancelled) setComments(c)
+      })
+      .catch(() => {
+        if (!cancelled) setComments([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [projectUri, card.id])
+
+  async function addLink(e: React.FormEvent) {
+    e.preventDefault()
+    if (!linkInput.trim() || busy) return
+    setBusy(true)
+    try {
+      let link: KanbanCardLink
+      try {
+        link = await parseCardLink(linkInput)
+        if (links.some((l) => l.uri === link.uri)) throw new Error('That is already linked')
+        if (links.length >= MAX_CARD_LINKS) throw new Error(`A card can have at most ${MAX_CARD_LINKS} links`)
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Could not add link')
+        return
+      }
+      await onUpdateLinks([...links, link])
+      setLinkInput('')
+    } catch {
+      /* onUpdateLinks reports the error; keep the link in the input */
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function removeLink(uri: string) {
+    if (busy) return
+    setBusy(true)
+    try {
+      await onUpdateLinks(links.filter((l) => l.uri !== uri))
+    } catch {
+      /* onUpdateLinks reports the error */
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function postComment(e: React.FormEvent) {
+    e.preventDefault()
+    if (!commentInput.trim() || busy) return
+    setBusy(true)
+    try {
+      const comment = await addCardComment(projectUri, card.id, commentInput)
+      setComments((list) => [...(list ?? []), comment])
+      setCommentInput('')
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not post comment')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function removeComment(uri: string) {
+    if (busy || !confirm('Delete this comment?')) return
+    setBusy(true)
+    try {
+      await deleteCardComment(uri)
+      setComments((list) => (list ?? []).filter((c) => c.uri !== uri))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not delete comment')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const field = { flex: 1, minWidth: 0, padding: '0.3rem', fontSize: '0.8rem' }
+
+  return (
+    <div style={{ marginTop: '0.5rem', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      {(links.length > 0 || canEditLinks) && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+          {links.length > 0 && !previews && <div className={styles.loading}>Loading links…</div>}
+          {previews?.map((p) => (
+            <div key={p.uri} style={{ display: 'flex', gap: '0.25rem', alignItems: 'flex-start' }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <LinkPreview preview={p} />
+              </div>
+              {canEditLinks && (
+                <button
+                  type="button"
+                  aria-label="Remove link"
+                  onClick={() => removeLink(p.uri)}
+                  disabled={busy}
+                  style={{ background: 'none', border: 'none', color: 'var(--muted)', cursor: 'pointer' }}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          {canEditLinks && (
+            <form onSubmit={addLink} style={{ display: 'flex', gap: '0.25rem' }}>
+              <input
+                type="text"
+                aria-label="Link a post, thread or artboard"
+                placeholder="Paste a Bluesky post, forum thread or artboard link"
+                value={linkInput}
+                onChange={(e) => setLinkInput(e.target.value)}
+                style={field}
+              />
+              <button type="submit" className={styles.tab} disabled={busy || !linkInput.trim()}>
+                Link
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      <div>
+        <p style={{ margin: '0 0 0.25rem', fontSize: '0.75rem', fontWeight: 600, color: 'var(--muted)' }}>
+          Comments{comments && comments.length > 0 && ` (${comments.length})`}
+        </p>
+        {!comments ? (
+          <div className={styles.loading}>Loading comments…</div>
+        ) : (
+          <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+            {comments.map((c) => (
+              <li key={c.uri} style={{ fontSize: '0.8rem' }}>
+                <span style={{ fontWeight: 600 }}>{labelForDid(c.did)}</span>{' '}
+                <span style={{ color: 'var(--muted)' }} title={formatExactDateTime(c.createdAt)}>
+                  {formatRelativeTime(c.createdAt)}
+                </span>
+                {c.did === currentDid && (
+                  <button
+                    type="button"
+                    aria-label="Delete comment"
+                    onClick={() => removeComment(c.uri)}
+                    disabled={busy}
+                    style={{ background: 'none', border: 'none', color: 'var(--muted)', cursor: 'pointer' }}
+                  >
+                    ×
+                  </button>
+                )}
+                <p style={{ margin: '0.1rem 0 0', whiteSpace: 'pre-wrap' }}>{c.text}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {canComment && (
+          <form onSubmit={postComment} style={{ display: 'flex', gap: '0.25rem', marginTop: '0.35rem' }}>
+            <input
+              type="text"
+              aria-label="Comment"
+              placeholder="Add a comment"
+              value={commentInput}
+              onChange={(e) => setCommentInput(e.target.value)}
+              style={field}
+            />
+            <button type="submit" className={styles.tab} disabled={busy || !commentInput.trim()}>
+              Post
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { useMemo } from 'react'
+import { diffLines, diffStats, type DiffLine } from '../lib/diff'
+
+/** Unchanged lines kept around each change; longer unchanged stretches collapse. */
+const CONTEXT_LINES = 3
+
+const ROW_STYLES: Record<DiffLine['type'], React.CSSProperties> = {
+  same: {},
+  add: { background: 'rgba(52, 211, 153, 0.15)' },
+  remove: { background: 'var(--error-bg)' },
+}
+const MARKS: Record<DiffLine['type'], string> = { same: ' ', add: '+', remove: '-' }
+
+type Row = { line: DiffLine } | { skipped: number }
+
+function withContext(lines: DiffLine[]): Row[] {
+  const keep = lines.map(() => false)
+  lines.forEach((l, i) => {
+    if (l.type === 'same') return
+    for (let k = Math.max(0, i - CONTEXT_LINES); k <= Math.min(lines.length - 1, i + CONTEXT_LINES); k++) keep[k] = true
+  })
+  const rows: Row[] = []
+  let skipped = 0
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      if (skipped) rows.push({ skipped })
+      skipped = 0
+      rows.push({ line })
+    } else skipped++
+  })
+  if (skipped) rows.push({ skipped })
+  return rows
+}
+
+/** Line-level diff of two texts, with added/removed counts. */
+export default function LineDiff({ before, after }: { before: string; after: string }) {
+  const { rows, stats } = useMemo(() => {
+    const lines = diffLines(before, after)
+    return { rows: withContext(lines), stats: diffStats(lines) }
+  }, [before, after])
+
+  const cell: React.CSSProperties = { padding: '0 0.4rem', color: 'var(--muted)', textAlign: 'right', userSelect: 'none' }
+
+  return (
+    <div>
+      <p style={{ margin: '0 0 0.25rem', fontSize: '0.8rem', color: 'var(--muted)' }}>
+        +{stats.added} −{stats.removed} line{stats.added + stats.removed !== 1 ? 's' : ''}
+      </p>
+      {stats.added + stats.removed === 0 ? (
+        <p style={{ margin: 0, fontSize: '0.85rem', color: 'var(--muted)' }}>No changes.</p>
+      ) : (
+        <div style={{ overflowX: 'auto', border: '1px solid var(--border)', borderRadius: '0.375rem' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontFamily: 'monospace', fontSize: '0.8rem' }}>
+            <tbody>
+              {rows.map((row, i) =>
+                'skipped' in row ? (
+                  <tr key={i}>
+                    <td colSpan={4} style={{ ...cell, textAlign: 'center', background: 'var(--surface)' }}>
+                      ⋯ {row.skipped} unchanged line{row.skipped !== 1 ? 's' : ''}
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={i} style={ROW_STYLES[row.line.type]}>
+                    <td style={cell}>{row.line.oldLine ?? ''}</td>
+                    <td style={cell}>{row.line.newLine ?? ''}</td>
+                    <td style={{ ...cell, textAlign: 'center' }}>{MARKS[row.line.type]}</td>
+                    <td style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', width: '100%' }}>{row.line.text}</td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
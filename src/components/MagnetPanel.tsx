@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import { formatByteSize, parseMagnet } from '../lib/magnet'
+import styles from '../pages/ForumPage.module.css'
+
+const VERSION_LABELS = { v1: 'BitTorrent v1', v2: 'BitTorrent v2', hybrid: 'Hybrid v1 + v2' }
+
+function shortHash(hash: string): string {
+  return `${hash.slice(0, 8)}…${hash.slice(-8)}`
+}
+
+/** Readable summary of a magnet link: name, size, protocol, info hashes, trackers and web seeds. */
+export default function MagnetPanel({ magnetLink, compact = false }: { magnetLink: string; compact?: boolean }) {
+  const [expanded, setExpanded] = useState(false)
+  let info: ReturnType<typeof parseMagnet> | null = null
+  let error: string | null = null
+  try {
+    info = parseMagnet(magnetLink)
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Invalid magnet link'
+  }
+
+  if (!info) {
+    return (
+      <p className={styles.error} style={{ fontSize: '0.8rem', margin: 0 }}>
+        Torrent link is invalid: {error}
+      </p>
+    )
+  }
+
+  const summary = [
+    VERSION_LABELS[info.version],
+    info.exactLength !== undefined ? formatByteSize(info.exactLength) : null,
+    `${info.trackers.length} tracker${info.trackers.length !== 1 ? 's' : ''}`,
+    info.webSeeds.length > 0 ? `${info.webSeeds.length} web seed${info.webSeeds.length !== 1 ? 's' : ''}` : null,
+  ].filter(Boolean)
+
+  return (
+    <div
+      style={{
+        fontSize: '0.8rem',
+        padding: '0.5rem',
+        background: 'var(--bg)',
+        borderRadius: '0.375rem',
+        border: '1px solid var(--border)',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+        <span aria-hidden>🧲</span>
+        <strong style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {info.displayName ?? 'Torrent'}
+        </strong>
+        <a href={magnetLink} className={styles.standardLink}>
+          Open
+        </a>
+      </div>
+      <p style={{ margin: '0.25rem 0 0', color: 'var(--muted)' }}>{summary.join(' · ')}</p>
+      {!compact && (
+        <>
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            style={{ marginTop: '0.25rem', padding: 0, background: 'none', border: 'none', color: 'var(--muted)', cursor: 'pointer', fontSize: '0.8rem' }}
+          >
+            {expanded ? 'Hide details' : 'Details'}
+          </button>
+          {expanded && (
+            <dl style={{ margin: '0.35rem 0 0', display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '0.2rem 0.5rem' }}>
+              {info.infoHashV1 && (
+                <>
+                  <dt style={{ color: 'var(--muted)' }}>v1 hash</dt>
+                  <dd style={{ margin: 0 }}>
+                    <code title={info.infoHashV1}>{shortHash(info.infoHashV1)}</code>
+                  </dd>
+                </>
+              )}
+              {info.infoHashV2 && (
+                <>
+                  <dt style={{ color: 'var(--muted)' }}>v2 hash</dt>
+                  <dd style={{ margin: 0 }}>
+                    <code title={info.infoHashV2}>{shortHash(info.infoHashV2)}</code>
+                  </dd>
+                </>
+              )}
+              {info.exactLength !== undefined && (
+                <>
+                  <dt style={{ color: 'var(--muted)' }}>Size</dt>
+                  <dd style={{ margin: 0 }}>{info.exactLength.toLocaleString()} bytes</dd>
+                </>
+              )}
+              {info.trackers.length > 0 && (
+                <>
+                  <dt style={{ color: 'var(--muted)' }}>Trackers</dt>
+                  <dd style={{ margin: 0, wordBreak: 'break-all' }}>
+                    {info.trackers.map((t) => (
+                      <div key={t}>{t}</div>
+                    ))}
+                  </dd>
+                </>
+              )}
+              {info.webSeeds.length > 0 && (
+                <>
+                  <dt style={{ color: 'var(--muted)' }}>Web seeds</dt>
+                  <dd style={{ margin: 0, wordBreak: 'break-all' }}>
+                    {info.webSeeds.map((w) => (
+                      <div key={w}>
+                        <a href={w} target="_blank" rel="noopener noreferrer" className={styles.standardLink}>
+                          {w}
+                        </a>
+                      </div>
+                    ))}
+                  </dd>
+                </>
+              )}
+            </dl>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { useMemo } from 'react'
+import { renderMarkdown, type MarkdownOptions } from '../lib/markdown'
+import styles from './Markdown.module.css'
+
+/** Markdown rendered to sanitized HTML (see lib/markdown). `authorDid` resolves `cid:` images. */
+export default function MarkdownBody({
+  text,
+  authorDid,
+  wikiLink,
+  className,
+}: {
+  text: string
+  authorDid?: string
+  /** Resolves [[Page Title]] links (wiki pages) */
+  wikiLink?: MarkdownOptions['wikiLink']
+  className?: string
+}) {
+  const html = useMemo(() => renderMarkdown(text, { authorDid, wikiLink }), [text, authorDid, wikiLink])
+  return <div className={className ? `${styles.markdown} ${className}` : styles.markdown} dangerouslySetInnerHTML={{ __html: html }} />
+}
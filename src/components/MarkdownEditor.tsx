@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import MarkdownBody from './MarkdownBody'
+import type { MarkdownOptions } from '../lib/markdown'
+import styles from './Markdown.module.css'
+
+type EditorMode = 'write' | 'preview' | 'split'
+
+const MODES: Array<{ mode: EditorMode; label: string }> = [
+  { mode: 'write', label: 'Write' },
+  { mode: 'preview', label: 'Preview' },
+  { mode: 'split', label: 'Split' },
+]
+
+/** Markdown textarea with Write / Preview / Split (side by side) modes. */
+export default function MarkdownEditor({
+  value,
+  onChange,
+  placeholder,
+  rows = 8,
+  authorDid,
+  wikiLink,
+  textareaClassName,
+  textareaStyle,
+}: {
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  rows?: number
+  /** Repo of `cid:` images, for the preview */
+  authorDid?: string
+  /** Resolves [[Page Title]] links in the preview (wiki pages) */
+  wikiLink?: MarkdownOptions['wikiLink']
+  textareaClassName?: string
+  textareaStyle?: React.CSSProperties
+}) {
+  const [mode, setMode] = useState<EditorMode>('write')
+
+  const textarea = (
+    <textarea
+      className={textareaClassName}
+      style={textareaStyle}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={placeholder}
+      rows={rows}
+    />
+  )
+  const preview = (
+    <div className={styles.preview}>
+      {value.trim() ? <MarkdownBody text={value} authorDid={authorDid} wikiLink={wikiLink} /> : <span className={styles.previewEmpty}>Nothing to preview</span>}
+    </div>
+  )
+
+  return (
+    <div>
+      <div className={styles.editorTabs} role="tablist" aria-label="Editor mode">
+        {MODES.map((m) => (
+          <button
+            key={m.mode}
+            type="button"
+            role="tab"
+            aria-selected={mode === m.mode}
+            className={mode === m.mode ? styles.editorTabActive : styles.editorTab}
+            onClick={() => setMode(m.mode)}
+          >
+            {m.label}
+          </button>
+        ))}
+        <span style={{ marginLeft: 'auto', alignSelf: 'center', fontSize: '0.75rem', color: 'var(--muted)' }}>Markdown supported</span>
+      </div>
+      {mode === 'write' && textarea}
+      {mode === 'preview' && preview}
+      {mode === 'split' && (
+        <div className={styles.editorPanes}>
+          {textarea}
+          {preview}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+import type { ConsensusResult } from '../types'
+
+/** Colours for opinion groups (cycled when there are more groups). */
+const CLUSTER_COLORS = ['#4e79a7', '#f28e2b', '#59a14f', '#e15759', '#b07aa1']
+
+function clusterColor(clusterId: number | null): string {
+  return clusterId === null ? 'var(--muted)' : CLUSTER_COLORS[clusterId % CLUSTER_COLORS.length]
+}
+
+/** Small colour dot matching a group's points on the map. */
+export function GroupSwatch({ clusterId }: { clusterId: number }) {
+  return (
+    <span
+      aria-hidden
+      style={{
+        display: 'inline-block',
+        width: 10,
+        height: 10,
+        borderRadius: '50%',
+        background: clusterColor(clusterId),
+        marginRight: '0.35rem',
+        verticalAlign: 'middle',
+      }}
+    />
+  )
+}
+
+const SIZE = 320
+const PAD = 20
+
+/** SVG scatter of participants on the first two principal components, coloured by opinion group. */
+export default function OpinionMap({
+  participants,
+  highlightId,
+}: {
+  participants: ConsensusResult['participants']
+  /** Participant to ring (e.g. the viewer). */
+  highlightId?: string
+}) {
+  if (participants.length === 0) return null
+  const xs = participants.map((p) => p.x)
+  const ys = participants.map((p) => p.y)
+  const minX = Math.min(...xs)
+  const maxX = Math.max(...xs)
+  const minY = Math.min(...ys)
+  const maxY = Math.max(...ys)
+  const spanX = maxX - minX || 1
+  const spanY = maxY - minY || 1
+  const sx = (x: number) => PAD + ((x - minX) / spanX) * (SIZE - 2 * PAD)
+  const sy = (y: number) => SIZE - PAD - ((y - minY) / spanY) * (SIZE - 2 * PAD)
+
+  return (
+    <svg
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      role="img"
+      aria-label={`Opinion map of ${participants.length} participants`}
+      style={{ width: '100%', maxWidth: SIZE, display: 'block', margin: '0 auto', background: 'var(--bg)', borderRadius: '0.5rem' }}
+    >
+      <line x1={PAD} y1={SIZE / 2} x2={SIZE - PAD} y2={SIZE / 2} stroke="var(--border)" strokeDasharray="4 4" />
+      <line x1={SIZE / 2} y1={PAD} x2={SIZE / 2} y2={SIZE - PAD} stroke="var(--border)" strokeDasharray="4 4" />
+      {participants.map((p) => {
+        // Jitter stacked points a little so identical voters stay visible.
+        const hash = [...p.id].reduce((h, ch) => (h * 31 + ch.charCodeAt(0)) >>> 0, 7)
+        const jx = ((hash % 11) - 5) * 0.8
+        const jy = (((hash >> 4) % 11) - 5) * 0.8
+        const isHighlight = p.id === highlightId
+        return (
+          <circle
+            key={p.id}
+            cx={sx(p.x) + jx}
+            cy={sy(p.y) + jy}
+            r={isHighlight ? 7 : 5}
+            fill={clusterColor(p.clusterId)}
+            fillOpacity={0.8}
+            stroke={isHighlight ? 'var(--text)' : 'none'}
+            strokeWidth={2}
+          >
+            <title>{isHighlight ? 'You' : p.clusterId !== null ? `Group ${p.clusterId + 1}` : 'Participant'}</title>
+          </circle>
+        )
+      })}
+    </svg>
+  )
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  getActivityLastSeen,
+  listProjectActivity,
+  markActivitySeen,
+  type ProjectActivity,
+  type ProjectActivityKind,
+} from '../lib/collabActivity'
+import { formatExactDateTime, formatRelativeTime } from '../lib/date'
+import type { CollabProject, ProjectMember } from '../types'
+import styles from '../pages/ForumPage.module.css'
+
+const KIND_FILTERS: Array<{ value: ProjectActivityKind | ''; label: string; icon: string }> = [
+  { value: '', label: 'All', icon: '' },
+  { value: 'card', label: 'Tasks', icon: '🗂️' },
+  { value: 'forum', label: 'Forum', icon: '💬' },
+  { value: 'project', label: 'Project', icon: '✏️' },
+  { value: 'release', label: 'Releases', icon: '📦' },
+]
+
+/** Activity stream for a project with kind and member filters and an unread marker. */
+export default function ProjectActivityFeed({
+  project,
+  members,
+  labelForDid,
+  forumTag,
+}: {
+  project: CollabProject
+  members: ProjectMember[]
+  labelForDid: (did: string) => string
+  /** Tag to put on forum posts so they show up here */
+  forumTag: string
+}) {
+  const [items, setItems] = useState<ProjectActivity[] | null>(null)
+  const [kind, setKind] = useState<ProjectActivityKind | ''>('')
+  const [member, setMember] = useState('')
+  // Read once per visit so the marker stays put while the stream is open.
+  const [lastSeen] = useState(() => getActivityLastSeen(project.uri))
+
+  useEffect(() => {
+    let cancelled = false
+    listProjectActivity(project)
+      .then((list) => {
+        if (cancelled) return
+        setItems(list)
+        if (list[0]) markActivitySeen(project.uri, list[0].at)
+      })
+      .catch(() => {
+        if (!cancelled) setItems([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [project])
+
+  if (!items) return <div className={styles.loading}>Loading activity…</div>
+
+  const filtered = items.filter((i) => (!kind || i.kind === kind) && (!member || i.actor === member))
+  const unreadCount = lastSeen ? items.filter((i) => i.at > lastSeen).length : 0
+  const firstReadIndex = lastSeen ? filtered.findIndex((i) => i.at <= lastSeen) : -1
+  const actors = [...new Set([...members.map((m) => m.did), ...items.map((i) => i.actor)])]
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <div className={styles.tabs} style={{ margin: 0 }}>
+          {KIND_FILTERS.map((k) => (
+            <button
+              key={k.value}
+              type="button"
+              className={kind === k.value ? styles.tabActive : styles.tab}
+              onClick={() => setKind(k.value)}
+            >
+              {k.icon && <>{k.icon} </>}
+              {k.label}
+            </button>
+          ))}
+        </div>
+        <select aria-label="Filter by member" value={member} onChange={(e) => setMember(e.target.value)}>
+          <option value="">Everyone</option>
+          {actors.map((did) => (
+            <option key={did} value={did}>
+              {labelForDid(did)}
+            </option>
+          ))}
+        </select>
+        {unreadCount > 0 && <span className={styles.commentBadge}>{unreadCount} new</span>}
+      </div>
+      {filtered.length === 0 ? (
+        <div className={styles.empty}>No activity yet.</div>
+      ) : (
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+          {filtered.map((item, i) => {
+            const unread = !!lastSeen && item.at > lastSeen
+            const icon = KIND_FILTERS.find((k) => k.value === item.kind)?.icon
+            return (
+              <li key={item.id}>
+                {i === firstReadIndex && i > 0 && (
+                  <div
+                    role="separator"
+                    style={{ borderTop: '1px solid var(--accent)', margin: '0.35rem 0', fontSize: '0.75rem', color: 'var(--accent)' }}
+                  >
+                    Seen before
+                  </div>
+                )}
+                <div style={{ display: 'flex', gap: '0.5rem', fontSize: '0.9rem', fontWeight: unread ? 600 : 400 }}>
+                  <span aria-hidden>{icon}</span>
+                  <span style={{ flex: 1, minWidth: 0 }}>
+                    {labelForDid(item.actor)}{' '}
+                    {item.href ? (
+                      <Link to={item.href} className={styles.standardLink}>
+                        {item.text}
+                      </Link>
+                    ) : (
+                      item.text
+                    )}
+                  </span>
+                  <span style={{ color: 'var(--muted)', fontSize: '0.8rem', whiteSpace: 'nowrap' }} title={formatExactDateTime(item.at)}>
+                    {formatRelativeTime(item.at)}
+                  </span>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      <p style={{ fontSize: '0.8rem', color: 'var(--muted)', marginTop: '0.75rem' }}>
+        Tag forum posts with <code>{forumTag}</code> to show them here.
+      </p>
+    </div>
+  )
+}
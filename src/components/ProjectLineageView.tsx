@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { getProjectLineage, type ProjectForkNode, type ProjectLineage } from '../lib/collab'
+import type { CollabProject } from '../types'
+import styles from '../pages/ForumPage.module.css'
+
+function projectHref(uri: string): string {
+  return `/collab/project?uri=${encodeURIComponent(uri)}`
+}
+
+function ForkBranch({ node, labelForDid }: { node: ProjectForkNode; labelForDid: (did: string) => string }) {
+  return (
+    <li>
+      <Link to={projectHref(node.project.uri)} className={styles.standardLink}>
+        {node.project.name}
+      </Link>
+      <span style={{ color: 'var(--muted)' }}> · {labelForDid(node.project.owner)}</span>
+      {node.forks.length > 0 && (
+        <ul style={{ margin: 0, paddingLeft: '1.25rem' }}>
+          {node.forks.map((f) => (
+            <ForkBranch key={f.project.uri} node={f} labelForDid={labelForDid} />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+/** Fork lineage of a project: the chain of parents above it and its known forks below. */
+export default function ProjectLineageView({
+  project,
+  labelForDid,
+}: {
+  project: CollabProject
+  labelForDid: (did: string) => string
+}) {
+  const [lineage, setLineage] = useState<ProjectLineage | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    getProjectLineage(project)
+      .then((l) => {
+        if (!cancelled) setLineage(l)
+      })
+      .catch(() => {
+        if (!cancelled) setLineage({ ancestors: [], forks: [] })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [project])
+
+  if (!lineage) return <div className={styles.loading}>Loading lineage…</div>
+  if (lineage.ancestors.length === 0 && lineage.forks.length === 0) {
+    return <div className={styles.empty}>Not forked from another project, and no known forks yet.</div>
+  }
+
+  return (
+    <ol style={{ listStyle: 'none', margin: 0, padding: 0, fontSize: '0.9rem', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+      {lineage.ancestors.map((a, i) => (
+        <li key={a.ref.uri} style={{ paddingLeft: `${i * 1.25}rem` }}>
+          {i > 0 && <span aria-hidden>↳ </span>}
+          {a.project ? (
+            <>
+              <Link to={projectHref(a.ref.uri)} className={styles.standardLink}>
+                {a.project.name}
+              </Link>
+              <span style={{ color: 'var(--muted)' }}> · {labelForDid(a.project.owner)}</span>
+              {a.changed && (
+                <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}> · updated since the fork</span>
+              )}
+            </>
+          ) : (
+            <span style={{ color: 'var(--muted)' }}>Deleted project</span>
+          )}
+        </li>
+      ))}
+      <li style={{ paddingLeft: `${lineage.ancestors.length * 1.25}rem` }}>
+        {lineage.ancestors.length > 0 && <span aria-hidden>↳ </span>}
+        <strong>{project.name}</strong>
+        <span style={{ color: 'var(--muted)' }}> (this project)</span>
+        {lineage.forks.length > 0 && (
+          <ul style={{ margin: '0.25rem 0 0', paddingLeft: '1.25rem' }}>
+            {lineage.forks.map((f) => (
+              <ForkBranch key={f.project.uri} node={f} labelForDid={labelForDid} />
+            ))}
+          </ul>
+        )}
+      </li>
+    </ol>
+  )
+}
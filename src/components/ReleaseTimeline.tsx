@@ -0,0 +1,198 @@
+import { useState } from 'react'
+import type { ProjectRelease, ReleaseDownload } from '../types'
+import { formatExactDateTime, formatRelativeTime } from '../lib/date'
+import { isValidSemver } from '../lib/semver'
+import styles from '../pages/ForumPage.module.css'
+
+export interface ReleaseTimelineProps {
+  /** Newest version first. */
+  releases: ProjectRelease[]
+  /** Owner and maintainers can publish. */
+  canPublish: boolean
+  currentDid?: string
+  labelForDid: (did: string) => string
+  /** Should reject when publishing fails (the form then stays filled in). */
+  onPublish: (release: { version: string; notes: string; downloads: ReleaseDownload[]; checksum?: string }) => Promise<void>
+  onDelete: (uri: string) => Promise<void>
+}
+
+/** One download per line: "label | url" or just the url. */
+function parseDownloads(text: string): ReleaseDownload[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const bar = line.lastIndexOf('|')
+      if (bar < 0) return { url: line }
+      return { label: line.slice(0, bar).trim() || undefined, url: line.slice(bar + 1).trim() }
+    })
+}
+
+export default function ReleaseTimeline({
+  releases,
+  canPublish,
+  currentDid,
+  labelForDid,
+  onPublish,
+  onDelete,
+}: ReleaseTimelineProps) {
+  const [showForm, setShowForm] = useState(false)
+  const [version, setVersion] = useState('')
+  const [notes, setNotes] = useState('')
+  const [downloads, setDownloads] = useState('')
+  const [checksum, setChecksum] = useState('')
+  const [publishing, setPublishing] = useState(false)
+  const versionInvalid = version.trim() !== '' && !isValidSemver(version)
+
+  async function handlePublish(e: React.FormEvent) {
+    e.preventDefault()
+    if (!version.trim() || versionInvalid || publishing) return
+    setPublishing(true)
+    try {
+      await onPublish({ version, notes, downloads: parseDownloads(downloads), checksum: checksum.trim() || undefined })
+      setVersion('')
+      setNotes('')
+      setDownloads('')
+      setChecksum('')
+      setShowForm(false)
+    } catch {
+      /* onPublish reports the error; keep the form filled in */
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  function copyChecksum(value: string) {
+    navigator.clipboard.writeText(value).catch(() => {
+      /* ignore */
+    })
+  }
+
+  return (
+    <div>
+      {canPublish && (
+        <button type="button" className={styles.tab} onClick={() => setShowForm(!showForm)} style={{ marginBottom: '0.75rem' }}>
+          {showForm ? 'Cancel' : '+ New Release'}
+        </button>
+      )}
+      {showForm && (
+        <form
+          onSubmit={handlePublish}
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '0.5rem',
+            padding: '0.75rem',
+            marginBottom: '1rem',
+            background: 'var(--surface)',
+            borderRadius: '0.5rem',
+            border: '1px solid var(--border)',
+          }}
+        >
+          <input
+            type="text"
+            placeholder="Version (e.g. 1.2.0 or 2.0.0-beta.1)"
+            value={version}
+            onChange={(e) => setVersion(e.target.value)}
+            aria-invalid={versionInvalid}
+            style={{ padding: '0.5rem' }}
+          />
+          {versionInvalid && (
+            <p className={styles.error} style={{ margin: 0, fontSize: '0.8rem' }}>
+              Use a semantic version: MAJOR.MINOR.PATCH, optionally with -prerelease.
+            </p>
+          )}
+          <textarea
+            placeholder="Release notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={4}
+            style={{ padding: '0.5rem', resize: 'vertical' }}
+          />
+          <textarea
+            placeholder={'Downloads, one per line: "label | url" (http(s) or magnet)'}
+            value={downloads}
+            onChange={(e) => setDownloads(e.target.value)}
+            rows={2}
+            style={{ padding: '0.5rem', resize: 'vertical', fontFamily: 'monospace', fontSize: '0.8rem' }}
+          />
+          <input
+            type="text"
+            placeholder="Checksum (sha256:…)"
+            value={checksum}
+            onChange={(e) => setChecksum(e.target.value)}
+            style={{ padding: '0.5rem', fontFamily: 'monospace', fontSize: '0.8rem' }}
+          />
+          <button type="submit" className={styles.tab} disabled={publishing || !version.trim() || versionInvalid}>
+            {publishing ? 'Publishing…' : 'Publish'}
+          </button>
+        </form>
+      )}
+      {releases.length === 0 ? (
+        <div className={styles.empty}>No releases yet.</div>
+      ) : (
+        <ol style={{ listStyle: 'none', margin: 0, padding: 0, borderLeft: '2px solid var(--border)' }}>
+          {releases.map((r, i) => (
+            <li key={r.uri} style={{ position: 'relative', padding: '0 0 1rem 1rem' }}>
+              <span
+                aria-hidden
+                style={{
+                  position: 'absolute',
+                  left: '-6px',
+                  top: '0.35rem',
+                  width: 10,
+                  height: 10,
+                  borderRadius: '50%',
+                  background: i === 0 ? 'var(--accent)' : 'var(--border)',
+                }}
+              />
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+                <strong>v{r.version}</strong>
+                {i === 0 && <span className={styles.commentBadge}>latest</span>}
+                <span style={{ fontSize: '0.8rem', color: 'var(--muted)' }} title={formatExactDateTime(r.createdAt)}>
+                  {formatRelativeTime(r.createdAt)} · {labelForDid(r.did)}
+                </span>
+                {r.did === currentDid && (
+                  <button
+                    type="button"
+                    onClick={() => confirm(`Delete release v${r.version}?`) && onDelete(r.uri)}
+                    style={{ marginLeft: 'auto', background: 'none', border: 'none', color: 'var(--muted)', cursor: 'pointer', fontSize: '0.8rem' }}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+              {r.notes && (
+                <p style={{ margin: '0.35rem 0 0', fontSize: '0.9rem', whiteSpace: 'pre-wrap' }}>{r.notes}</p>
+              )}
+              {r.downloads.length > 0 && (
+                <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', marginTop: '0.35rem', fontSize: '0.85rem' }}>
+                  {r.downloads.map((d) => (
+                    <a key={d.url} href={d.url} target="_blank" rel="noopener noreferrer" className={styles.standardLink}>
+                      {d.label || (d.url.startsWith('magnet:') ? 'Torrent' : 'Download')}
+                    </a>
+                  ))}
+                </div>
+              )}
+              {r.checksum && (
+                <p style={{ margin: '0.35rem 0 0', fontSize: '0.75rem', color: 'var(--muted)', display: 'flex', gap: '0.35rem', alignItems: 'center' }}>
+                  <code style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', maxWidth: '22rem' }} title={r.checksum}>
+                    {r.checksum}
+                  </code>
+                  <button
+                    type="button"
+                    onClick={() => copyChecksum(r.checksum ?? '')}
+                    style={{ background: 'none', border: 'none', color: 'inherit', cursor: 'pointer', fontSize: '0.75rem' }}
+                  >
+                    Copy
+                  </button>
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,369 @@
+import { useEffect, useState } from 'react'
+import {
+  addWikiEditor,
+  canEditWiki,
+  getForumProfiles,
+  listWikiRevisions,
+  removeWikiEditor,
+  revertWikiRevision,
+  saveWikiRevision,
+} from '../lib/forum'
+import { useSession } from '../context/SessionContext'
+import { formatExactDateTime, formatRelativeTime } from '../lib/date'
+import { invalidateWikiIndex } from '../lib/wikiLinks'
+import type { MarkdownOptions } from '../lib/markdown'
+import LineDiff from './LineDiff'
+import MarkdownBody from './MarkdownBody'
+import MarkdownEditor from './MarkdownEditor'
+import ProfileLink from './ProfileLink'
+import type { ForumReply, ForumWiki, ForumWikiRevision } from '../types'
+import styles from '../pages/ForumPage.module.css'
+
+type WikiView = 'page' | 'edit' | 'history' | 'editors'
+
+const fieldStyle: React.CSSProperties = { width: '100%', padding: '0.5rem', marginBottom: '0.5rem' }
+
+function RevisionAuthor({ revision }: { revision: ForumWikiRevision }) {
+  const handle = revision.authorHandle ?? revision.did
+  return (
+    <ProfileLink handle={handle} className={styles.standardLink}>
+      @{handle}
+    </ProfileLink>
+  )
+}
+
+/**
+ * A wiki page with its revision history. The page shows the latest revision; the
+ * owner and listed editors add revisions, compare any two of them line by line and
+ * revert (which adds a revision restoring the older content). The owner manages editors.
+ */
+export default function WikiPanel({
+  wiki: initialWiki,
+  wikiLink,
+  onRevisionSaved,
+}: {
+  wiki: ForumWiki
+  /** Resolves [[Page Title]] links in the page and the editor preview */
+  wikiLink?: MarkdownOptions['wikiLink']
+  /** Called after a revision (edit or revert) is saved */
+  onRevisionSaved?: () => void
+}) {
+  const { session } = useSession()
+  const [wiki, setWiki] = useState(initialWiki)
+  const [revisions, setRevisions] = useState<ForumWikiRevision[] | null>(null)
+  const [view, setView] = useState<WikiView>('page')
+  const [draft, setDraft] = useState({ title: '', body: '', summary: '', base: '' })
+  const [compare, setCompare] = useState<{ from: string; to: string } | null>(null)
+  const [editorProfiles, setEditorProfiles] = useState<Map<string, ForumReply['author']>>(new Map())
+  const [editorInput, setEditorInput] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    listWikiRevisions(wiki)
+      .then((r) => {
+        if (!cancelled) setRevisions(r)
+      })
+      .catch(() => {
+        if (!cancelled) setRevisions([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [wiki])
+
+  const editorsKey = [wiki.did, ...wiki.editors].join(',')
+  useEffect(() => {
+    let cancelled = false
+    getForumProfiles(editorsKey.split(',')).then((p) => {
+      if (!cancelled) setEditorProfiles(p)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [editorsKey])
+
+  const head = revisions?.[revisions.length - 1]
+  const canEdit = canEditWiki(wiki, session?.did)
+  const isOwner = session?.did === wiki.did
+
+  function startEdit() {
+    if (!head) return
+    setDraft({ title: head.title ?? '', body: head.body ?? '', summary: '', base: head.uri })
+    setView('edit')
+  }
+
+  async function handleSave() {
+    if (busy || !draft.title.trim()) return
+    setBusy(true)
+    try {
+      const latest = await listWikiRevisions(wiki)
+      const latestHead = latest[latest.length - 1]
+      if (
+        latestHead.uri !== draft.base &&
+        !confirm('Someone saved a newer revision while you were editing. Save yours on top of it anyway?')
+      ) {
+        setRevisions(latest)
+        return
+      }
+      await saveWikiRevision(wiki, { title: draft.title, body: draft.body, summary: draft.summary, parent: latestHead.uri })
+      setRevisions(await listWikiRevisions(wiki))
+      setView('page')
+      invalidateWikiIndex()
+      onRevisionSaved?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not save the revision')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleRevert(target: ForumWikiRevision) {
+    if (busy || !head || !confirm('Restore this revision? Its content is saved as a new revision.')) return
+    setBusy(true)
+    try {
+      await revertWikiRevision(wiki, target, head)
+      const next = await listWikiRevisions(wiki)
+      setRevisions(next)
+      setCompare(null)
+      invalidateWikiIndex()
+      onRevisionSaved?.()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not revert')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleAddEditor(e: React.FormEvent) {
+    e.preventDefault()
+    if (busy || !editorInput.trim()) return
+    setBusy(true)
+    try {
+      setWiki(await addWikiEditor(wiki, editorInput))
+      setEditorInput('')
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not add editor')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleRemoveEditor(did: string) {
+    if (busy || !confirm('Remove this editor? Their past revisions stay in the history.')) return
+    setBusy(true)
+    try {
+      setWiki(await removeWikiEditor(wiki, did))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not remove editor')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (!revisions || !head) return <div className={styles.loading}>Loading wiki…</div>
+
+  // Default comparison: the previous revision against the latest
+  const selected = compare ?? {
+    from: revisions[Math.max(0, revisions.length - 2)].uri,
+    to: head.uri,
+  }
+  const from = revisions.find((r) => r.uri === selected.from) ?? revisions[0]
+  const to = revisions.find((r) => r.uri === selected.to) ?? head
+  const revisionNumber = (r: ForumWikiRevision) => revisions.indexOf(r) + 1
+
+  return (
+    <section style={{ marginTop: '1rem', padding: '1rem', border: '1px solid var(--border)', borderRadius: '0.5rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <span className={styles.commentBadge}>Wiki</span>
+        <span style={{ fontSize: '0.85rem', color: 'var(--muted)' }}>
+          Revision {revisions.length} · edited by <RevisionAuthor revision={head} />{' '}
+          {head.createdAt && <span title={formatExactDateTime(head.createdAt)}>{formatRelativeTime(head.createdAt)}</span>}
+        </span>
+      </div>
+      <div className={styles.tabs} style={{ marginBottom: '0.75rem' }}>
+        <button type="button" className={view === 'page' ? styles.tabActive : styles.tab} onClick={() => setView('page')}>
+          Page
+        </button>
+        {canEdit && (
+          <button type="button" className={view === 'edit' ? styles.tabActive : styles.tab} onClick={startEdit}>
+            Edit
+          </button>
+        )}
+        <button type="button" className={view === 'history' ? styles.tabActive : styles.tab} onClick={() => setView('history')}>
+          History ({revisions.length})
+        </button>
+        <button type="button" className={view === 'editors' ? styles.tabActive : styles.tab} onClick={() => setView('editors')}>
+          Editors ({wiki.editors.length + 1})
+        </button>
+      </div>
+
+      {view === 'page' && (
+        <div>
+          <h2 style={{ margin: '0 0 0.5rem', fontSize: '1.2rem' }}>{head.title || 'Untitled'}</h2>
+          {head.body ? <MarkdownBody text={head.body} authorDid={head.did} wikiLink={wikiLink} /> : <div className={styles.empty}>This page is empty.</div>}
+        </div>
+      )}
+
+      {view === 'edit' && canEdit && (
+        <div>
+          <input
+            type="text"
+            aria-label="Title"
+            value={draft.title}
+            onChange={(e) => setDraft((d) => ({ ...d, title: e.target.value }))}
+            style={fieldStyle}
+          />
+          <div style={{ marginBottom: '0.5rem' }}>
+            <MarkdownEditor
+              value={draft.body}
+              onChange={(body) => setDraft((d) => ({ ...d, body }))}
+              authorDid={session?.did}
+              wikiLink={wikiLink}
+              rows={14}
+              textareaStyle={{ width: '100%', padding: '0.5rem' }}
+            />
+          </div>
+          <input
+            type="text"
+            aria-label="Edit summary"
+            placeholder="What did you change? (optional)"
+            maxLength={300}
+            value={draft.summary}
+            onChange={(e) => setDraft((d) => ({ ...d, summary: e.target.value }))}
+            style={fieldStyle}
+          />
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button type="button" className={styles.tabActive} disabled={busy || !draft.title.trim()} onClick={handleSave}>
+              {busy ? 'Saving…' : 'Save revision'}
+            </button>
+            <button type="button" className={styles.tab} disabled={busy} onClick={() => setView('page')}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {view === 'history' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: 'var(--muted)' }}>
+                <th title="Compare from">A</th>
+                <th title="Compare to">B</th>
+                <th>Revision</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {[...revisions].reverse().map((r) => (
+                <tr key={r.uri} style={{ borderTop: '1px solid var(--border)' }}>
+                  <td>
+                    <input
+                      type="radio"
+                      name="wiki-compare-from"
+                      aria-label={`Compare from revision ${revisionNumber(r)}`}
+                      checked={r.uri === from.uri}
+                      onChange={() => setCompare({ from: r.uri, to: to.uri })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="radio"
+                      name="wiki-compare-to"
+                      aria-label={`Compare to revision ${revisionNumber(r)}`}
+                      checked={r.uri === to.uri}
+                      onChange={() => setCompare({ from: from.uri, to: r.uri })}
+                    />
+                  </td>
+                  <td style={{ padding: '0.35rem 0.5rem' }}>
+                    <strong>#{revisionNumber(r)}</strong> <RevisionAuthor revision={r} />{' '}
+                    {r.createdAt && (
+                      <span style={{ color: 'var(--muted)' }} title={formatExactDateTime(r.createdAt)}>
+                        {formatRelativeTime(r.createdAt)}
+                      </span>
+                    )}
+                    {r.revertOf && (
+                      <span className={styles.commentBadge} style={{ marginLeft: '0.35rem' }}>
+                        Revert
+                        {revisions.some((x) => x.uri === r.revertOf) &&
+                          ` to #${revisionNumber(revisions.find((x) => x.uri === r.revertOf) as ForumWikiRevision)}`}
+                      </span>
+                    )}
+                    {r.uri === wiki.uri && <span style={{ color: 'var(--muted)' }}> · promoted from the thread</span>}
+                    {r.summary && <div style={{ color: 'var(--muted)' }}>{r.summary}</div>}
+                  </td>
+                  <td style={{ textAlign: 'right' }}>
+                    {canEdit && r !== head && (
+                      <button type="button" className={styles.tab} disabled={busy} onClick={() => handleRevert(r)}>
+                        Revert to this
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div>
+            <p style={{ margin: '0 0 0.35rem', fontSize: '0.85rem', fontWeight: 600 }}>
+              Changes from #{revisionNumber(from)} to #{revisionNumber(to)}
+            </p>
+            {(from.title ?? '') !== (to.title ?? '') && (
+              <p style={{ margin: '0 0 0.35rem', fontSize: '0.85rem' }}>
+                Title: <del>{from.title || 'Untitled'}</del> → <ins>{to.title || 'Untitled'}</ins>
+              </p>
+            )}
+            <LineDiff before={from.body ?? ''} after={to.body ?? ''} />
+          </div>
+        </div>
+      )}
+
+      {view === 'editors' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+            {[wiki.did, ...wiki.editors].map((did) => {
+              const handle = editorProfiles.get(did)?.handle ?? did
+              return (
+                <li key={did} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', fontSize: '0.9rem' }}>
+                  <ProfileLink handle={handle} className={styles.standardLink}>
+                    @{handle}
+                  </ProfileLink>
+                  {did === wiki.did ? (
+                    <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}>owner</span>
+                  ) : (
+                    isOwner && (
+                      <button
+                        type="button"
+                        aria-label={`Remove ${handle}`}
+                        onClick={() => handleRemoveEditor(did)}
+                        disabled={busy}
+                        style={{ background: 'none', border: 'none', color: 'var(--muted)', cursor: 'pointer' }}
+                      >
+                        ×
+                      </button>
+                    )
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+          {isOwner && (
+            <form onSubmit={handleAddEditor} style={{ display: 'flex', gap: '0.35rem' }}>
+              <input
+                type="text"
+                aria-label="Editor handle"
+                placeholder="handle.bsky.social"
+                value={editorInput}
+                onChange={(e) => setEditorInput(e.target.value)}
+                style={{ flex: 1, minWidth: 0, padding: '0.4rem' }}
+              />
+              <button type="submit" className={styles.tab} disabled={busy || !editorInput.trim()}>
+                Add editor
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
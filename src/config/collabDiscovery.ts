@@ -0,0 +1,8 @@
+/**
+ * Collab project discovery sources
+ *
+ * Besides the viewer's own and those of accounts they follow, project discovery lists
+ * app.artsky.collab.project records from these accounts (handles or DIDs), e.g. studios,
+ * communities or jam organisers.
+ */
+export const COLLAB_DISCOVERY_ACCOUNTS: string[] = []
@@ -0,0 +1,7 @@
+/**
+ * Consensus conversation sources
+ *
+ * Besides the viewer's own and those of accounts they follow, the consensus page lists
+ * app.artsky.consensus.conversation records from these accounts (handles or DIDs).
+ */
+export const CONSENSUS_ACCOUNTS: string[] = []
@@ -0,0 +1,16 @@
+import type { ForumCategory } from '../types'
+
+/**
+ * Forum categories
+ *
+ * Each category shows the ArtSky forum posts carrying any of its tags; a category
+ * without tags shows every post. Accounts can add their own categories as
+ * app.artsky.forum.category records.
+ */
+export const FORUM_CATEGORIES: ForumCategory[] = [
+  { id: 'general', name: 'General', description: 'Everything posted to the forum', tags: [] },
+  { id: 'critique', name: 'Critique', description: 'Share work in progress and ask for feedback', tags: ['critique', 'feedback', 'wip'] },
+  { id: 'tutorials', name: 'Tutorials & Tools', description: 'Techniques, brushes, software and workflows', tags: ['tutorial', 'tools', 'howto'] },
+  { id: 'showcase', name: 'Showcase', description: 'Finished pieces and projects', tags: ['showcase', 'art'] },
+  { id: 'meta', name: 'Meta', description: 'About ArtSky and this forum', tags: ['meta', 'artsky'] },
+]
@@ -0,0 +1,8 @@
+/**
+ * Forum moderation sources
+ *
+ * The app.artsky.forum.moderators list of each of these accounts (handles or DIDs)
+ * is trusted, along with the viewer's own: the owners and the accounts they list
+ * can hide forum posts and replies for everyone using this client.
+ */
+export const FORUM_MODERATION_ACCOUNTS: string[] = []
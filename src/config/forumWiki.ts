@@ -0,0 +1,8 @@
+/**
+ * Forum wiki sources
+ *
+ * The Wiki section lists app.artsky.forum.wiki pages from your own repo and from
+ * these accounts (handles or DIDs), and [[Page Title]] links resolve against them.
+ * Add a community account here to share one wiki namespace.
+ */
+export const FORUM_WIKI_ACCOUNTS: string[] = []
@@ -0,0 +1,17 @@
+import { useCallback } from 'react'
+import { findWikiPage, newWikiPageHref, wikiPageHref } from '../lib/wikiLinks'
+import type { MarkdownOptions } from '../lib/markdown'
+import type { ForumWikiSummary } from '../types'
+
+/** [[Page Title]] resolver against the index; markdown links are raw hrefs, so they carry the hash. */
+export function useWikiLinkResolver(pages: ForumWikiSummary[] | null, preferDid?: string): MarkdownOptions['wikiLink'] {
+  return useCallback(
+    (title: string) => {
+      const page = pages ? findWikiPage(pages, title, preferDid) : null
+      return page
+        ? { href: `#${wikiPageHref(page.wiki.uri)}`, exists: true }
+        : { href: `#${newWikiPageHref(title)}`, exists: !pages }
+    },
+    [pages, preferDid]
+  )
+}
@@ -0,0 +1,99 @@
+/**
+ * Asset manifests for collab projects
+ *
+ * A manifest lists the files a project ships (path, size, SHA-256). Files are hashed in
+ * the browser with WebCrypto, both when the owner generates the manifest and when a
+ * collaborator checks their download against it. Nothing is uploaded.
+ */
+
+import type { ProjectAsset } from '../types'
+
+/** Most files a manifest can list (matches the lexicon). */
+export const MAX_MANIFEST_ASSETS = 1000
+
+export type AssetCheckStatus =
+  /** Size and digest match */
+  | 'pass'
+  /** Same size, different digest */
+  | 'mismatch'
+  /** Different size (not hashed) */
+  | 'size'
+  /** In the manifest but not among the dropped files */
+  | 'missing'
+  /** Dropped but not in the manifest */
+  | 'extra'
+
+export type AssetCheck = {
+  name: string
+  status: AssetCheckStatus
+  expected?: ProjectAsset
+  actual?: { size: number; sha256?: string }
+}
+
+/** Path of a dropped file: its folder-relative path when a directory was picked, else its name. */
+export function assetPath(file: File): string {
+  return (file.webkitRelativePath || file.name).replace(/\\/g, '/').replace(/^\/+/, '')
+}
+
+/** Lowercase hex SHA-256 of a file. The whole file is read into memory. */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Hash files one at a time into a manifest sorted by path. `onProgress` gets the count done. */
+export async function buildManifest(files: File[], onProgress?: (done: number) => void): Promise<ProjectAsset[]> {
+  if (files.length > MAX_MANIFEST_ASSETS) throw new Error(`A manifest can list at most ${MAX_MANIFEST_ASSETS} files`)
+  const assets: ProjectAsset[] = []
+  for (const file of files) {
+    assets.push({ name: assetPath(file), size: file.size, sha256: await hashFile(file) })
+    onProgress?.(assets.length)
+  }
+  return assets.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+/**
+ * Check dropped files against a manifest. Files are matched by path, or by file name when
+ * they were dropped without their folders. Only files whose size matches are hashed.
+ */
+export async function verifyAssets(
+  manifest: ProjectAsset[],
+  files: File[],
+  onProgress?: (done: number) => void
+): Promise<AssetCheck[]> {
+  const byPath = new Map(files.map((f) => [assetPath(f), f]))
+  const byName = new Map<string, File[]>()
+  for (const f of files) byName.set(f.name, [...(byName.get(f.name) ?? []), f])
+  const used = new Set<File>()
+  const results: AssetCheck[] = []
+
+  for (const expected of manifest) {
+    let file = byPath.get(expected.name)
+    if (!file || used.has(file)) file = byName.get(baseName(expected.name))?.find((f) => !used.has(f))
+    if (!file) {
+      results.push({ name: expected.name, status: 'missing', expected })
+    } else {
+      used.add(file)
+      if (file.size !== expected.size) {
+        results.push({ name: expected.name, status: 'size', expected, actual: { size: file.size } })
+      } else {
+        const sha256 = await hashFile(file)
+        results.push({
+          name: expected.name,
+          status: sha256 === expected.sha256.toLowerCase() ? 'pass' : 'mismatch',
+          expected,
+          actual: { size: file.size, sha256 },
+        })
+      }
+    }
+    onProgress?.(results.length)
+  }
+  for (const f of files) {
+    if (!used.has(f)) results.push({ name: assetPath(f), status: 'extra', actual: { size: f.size } })
+  }
+  return results
+}
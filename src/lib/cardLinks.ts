@@ -0,0 +1,138 @@
+/**
+ * Kanban card links: references from a task card to Bluesky posts, forum threads
+ * and artboards, plus the data needed to preview them on the card.
+ */
+
+import { agent, getSession, parseAtUri, publicAgent, type PostView } from './bsky'
+import { getForumPost } from './forum'
+import type { ArtboardRecord } from './artboardsPds'
+import type { ForumPost, KanbanCardLink } from '../types'
+
+const POST_COLLECTION = 'app.bsky.feed.post'
+const FORUM_POST_COLLECTION = 'app.artsky.forum.post'
+const ARTBOARD_COLLECTION = 'app.artsky.artboard'
+/** Most links a card can hold (matches the lexicon). */
+export const MAX_CARD_LINKS = 20
+
+const KIND_BY_COLLECTION: Record<string, KanbanCardLink['kind']> = {
+  [POST_COLLECTION]: 'post',
+  [FORUM_POST_COLLECTION]: 'forum',
+  [ARTBOARD_COLLECTION]: 'artboard',
+}
+
+export type ArtboardPreview = { uri: string; did: string; id: string; name: string; postCount: number; thumbs: string[] }
+
+export type CardLinkPreview =
+  | { kind: 'post'; uri: string; post: PostView }
+  | { kind: 'forum'; uri: string; post: ForumPost }
+  | { kind: 'artboard'; uri: string; artboard: ArtboardPreview }
+  /** The linked record could not be loaded (deleted, or its repo is unreachable) */
+  | { kind: KanbanCardLink['kind']; uri: string; missing: true }
+
+async function resolveDid(handleOrDid: string): Promise<string> {
+  if (handleOrDid.startsWith('did:')) return handleOrDid
+  const res = await publicAgent.resolveHandle({ handle: handleOrDid })
+  return res.data.did
+}
+
+/**
+ * Turn pasted text into a card link. Accepts at:// URIs of posts, forum posts and
+ * artboards, bsky.app post URLs, ArtSky forum thread links and links to your own artboards.
+ */
+export async function parseCardLink(input: string): Promise<KanbanCardLink> {
+  const text = input.trim()
+  const bsky = /^https?:\/\/(?:www\.)?bsky\.app\/profile\/([^/]+)\/post\/([^/?#]+)/.exec(text)
+  if (bsky) {
+    const did = await resolveDid(decodeURIComponent(bsky[1])).catch(() => null)
+    if (!did) throw new Error('Could not find that profile')
+    return { kind: 'post', uri: `at://${did}/${POST_COLLECTION}/${bsky[2]}` }
+  }
+  // In-app links: #/forum/post?uri=…, #/post/<uri>, #/artboard/<id>
+  const forumUri = /[?&]uri=([^&#]+)/.exec(text)
+  const postPath = /#\/post\/([^?#]+)/.exec(text)
+  const artboardPath = /#\/artboard\/([^/?#]+)/.exec(text)
+  if (artboardPath) {
+    const session = getSession()
+    if (!session?.did) throw new Error('Log in to link your artboards')
+    return { kind: 'artboard', uri: `at://${session.did}/${ARTBOARD_COLLECTION}/${decodeURIComponent(artboardPath[1])}` }
+  }
+  const uri = text.startsWith('at://')
+    ? text
+    : postPath
+      ? decodeURIComponent(postPath[1])
+      : forumUri
+        ? decodeURIComponent(forumUri[1])
+        : ''
+  const parsed = parseAtUri(uri)
+  const kind = parsed ? KIND_BY_COLLECTION[parsed.collection] : undefined
+  if (!parsed || !kind) throw new Error('Paste a Bluesky post, forum thread or artboard link')
+  const did = await resolveDid(parsed.did).catch(() => null)
+  if (!did) throw new Error('Could not find that profile')
+  return { kind, uri: `at://${did}/${parsed.collection}/${parsed.rkey}` }
+}
+
+/** In-app route for a linked item, when there is one. Artboards only open for their owner. */
+export function cardLinkHref(link: KanbanCardLink): string | null {
+  if (link.kind === 'post') return `/post/${encodeURIComponent(link.uri)}`
+  if (link.kind === 'forum') return `/forum/post?uri=${encodeURIComponent(link.uri)}`
+  const parsed = parseAtUri(link.uri)
+  return parsed && parsed.did === getSession()?.did ? `/artboard/${encodeURIComponent(parsed.rkey)}` : null
+}
+
+async function loadPosts(uris: string[]): Promise<Map<string, PostView>> {
+  const out = new Map<string, PostView>()
+  const client = getSession() ? agent : publicAgent
+  for (let i = 0; i < uris.length; i += 25) {
+    try {
+      const res = await client.getPosts({ uris: uris.slice(i, i + 25) })
+      for (const p of res.data.posts) out.set(p.uri, p)
+    } catch {
+      /* ignore */
+    }
+  }
+  return out
+}
+
+async function loadArtboard(uri: string): Promise<ArtboardPreview | null> {
+  const parsed = parseAtUri(uri)
+  if (!parsed) return null
+  const client = getSession() ? agent : publicAgent
+  try {
+    const res = await client.com.atproto.repo.getRecord({
+      repo: parsed.did,
+      collection: ARTBOARD_COLLECTION,
+      rkey: parsed.rkey,
+    })
+    const v = res.data.value as ArtboardRecord
+    const posts = Array.isArray(v.posts) ? v.posts : []
+    return {
+      uri,
+      did: parsed.did,
+      id: parsed.rkey,
+      name: v.name || 'Untitled',
+      postCount: posts.length,
+      thumbs: posts.map((p) => p.thumb).filter((t): t is string => !!t).slice(0, 4),
+    }
+  } catch {
+    return null
+  }
+}
+
+/** Previews for a card's links, in link order. Posts are fetched in batches. */
+export async function loadCardLinkPreviews(links: KanbanCardLink[]): Promise<CardLinkPreview[]> {
+  const posts = await loadPosts(links.filter((l) => l.kind === 'post').map((l) => l.uri))
+  return Promise.all(
+    links.map(async (link): Promise<CardLinkPreview> => {
+      if (link.kind === 'post') {
+        const post = posts.get(link.uri)
+        return post ? { kind: 'post', uri: link.uri, post } : { kind: 'post', uri: link.uri, missing: true }
+      }
+      if (link.kind === 'forum') {
+        const post = await getForumPost(link.uri)
+        return post ? { kind: 'forum', uri: link.uri, post } : { kind: 'forum', uri: link.uri, missing: true }
+      }
+      const artboard = await loadArtboard(link.uri)
+      return artboard ? { kind: 'artboard', uri: link.uri, artboard } : { kind: 'artboard', uri: link.uri, missing: true }
+    })
+  )
+}
@@ -2,13 +2,49 @@
  * Collaboration Tools for Animators & Game Devs
  *
  * Project metadata on PDS (Blender, Godot, general), external storage refs,
- * Kanban boards for task management.
+ * Kanban boards for task management. Kanban cards live on the PDS
+ * (app.artsky.collab.kanban) in the owner's and members' repos and are merged
+ * per field, with a localStorage copy for offline display.
+ *
+ * Membership is a handshake: the owner writes an invite (app.artsky.collab.member)
+ * and the invitee accepts by writing app.artsky.collab.memberAccept in their own
+ * repo. Only members with both records count.
  */
 
 import { agent, getSession, parseAtUri, publicAgent } from './bsky'
-import type { CollabProject, KanbanBoard, KanbanCard, ProjectType } from '../types'
+import { listAllBacklinks } from './constellation'
+import { validateMagnet } from './magnet'
+import { compareSemver, isValidSemver, normalizeSemver } from './semver'
+import type {
+  CollabProject,
+  CollabRole,
+  KanbanBoard,
+  KanbanCard,
+  KanbanCardComment,
+  KanbanCardLink,
+  KanbanColumn,
+  KanbanTransition,
+  ProjectInvitation,
+  ProjectMember,
+  ProjectRelease,
+  ProjectType,
+  ReleaseDownload,
+  StrongRef,
+} from '../types'
 
 const PROJECT_COLLECTION = 'app.artsky.collab.project'
+const KANBAN_COLLECTION = 'app.artsky.collab.kanban'
+const KANBAN_BOARD_COLLECTION = 'app.artsky.collab.kanbanBoard'
+const MEMBER_COLLECTION = 'app.artsky.collab.member'
+const MEMBER_ACCEPT_COLLECTION = 'app.artsky.collab.memberAccept'
+const RELEASE_COLLECTION = 'app.artsky.collab.release'
+const CARD_COMMENT_COLLECTION = 'app.artsky.collab.cardComment'
+/** Most recent project edits kept on the project record (for the activity stream). */
+const PROJECT_HISTORY_LIMIT = 50
+const MEMBERS_CACHE_TTL_MS = 60 * 1000
+/** How long a project's card comments are reused before refetching. */
+const COMMENTS_CACHE_TTL_MS = 30 * 1000
+/** Offline copy of the last merged board per project. */
 const KANBAN_KEY = 'artsky-kanban'
 
 /** Create a new collaboration project. */
@@ -21,9 +57,12 @@ export async function createProject(opts: {
   externalUrl?: string
   magnetLink?: string
   previewUrl?: string
+  forkOf?: StrongRef
 }): Promise<{ uri: string; cid: string }> {
   const session = getSession()
   if (!session?.did) throw new Error('Not logged in')
+  const magnetError = opts.magnetLink ? validateMagnet(opts.magnetLink) : null
+  if (magnetError) throw new Error(`Invalid magnet link: ${magnetError}`)
   const rkey = `proj-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
   const res = await agent.com.atproto.repo.putRecord({
     repo: session.did,
@@ -37,8 +76,9 @@ export async function createProject(opts: {
       tags: opts.tags ?? [],
       version: opts.version ?? '0.1.0',
       externalUrl: opts.externalUrl,
-      magnetLink: opts.magnetLink,
+      magnetLink: opts.magnetLink?.trim(),
       previewUrl: opts.previewUrl,
+      forkOf: opts.forkOf,
       owner: session.did,
       createdAt: new Date().toISOString(),
     },
@@ -61,9 +101,9 @@ export async function listProjects(
       cursor: opts?.cursor,
     })
     const projects: CollabProject[] = (res.data.records ?? []).map(
-      (r: { uri: string; value: Record<string, unknown> }) => {
+      (r: { uri: string; cid: string; value: Record<string, unknown> }) => {
         const v = r.value as unknown as Omit<CollabProject, 'uri'>
-        return { ...v, uri: r.uri } as CollabProject
+        return { ...v, uri: r.uri, cid: r.cid } as CollabProject
       }
     )
     return { projects, cursor: res.data.cursor }
@@ -84,23 +124,53 @@ export async function getProject(uri: string): Promise<CollabProject | null> {
       rkey: parsed.rkey,
     })
     const v = res.data.value as unknown as Omit<CollabProject, 'uri'>
-    return { ...v, uri: res.data.uri as string } as CollabProject
+    return { ...v, uri: res.data.uri as string, cid: res.data.cid } as CollabProject
   } catch {
     return null
   }
 }
 
-/** Update project metadata. */
+/** Forum tag that attaches a forum post to a project (shown in the project's activity). */
+export function getProjectForumTag(project: Pick<CollabProject, 'uri'>): string {
+  return `collab:${parseAtUri(project.uri)?.rkey ?? ''}`
+}
+
+/**
+ * Update project metadata. Changing the version or download links first records the
+ * current build as a release (unless one exists for that version), so it isn't lost.
+ */
 export async function updateProject(
   uri: string,
-  updates: Partial<Omit<CollabProject, 'uri' | 'owner' | 'createdAt'>>
+  updates: Partial<Omit<CollabProject, 'uri' | 'cid' | 'owner' | 'createdAt' | 'updatedAt' | 'history' | 'forkOf'>>
 ): Promise<void> {
   const project = await getProject(uri)
   if (!project) throw new Error('Project not found')
   const session = getSession()
   if (!session?.did) throw new Error('Not logged in')
+  if (session.did !== project.owner) throw new Error('Only the project owner can edit it')
   const parsed = parseAtUri(uri)
   if (!parsed) throw new Error('Invalid URI')
+  const versionChanged = updates.version !== undefined && updates.version !== project.version
+  if (versionChanged && !isValidSemver(updates.version ?? '')) {
+    throw new Error('Version must be a semantic version, e.g. 1.2.0')
+  }
+  const magnetError = updates.magnetLink ? validateMagnet(updates.magnetLink) : null
+  if (magnetError) throw new Error(`Invalid magnet link: ${magnetError}`)
+  const buildChanged =
+    versionChanged ||
+    (updates.externalUrl !== undefined && updates.externalUrl !== project.externalUrl) ||
+    (updates.magnetLink !== undefined && updates.magnetLink !== project.magnetLink)
+  if (buildChanged) await archiveCurrentBuild(project)
+  const changed = (Object.keys(updates) as Array<keyof typeof updates>).filter(
+    (k) => JSON.stringify(updates[k]) !== JSON.stringify(project[k])
+  )
+  const now = new Date().toISOString()
+  const history = changed.length
+    ? [
+        ...(project.history ?? []),
+        { at: now, by: session.did, fields: changed, version: versionChanged ? updates.version : undefined },
+      ].slice(-PROJECT_HISTORY_LIMIT)
+    : project.history
   await agent.com.atproto.repo.putRecord({
     repo: session.did,
     collection: PROJECT_COLLECTION,
@@ -109,31 +179,681 @@ export async function updateProject(
       $type: PROJECT_COLLECTION,
       ...project,
       ...updates,
+      history,
+      updatedAt: changed.length ? now : project.updatedAt,
       uri: undefined,
+      cid: undefined,
     },
     validate: false,
   })
 }
 
-/** Get or create a kanban board for a project. */
-export function getKanbanBoard(projectUri: string): KanbanBoard {
-  const all = getAllKanbanBoards()
-  const existing = all.find((b) => b.projectUri === projectUri)
-  if (existing) return existing
+// ── Forks (app.artsky.collab.project forkOf) ──
 
-  const newBoard: KanbanBoard = {
-    id: `kanban-${Date.now()}`,
-    projectUri,
-    columns: [
-      { id: 'todo', title: 'To Do', cards: [] },
-      { id: 'in-progress', title: 'In Progress', cards: [] },
-      { id: 'review', title: 'Review', cards: [] },
-      { id: 'done', title: 'Done', cards: [] },
-    ],
-  }
-  all.push(newBoard)
-  saveKanbanBoards(all)
-  return newBoard
+/** How far up the fork chain to follow parents. */
+const LINEAGE_MAX_ANCESTORS = 20
+/** How many generations of forks to load below a project. */
+const LINEAGE_FORK_DEPTH = 3
+
+export type ProjectForkNode = { project: CollabProject; forks: ProjectForkNode[] }
+
+export type ProjectLineage = {
+  /**
+   * Parents from the root down to the direct parent. `project` is null when the parent
+   * can no longer be loaded; `changed` when it has been edited since the fork was made.
+   */
+  ancestors: Array<{ ref: StrongRef; project: CollabProject | null; changed: boolean }>
+  /** Known forks of the project (and their forks), found through the backlink index */
+  forks: ProjectForkNode[]
+}
+
+/**
+ * Fork a project into the viewer's repo: copies its metadata and points `forkOf` at the
+ * exact version (uri + cid) that was forked. Members, tasks and releases are not copied.
+ */
+export async function forkProject(sourceUri: string, opts?: { name?: string }): Promise<{ uri: string; cid: string }> {
+  const source = await getProject(sourceUri)
+  if (!source?.cid) throw new Error('Project not found')
+  return createProject({
+    name: opts?.name?.trim() || `${source.name} (fork)`,
+    description: source.description ?? '',
+    type: source.type,
+    tags: source.tags,
+    version: source.version,
+    externalUrl: source.externalUrl,
+    magnetLink: source.magnetLink,
+    previewUrl: source.previewUrl,
+    forkOf: { uri: source.uri, cid: source.cid },
+  })
+}
+
+/** Direct forks of a project, oldest first. Empty when the backlink index is unavailable. */
+export async function listForks(projectUri: string): Promise<CollabProject[]> {
+  let links: Awaited<ReturnType<typeof listAllBacklinks>>
+  try {
+    links = await listAllBacklinks({ target: projectUri, collection: PROJECT_COLLECTION, path: '.forkOf.uri' })
+  } catch {
+    return []
+  }
+  const forks = await Promise.all(links.map((l) => getProject(`at://${l.did}/${PROJECT_COLLECTION}/${l.rkey}`)))
+  return forks
+    .filter((p): p is CollabProject => !!p && p.forkOf?.uri === projectUri)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+async function loadForkTree(projectUri: string, depth: number, seen: Set<string>): Promise<ProjectForkNode[]> {
+  const forks = (await listForks(projectUri)).filter((p) => !seen.has(p.uri))
+  for (const p of forks) seen.add(p.uri)
+  return Promise.all(
+    forks.map(async (project) => ({
+      project,
+      forks: depth > 1 ? await loadForkTree(project.uri, depth - 1, seen) : [],
+    }))
+  )
+}
+
+/** Parents (following forkOf) and known forks of a project. */
+export async function getProjectLineage(project: CollabProject): Promise<ProjectLineage> {
+  const seen = new Set([project.uri])
+  const ancestors: ProjectLineage['ancestors'] = []
+  let ref = project.forkOf
+  while (ref && !seen.has(ref.uri) && ancestors.length < LINEAGE_MAX_ANCESTORS) {
+    seen.add(ref.uri)
+    const parent = await getProject(ref.uri)
+    ancestors.unshift({ ref, project: parent, changed: !!parent?.cid && parent.cid !== ref.cid })
+    ref = parent?.forkOf
+  }
+  const forks = await loadForkTree(project.uri, LINEAGE_FORK_DEPTH, seen)
+  return { ancestors, forks }
+}
+
+// ── Members (app.artsky.collab.member + app.artsky.collab.memberAccept) ──
+
+const INVITABLE_ROLES: CollabRole[] = ['maintainer', 'contributor', 'viewer']
+
+type MemberRecord = { project: string; subject: string; role: CollabRole; createdAt: string }
+type MemberAcceptRecord = { project: string; invite: string; createdAt: string }
+
+const membersCache = new Map<string, { members: ProjectMember[]; at: number }>()
+
+/** Invite record key in the owner's repo: one invite per project and invitee. */
+function inviteRkey(projectUri: string, did: string): string {
+  return `${parseAtUri(projectUri)?.rkey ?? ''}.${did}`
+}
+
+/** Acceptance record key in the invitee's repo: one per project (owner DID keeps it unique). */
+function acceptRkey(projectUri: string): string {
+  const parsed = parseAtUri(projectUri)
+  return `${parsed?.rkey ?? ''}.${parsed?.did ?? ''}`
+}
+
+async function getAcceptance(did: string, projectUri: string, inviteUri: string): Promise<MemberAcceptRecord | null> {
+  const client = getSession() ? agent : publicAgent
+  try {
+    const res = await client.com.atproto.repo.getRecord({
+      repo: did,
+      collection: MEMBER_ACCEPT_COLLECTION,
+      rkey: acceptRkey(projectUri),
+    })
+    const v = res.data.value as MemberAcceptRecord
+    return v.invite === inviteUri && v.project === projectUri ? v : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Members of a project: the owner, then every invitee with their status. A member is
+ * active only when the owner's invite and the invitee's acceptance both exist.
+ */
+export async function listProjectMembers(
+  project: CollabProject,
+  opts?: { force?: boolean }
+): Promise<ProjectMember[]> {
+  const cached = membersCache.get(project.uri)
+  if (!opts?.force && cached && Date.now() - cached.at < MEMBERS_CACHE_TTL_MS) return cached.members
+  const ownerDid = parseAtUri(project.uri)?.did ?? project.owner
+  const client = getSession() ? agent : publicAgent
+  const invites: Array<{ uri: string; record: MemberRecord }> = []
+  let cursor: string | undefined
+  try {
+    do {
+      const res = await client.com.atproto.repo.listRecords({
+        repo: ownerDid,
+        collection: MEMBER_COLLECTION,
+        limit: 100,
+        cursor,
+      })
+      for (const r of res.data.records ?? []) {
+        const v = r.value as MemberRecord
+        if (v.project === project.uri && v.subject && v.subject !== ownerDid) invites.push({ uri: r.uri, record: v })
+      }
+      cursor = res.data.cursor
+    } while (cursor)
+  } catch {
+    /* no invites readable: owner only */
+  }
+  const invited = await Promise.all(
+    invites.map(async ({ uri, record }): Promise<ProjectMember> => {
+      const acceptance = await getAcceptance(record.subject, project.uri, uri)
+      return {
+        did: record.subject,
+        role: INVITABLE_ROLES.includes(record.role) ? record.role : 'viewer',
+        status: acceptance ? 'active' : 'invited',
+        inviteUri: uri,
+        invitedAt: record.createdAt,
+        acceptedAt: acceptance?.createdAt,
+      }
+    })
+  )
+  const members: ProjectMember[] = [
+    { did: ownerDid, role: 'owner', status: 'active' },
+    ...invited.sort((a, b) => (a.invitedAt ?? '').localeCompare(b.invitedAt ?? '')),
+  ]
+  membersCache.set(project.uri, { members, at: Date.now() })
+  return members
+}
+
+/** Role of an active member, or null for non-members and pending invitees. */
+export function getMemberRole(members: ProjectMember[], did: string | undefined): CollabRole | null {
+  if (!did) return null
+  return members.find((m) => m.did === did && m.status === 'active')?.role ?? null
+}
+
+/** Invite a user (or change an existing invite's role). Owner only. */
+export async function inviteProjectMember(projectUri: string, did: string, role: CollabRole): Promise<void> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const parsed = parseAtUri(projectUri)
+  if (!parsed) throw new Error('Invalid URI')
+  if (parsed.did !== session.did) throw new Error('Only the project owner can invite members')
+  if (did === session.did) throw new Error('You already own this project')
+  if (!INVITABLE_ROLES.includes(role)) throw new Error('Invalid role')
+  const rkey = inviteRkey(projectUri, did)
+  let createdAt: string = new Date().toISOString()
+  try {
+    const res = await agent.com.atproto.repo.getRecord({ repo: session.did, collection: MEMBER_COLLECTION, rkey })
+    createdAt = (res.data.value as MemberRecord).createdAt ?? createdAt
+  } catch {
+    /* new invite */
+  }
+  // Changing the role keeps the record (and its URI), so an existing acceptance stays valid.
+  await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: MEMBER_COLLECTION,
+    rkey,
+    record: { $type: MEMBER_COLLECTION, project: projectUri, subject: did, role, createdAt },
+    validate: false,
+  })
+  membersCache.delete(projectUri)
+}
+
+/** Remove a member or withdraw an invite. Owner only. */
+export async function removeProjectMember(projectUri: string, did: string): Promise<void> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const parsed = parseAtUri(projectUri)
+  if (!parsed) throw new Error('Invalid URI')
+  if (parsed.did !== session.did) throw new Error('Only the project owner can remove members')
+  await agent.com.atproto.repo.deleteRecord({
+    repo: session.did,
+    collection: MEMBER_COLLECTION,
+    rkey: inviteRkey(projectUri, did),
+  })
+  membersCache.delete(projectUri)
+}
+
+/** Accept an invite addressed to the viewer by writing the acceptance in their own repo. */
+export async function acceptProjectInvite(projectUri: string): Promise<void> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const parsed = parseAtUri(projectUri)
+  if (!parsed) throw new Error('Invalid URI')
+  const rkey = inviteRkey(projectUri, session.did)
+  let invite: MemberRecord | null = null
+  try {
+    const res = await agent.com.atproto.repo.getRecord({ repo: parsed.did, collection: MEMBER_COLLECTION, rkey })
+    invite = res.data.value as MemberRecord
+  } catch {
+    invite = null
+  }
+  if (invite?.project !== projectUri || invite.subject !== session.did) throw new Error('Invite not found')
+  await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: MEMBER_ACCEPT_COLLECTION,
+    rkey: acceptRkey(projectUri),
+    record: {
+      $type: MEMBER_ACCEPT_COLLECTION,
+      project: projectUri,
+      invite: `at://${parsed.did}/${MEMBER_COLLECTION}/${rkey}`,
+      createdAt: new Date().toISOString(),
+    },
+    validate: false,
+  })
+  membersCache.delete(projectUri)
+}
+
+/** Leave a project (or decline an accepted invite) by deleting the viewer's acceptance. */
+export async function leaveProject(projectUri: string): Promise<void> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  await agent.com.atproto.repo.deleteRecord({
+    repo: session.did,
+    collection: MEMBER_ACCEPT_COLLECTION,
+    rkey: acceptRkey(projectUri),
+  })
+  membersCache.delete(projectUri)
+}
+
+/** Invites addressed to the viewer, found through the backlink index on the invite's subject. */
+export async function listMyInvitations(): Promise<ProjectInvitation[]> {
+  const session = getSession()
+  if (!session?.did) return []
+  let links: Awaited<ReturnType<typeof listAllBacklinks>>
+  try {
+    links = await listAllBacklinks({ target: session.did, collection: MEMBER_COLLECTION, path: '.subject' })
+  } catch {
+    return []
+  }
+  const out = await Promise.all(
+    links.map(async (link): Promise<ProjectInvitation | null> => {
+      try {
+        const res = await agent.com.atproto.repo.getRecord({
+          repo: link.did,
+          collection: MEMBER_COLLECTION,
+          rkey: link.rkey,
+        })
+        const v = res.data.value as MemberRecord
+        if (v.subject !== session.did || parseAtUri(v.project)?.did !== link.did) return null
+        const inviteUri = res.data.uri as string
+        const [project, acceptance] = await Promise.all([
+          getProject(v.project),
+          getAcceptance(session.did, v.project, inviteUri),
+        ])
+        if (!project) return null
+        return {
+          inviteUri,
+          projectUri: v.project,
+          projectName: project.name,
+          owner: link.did,
+          role: v.role,
+          invitedAt: v.createdAt,
+          accepted: !!acceptance,
+        }
+      } catch {
+        return null
+      }
+    })
+  )
+  return out
+    .filter((i): i is ProjectInvitation => i !== null)
+    .sort((a, b) => b.invitedAt.localeCompare(a.invitedAt))
+}
+
+// ── Releases (app.artsky.collab.release) ──────────────────────────────
+
+const CHECKSUM_RE = /^(sha256:[0-9a-f]{64}|sha512:[0-9a-f]{128}|sha1:[0-9a-f]{40})$/
+
+/** Accepts "<algorithm>:<hex>" or a bare SHA-256 hex digest; returns the canonical form or null. */
+export function normalizeChecksum(checksum: string): string | null {
+  const c = checksum.trim().toLowerCase()
+  const value = /^[0-9a-f]{64}$/.test(c) ? `sha256:${c}` : c
+  return CHECKSUM_RE.test(value) ? value : null
+}
+
+function isDownloadUrl(url: string): boolean {
+  return /^https?:\/\/\S+$/i.test(url) || /^magnet:\?\S+$/i.test(url)
+}
+
+/** DIDs whose repos hold the project's releases: the owner and active maintainers. */
+function releaseAuthors(project: CollabProject, members: ProjectMember[]): string[] {
+  const ownerDid = parseAtUri(project.uri)?.did ?? project.owner
+  const maintainers = members.filter((m) => m.status === 'active' && m.role === 'maintainer').map((m) => m.did)
+  return [...new Set([ownerDid, ...maintainers])]
+}
+
+/** Newest version first (semver precedence), then newest publish date. */
+export function sortReleases(releases: ProjectRelease[]): ProjectRelease[] {
+  return [...releases].sort(
+    (a, b) => compareSemver(b.version, a.version) || b.createdAt.localeCompare(a.createdAt)
+  )
+}
+
+/** Releases of a project from the owner's and maintainers' repos, newest version first. */
+export async function listReleases(project: CollabProject): Promise<ProjectRelease[]> {
+  const authors = releaseAuthors(project, await listProjectMembers(project))
+  const client = getSession() ? agent : publicAgent
+  const out: ProjectRelease[] = []
+  await Promise.all(
+    authors.map(async (did) => {
+      let cursor: string | undefined
+      try {
+        do {
+          const res = await client.com.atproto.repo.listRecords({
+            repo: did,
+            collection: RELEASE_COLLECTION,
+            limit: 100,
+            cursor,
+          })
+          for (const r of res.data.records ?? []) {
+            const v = r.value as Omit<ProjectRelease, 'uri' | 'cid' | 'did' | 'rkey'>
+            if (v.project !== project.uri || !isValidSemver(v.version ?? '')) continue
+            const parsed = parseAtUri(r.uri)
+            out.push({
+              uri: r.uri,
+              cid: r.cid,
+              did,
+              rkey: parsed?.rkey ?? '',
+              project: v.project,
+              version: v.version,
+              notes: v.notes ?? '',
+              downloads: (v.downloads ?? []).filter((d) => d?.url && isDownloadUrl(d.url)),
+              checksum: v.checksum,
+              createdAt: v.createdAt,
+            })
+          }
+          cursor = res.data.cursor
+        } while (cursor)
+      } catch {
+        /* repo unreachable; other authors still count */
+      }
+    })
+  )
+  return sortReleases(out)
+}
+
+async function writeRelease(
+  projectUri: string,
+  release: { version: string; notes: string; downloads: ReleaseDownload[]; checksum?: string; createdAt: string }
+): Promise<{ uri: string; cid: string }> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const rkey = `rel-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: RELEASE_COLLECTION,
+    rkey,
+    record: { $type: RELEASE_COLLECTION, project: projectUri, ...release },
+    validate: false,
+  })
+  return { uri: res.data.uri, cid: res.data.cid }
+}
+
+/** Record the project's current version and links as a release if it has none yet (owner only). */
+async function archiveCurrentBuild(project: CollabProject): Promise<void> {
+  if (!isValidSemver(project.version ?? '')) return
+  const downloads: ReleaseDownload[] = []
+  if (project.externalUrl && isDownloadUrl(project.externalUrl)) downloads.push({ label: 'Files', url: project.externalUrl })
+  if (project.magnetLink && isDownloadUrl(project.magnetLink)) downloads.push({ label: 'Torrent', url: project.magnetLink })
+  const existing = await listReleases(project)
+  if (existing.some((r) => compareSemver(r.version, project.version) === 0)) return
+  await writeRelease(project.uri, {
+    version: normalizeSemver(project.version),
+    notes: '',
+    downloads,
+    createdAt: project.createdAt,
+  })
+}
+
+/**
+ * Publish a release (owner or maintainer). Versions must be valid semver and unique per
+ * project. When the owner publishes the newest version, the project's version and
+ * download links are updated to match.
+ */
+export async function createRelease(
+  projectUri: string,
+  opts: { version: string; notes?: string; downloads?: ReleaseDownload[]; checksum?: string }
+): Promise<{ uri: string; cid: string }> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const project = await getProject(projectUri)
+  if (!project) throw new Error('Project not found')
+  const members = await listProjectMembers(project)
+  const role = getMemberRole(members, session.did)
+  if (role !== 'owner' && role !== 'maintainer') throw new Error('Only the owner and maintainers can publish releases')
+
+  const version = normalizeSemver(opts.version)
+  if (!isValidSemver(version)) throw new Error('Version must be a semantic version, e.g. 1.2.0')
+  const downloads = (opts.downloads ?? [])
+    .map((d) => ({ label: d.label?.trim() || undefined, url: d.url.trim() }))
+    .filter((d) => d.url)
+  const badUrl = downloads.find((d) => !isDownloadUrl(d.url))
+  if (badUrl) throw new Error(`Not a download link: ${badUrl.url}`)
+  for (const d of downloads) {
+    const magnetError = /^magnet:/i.test(d.url) ? validateMagnet(d.url) : null
+    if (magnetError) throw new Error(`Invalid magnet link: ${magnetError}`)
+  }
+  let checksum: string | undefined
+  if (opts.checksum?.trim()) {
+    checksum = normalizeChecksum(opts.checksum) ?? undefined
+    if (!checksum) throw new Error('Checksum must be sha256:<64 hex digits> (or sha512:/sha1:)')
+  }
+  const existing = await listReleases(project)
+  if (existing.some((r) => compareSemver(r.version, version) === 0)) {
+    throw new Error(`Version ${version} has already been released`)
+  }
+
+  const created = await writeRelease(projectUri, {
+    version,
+    notes: opts.notes?.trim() ?? '',
+    downloads,
+    checksum,
+    createdAt: new Date().toISOString(),
+  })
+  const isNewest = existing.every((r) => compareSemver(version, r.version) > 0)
+  if (role === 'owner' && isNewest) {
+    await updateProject(projectUri, {
+      version,
+      externalUrl: downloads.find((d) => /^https?:/i.test(d.url))?.url ?? project.externalUrl,
+      magnetLink: downloads.find((d) => /^magnet:/i.test(d.url))?.url ?? project.magnetLink,
+    })
+  }
+  return created
+}
+
+/** Delete a release (its author only). */
+export async function deleteRelease(releaseUri: string): Promise<void> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const parsed = parseAtUri(releaseUri)
+  if (!parsed) throw new Error('Invalid URI')
+  if (parsed.did !== session.did) throw new Error('Not authorized')
+  await agent.com.atproto.repo.deleteRecord({
+    repo: session.did,
+    collection: RELEASE_COLLECTION,
+    rkey: parsed.rkey,
+  })
+}
+
+// ── Kanban ────────────────────────────────────────────────────────────
+
+/** One repo's copy of a card (app.artsky.collab.kanban record). */
+export type KanbanCardRecord = {
+  project: string
+  cardId: string
+  title: string
+  description?: string
+  assignee?: string
+  priority?: KanbanCard['priority']
+  column: string
+  position?: number
+  dueDate?: string
+  labels?: string[]
+  links?: KanbanCardLink[]
+  /** Tombstone: kept instead of deleting so older copies can't bring the card back. */
+  deleted?: boolean
+  createdAt: string
+  /** When each field was last written (ISO). Drives the field-by-field merge. */
+  clock: Partial<Record<KanbanCardField, string>>
+  /** Column entries, oldest first. Merged as a union of every copy's log rather than by clock. */
+  transitions?: KanbanTransition[]
+}
+
+const KANBAN_CARD_FIELDS = [
+  'title',
+  'description',
+  'assignee',
+  'priority',
+  'column',
+  'position',
+  'dueDate',
+  'labels',
+  'links',
+  'deleted',
+] as const
+type KanbanCardField = (typeof KANBAN_CARD_FIELDS)[number]
+type KanbanCardChanges = Partial<Pick<KanbanCardRecord, KanbanCardField>>
+
+/** Editable card fields (what the card editor can change). */
+export type KanbanCardEdit = Partial<
+  Pick<KanbanCard, 'title' | 'description' | 'assignee' | 'priority' | 'dueDate' | 'labels' | 'links'>
+>
+
+/** Gap between neighbouring card positions; new positions go halfway between neighbours. */
+const POSITION_STEP = 1024
+
+const DEFAULT_COLUMNS: KanbanColumn[] = [
+  { id: 'todo', title: 'To Do' },
+  { id: 'in-progress', title: 'In Progress' },
+  { id: 'review', title: 'Review' },
+  { id: 'done', title: 'Done' },
+]
+
+/** Attempts at a compare-and-swap write before giving up. */
+const KANBAN_WRITE_ATTEMPTS = 3
+
+/** Links (posts, forum threads, artboards) a card can hold. */
+const KANBAN_CARD_LINK_LIMIT = 20
+
+/** Column entries kept per card; the first entry is always kept so cycle times stay measurable. */
+const KANBAN_TRANSITION_LIMIT = 200
+
+/** A card merged from every copy, with who wrote the winning value of each field. */
+export type MergedKanbanCard = {
+  record: KanbanCardRecord
+  /** Author of the most recent change */
+  updatedBy: string
+  /** Author of the earliest copy */
+  createdBy: string
+  authors: Partial<Record<KanbanCardField, string>>
+}
+
+/** Latest merged card records per project, refreshed by getKanbanBoard and local writes. */
+const mergedCards = new Map<string, Map<string, MergedKanbanCard>>()
+/** Column layout per project, refreshed by getKanbanBoard and column edits. */
+const boardColumns = new Map<string, KanbanColumn[]>()
+
+/** DIDs whose repos hold the project's board: the owner plus active members who can edit (not viewers). */
+export function getKanbanReaders(project: CollabProject, members: ProjectMember[]): string[] {
+  const ownerDid = parseAtUri(project.uri)?.did ?? project.owner
+  const editors = members.filter((m) => m.status === 'active' && m.role !== 'viewer').map((m) => m.did)
+  return [...new Set([ownerDid, ...editors])]
+}
+
+/**
+ * Merge copies of one card field by field: for each field the copy whose clock is
+ * newest wins (ties go to the larger DID so every reader picks the same value).
+ * Edits from two devices or two collaborators to different fields both survive.
+ */
+export function mergeCardRecords(copies: Array<{ did: string; record: KanbanCardRecord }>): MergedKanbanCard {
+  const [first, ...rest] = copies
+  const merged: KanbanCardRecord = { ...first.record, clock: { ...first.record.clock } }
+  const owners: Partial<Record<KanbanCardField, string>> = {}
+  for (const f of KANBAN_CARD_FIELDS) owners[f] = first.did
+  let createdBy = first.did
+  for (const { did, record } of rest) {
+    for (const f of KANBAN_CARD_FIELDS) {
+      const theirs = record.clock?.[f] ?? ''
+      const ours = merged.clock[f] ?? ''
+      if (theirs > ours || (theirs === ours && theirs && did > (owners[f] ?? ''))) {
+        Object.assign(merged, { [f]: record[f] })
+        merged.clock[f] = theirs
+        owners[f] = did
+      }
+    }
+    if (record.createdAt && record.createdAt < merged.createdAt) {
+      merged.createdAt = record.createdAt
+      createdBy = did
+    }
+    merged.transitions = mergeTransitions(merged.transitions, record.transitions)
+  }
+  let updatedBy = first.did
+  let latest = ''
+  for (const f of KANBAN_CARD_FIELDS) {
+    const at = merged.clock[f] ?? ''
+    if (at > latest) {
+      latest = at
+      updatedBy = owners[f] ?? updatedBy
+    }
+  }
+  return { record: merged, updatedBy, createdBy, authors: owners }
+}
+
+/** Union of two transition logs, oldest first, without duplicates. */
+function mergeTransitions(a: KanbanTransition[] = [], b: KanbanTransition[] = []): KanbanTransition[] | undefined {
+  if (b.length === 0) return a.length ? a : undefined
+  const byKey = new Map<string, KanbanTransition>()
+  for (const t of [...a, ...b]) byKey.set(`${t.at}|${t.column}`, t)
+  return capTransitions([...byKey.values()].sort((x, y) => x.at.localeCompare(y.at)))
+}
+
+function capTransitions(list: KanbanTransition[]): KanbanTransition[] {
+  return list.length > KANBAN_TRANSITION_LIMIT ? [list[0], ...list.slice(-(KANBAN_TRANSITION_LIMIT - 1))] : list
+}
+
+/**
+ * A card's column entries. Cards written before transitions were recorded get one
+ * entry for their current column, dated by the column clock.
+ */
+export function getCardTransitions(record: Pick<KanbanCardRecord, 'column' | 'createdAt' | 'clock' | 'transitions'>): KanbanTransition[] {
+  if (record.transitions?.length) return record.transitions
+  return [{ column: record.column, at: record.clock?.column ?? record.createdAt }]
+}
+
+function recordToCard(record: KanbanCardRecord, updatedBy: string): KanbanCard {
+  const stamps = Object.values(record.clock ?? {}).filter(Boolean) as string[]
+  return {
+    id: record.cardId,
+    title: record.title,
+    description: record.description,
+    assignee: record.assignee,
+    status: record.column,
+    priority: record.priority ?? 'medium',
+    position: record.position ?? 0,
+    dueDate: record.dueDate,
+    labels: record.labels,
+    createdAt: record.createdAt,
+    updatedAt: stamps.sort().pop() ?? record.createdAt,
+    updatedBy,
+    transitions: getCardTransitions(record),
+    links: record.links,
+  }
+}
+
+function buildBoard(
+  projectUri: string,
+  cards: Map<string, MergedKanbanCard>,
+  layout: KanbanColumn[] = boardColumns.get(projectUri) ?? DEFAULT_COLUMNS
+): KanbanBoard {
+  const columns = layout.map((c) => ({ ...c, cards: [] as KanbanCard[] }))
+  const sorted = [...cards.values()]
+    .filter(({ record }) => !record.deleted)
+    .sort(
+      (a, b) =>
+        (a.record.position ?? 0) - (b.record.position ?? 0) ||
+        a.record.createdAt.localeCompare(b.record.createdAt)
+    )
+  for (const { record, updatedBy } of sorted) {
+    const col = columns.find((c) => c.id === record.column) ?? columns[0]
+    col.cards.push(recordToCard(record, updatedBy))
+  }
+  return { id: `kanban-${projectUri}`, projectUri, columns }
+}
+
+function rebuildCachedBoard(projectUri: string): KanbanBoard {
+  const board = buildBoard(projectUri, mergedCards.get(projectUri) ?? new Map())
+  cacheKanbanBoard(board)
+  return board
 }
 
 function getAllKanbanBoards(): KanbanBoard[] {
@@ -153,48 +873,609 @@ function saveKanbanBoards(boards: KanbanBoard[]): void {
   }
 }
 
-/** Add a card to a kanban column. */
-export function addKanbanCard(
+function cacheKanbanBoard(board: KanbanBoard): void {
+  const all = getAllKanbanBoards().filter((b) => b.projectUri !== board.projectUri)
+  all.push(board)
+  saveKanbanBoards(all)
+}
+
+/** Last board seen for a project (offline copy), for instant display before getKanbanBoard resolves. */
+export function getCachedKanbanBoard(projectUri: string): KanbanBoard | null {
+  return getAllKanbanBoards().find((b) => b.projectUri === projectUri) ?? null
+}
+
+/**
+ * A board from before cards lived on the PDS, when artsky-kanban was the only copy.
+ * Cached PDS boards have the id `kanban-<projectUri>`; local-only boards don't.
+ */
+function getLegacyKanbanBoard(projectUri: string): KanbanBoard | null {
+  const board = getCachedKanbanBoard(projectUri)
+  return board && board.id !== `kanban-${projectUri}` ? board : null
+}
+
+/**
+ * Write the cards of a legacy local board to the viewer's repo, skipping cards already
+ * on the PDS. Returns false when any card could not be written; those stay in the
+ * local board so the next load tries again.
+ */
+async function importLegacyKanbanCards(projectUri: string, legacy: KanbanBoard): Promise<boolean> {
+  let ok = true
+  for (const col of legacy.columns) {
+    for (const [i, card] of col.cards.entries()) {
+      const cardId = /^[A-Za-z0-9._:~-]{1,512}$/.test(card.id) ? card.id : `card-${card.id.replace(/[^a-zA-Z0-9-]/g, '')}`
+      if (mergedCards.get(projectUri)?.has(cardId)) continue
+      const changes: KanbanCardChanges = {
+        title: card.title,
+        description: card.description,
+        assignee: card.assignee,
+        priority: card.priority,
+        column: col.id,
+        position: (i + 1) * POSITION_STEP,
+      }
+      try {
+        await writeCardChange(projectUri, cardId, changes, {
+          ...changes,
+          project: projectUri,
+          cardId,
+          title: card.title,
+          column: col.id,
+          createdAt: card.createdAt,
+          clock: {},
+        })
+      } catch {
+        ok = false
+      }
+    }
+  }
+  return ok
+}
+
+async function listCardRecords(did: string, projectUri: string): Promise<KanbanCardRecord[]> {
+  const client = getSession() ? agent : publicAgent
+  const out: KanbanCardRecord[] = []
+  let cursor: string | undefined
+  do {
+    const res = await client.com.atproto.repo.listRecords({
+      repo: did,
+      collection: KANBAN_COLLECTION,
+      limit: 100,
+      cursor,
+    })
+    for (const r of res.data.records ?? []) {
+      const v = r.value as KanbanCardRecord
+      if (v.project === projectUri && v.cardId) out.push(v)
+    }
+    cursor = res.data.cursor
+  } while (cursor)
+  return out
+}
+
+/**
+ * Load a project's board from the PDS: every card copy in the owner's and members'
+ * repos, merged per card. Falls back to the cached board when nothing can be fetched.
+ */
+export async function getKanbanBoard(projectUri: string): Promise<KanbanBoard> {
+  const project = await getProject(projectUri)
+  if (!project) {
+    return getCachedKanbanBoard(projectUri) ?? buildBoard(projectUri, new Map())
+  }
+  const readers = getKanbanReaders(project, await listProjectMembers(project))
+  const layout = await getKanbanColumns(project)
+  if (layout) boardColumns.set(projectUri, layout)
+  let anyLoaded = false
+  const copies = new Map<string, Array<{ did: string; record: KanbanCardRecord }>>()
+  await Promise.all(
+    readers.map(async (did) => {
+      try {
+        const records = await listCardRecords(did, projectUri)
+        anyLoaded = true
+        for (const record of records) {
+          const list = copies.get(record.cardId) ?? []
+          list.push({ did, record })
+          copies.set(record.cardId, list)
+        }
+      } catch {
+        /* repo unreachable; other copies still count */
+      }
+    })
+  )
+  if (!anyLoaded) {
+    return getCachedKanbanBoard(projectUri) ?? buildBoard(projectUri, new Map())
+  }
+  const merged = new Map<string, MergedKanbanCard>()
+  for (const [cardId, list] of copies) {
+    // Sort so the merge is independent of fetch order.
+    list.sort((a, b) => a.did.localeCompare(b.did))
+    merged.set(cardId, mergeCardRecords(list))
+  }
+  mergedCards.set(projectUri, merged)
+
+  // Never replace a local-only board before its cards are on the PDS.
+  const legacy = getLegacyKanbanBoard(projectUri)
+  if (legacy) {
+    const session = getSession()
+    if (!session?.did || !readers.includes(session.did) || !(await importLegacyKanbanCards(projectUri, legacy))) {
+      cacheKanbanBoard(legacy)
+      return buildBoard(projectUri, mergedCards.get(projectUri) ?? merged)
+    }
+  }
+  return rebuildCachedBoard(projectUri)
+}
+
+function isSwapConflict(err: unknown): boolean {
+  const e = err as { error?: string; message?: string }
+  return e?.error === 'InvalidSwap' || /InvalidSwap/i.test(e?.message ?? '')
+}
+
+/**
+ * Write a change to the viewer's copy of a card. Reads the current copy first, merges in
+ * the freshest known board copy, stamps the changed fields, and writes with compare-and-swap
+ * so a concurrent write from another device is merged instead of overwritten.
+ */
+async function writeCardChange(
+  projectUri: string,
+  cardId: string,
+  changes: KanbanCardChanges,
+  create?: KanbanCardRecord
+): Promise<KanbanCardRecord> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const project = await getProject(projectUri)
+  if (!project) throw new Error('Project not found')
+  const members = await listProjectMembers(project)
+  if (!getKanbanReaders(project, members).includes(session.did)) {
+    throw new Error('Only project members can edit the board')
+  }
+  if (changes.deleted && !['owner', 'maintainer'].includes(getMemberRole(members, session.did) ?? '')) {
+    throw new Error('Only the owner and maintainers can delete cards')
+  }
+  if (changes.assignee && getMemberRole(members, changes.assignee) === null) {
+    throw new Error('Cards can only be assigned to project members')
+  }
+  if (!create && !mergedCards.get(projectUri)?.has(cardId)) await getKanbanBoard(projectUri)
+
+  for (let attempt = 0; attempt < KANBAN_WRITE_ATTEMPTS; attempt++) {
+    let own: { record: KanbanCardRecord; cid: string } | null = null
+    try {
+      const res = await agent.com.atproto.repo.getRecord({
+        repo: session.did,
+        collection: KANBAN_COLLECTION,
+        rkey: cardId,
+      })
+      own = { record: res.data.value as KanbanCardRecord, cid: res.data.cid as string }
+    } catch {
+      own = null
+    }
+    const known = mergedCards.get(projectUri)?.get(cardId)
+    const copies: Array<{ did: string; record: KanbanCardRecord }> = []
+    if (own) copies.push({ did: session.did, record: own.record })
+    if (known) copies.push({ did: known.updatedBy, record: known.record })
+    if (create && copies.length === 0) copies.push({ did: session.did, record: create })
+    if (copies.length === 0) throw new Error('Card not found')
+    const base = mergeCardRecords(copies).record
+
+    const now = new Date().toISOString()
+    const next: KanbanCardRecord = { ...base, ...changes, clock: { ...base.clock } }
+    for (const f of Object.keys(changes) as KanbanCardField[]) next.clock[f] = now
+    if (changes.column !== undefined) {
+      const history = create && !base.transitions?.length ? [] : getCardTransitions(base)
+      if (history[history.length - 1]?.column !== changes.column) {
+        next.transitions = capTransitions([...history, { column: changes.column, at: now, by: session.did }])
+      }
+    }
+
+    try {
+      await agent.com.atproto.repo.putRecord({
+        repo: session.did,
+        collection: KANBAN_COLLECTION,
+        rkey: cardId,
+        record: { $type: KANBAN_COLLECTION, ...next },
+        swapRecord: own?.cid ?? null,
+        validate: false,
+      })
+    } catch (err) {
+      if (isSwapConflict(err)) continue
+      throw err
+    }
+
+    const cards = mergedCards.get(projectUri) ?? new Map<string, MergedKanbanCard>()
+    const authors = { ...known?.authors }
+    for (const f of Object.keys(changes) as KanbanCardField[]) authors[f] = session.did
+    cards.set(cardId, { record: next, updatedBy: session.did, createdBy: known?.createdBy ?? session.did, authors })
+    mergedCards.set(projectUri, cards)
+    rebuildCachedBoard(projectUri)
+    return next
+  }
+  throw new Error('The card was changed elsewhere at the same time. Please try again.')
+}
+
+function liveCardsInColumn(projectUri: string, columnId: string, exceptCardId?: string): KanbanCardRecord[] {
+  return [...(mergedCards.get(projectUri)?.values() ?? [])]
+    .map((c) => c.record)
+    .filter((r) => !r.deleted && r.column === columnId && r.cardId !== exceptCardId)
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || a.createdAt.localeCompare(b.createdAt))
+}
+
+function assertWipLimit(projectUri: string, columnId: string, exceptCardId?: string): void {
+  const col = (boardColumns.get(projectUri) ?? DEFAULT_COLUMNS).find((c) => c.id === columnId)
+  if (!col?.wipLimit) return
+  if (liveCardsInColumn(projectUri, columnId, exceptCardId).length >= col.wipLimit) {
+    throw new Error(`"${col.title}" is at its WIP limit (${col.wipLimit})`)
+  }
+}
+
+/** Add a card to the end of a kanban column (written to the viewer's repo). */
+export async function addKanbanCard(
   projectUri: string,
   columnId: string,
-  card: Omit<KanbanCard, 'id' | 'createdAt'>
-): KanbanCard {
-  const board = getKanbanBoard(projectUri)
-  const col = board.columns.find((c) => c.id === columnId)
-  if (!col) throw new Error('Column not found')
-  const newCard: KanbanCard = {
-    ...card,
-    id: `card-${Date.now()}`,
-    createdAt: new Date().toISOString(),
+  card: Omit<KanbanCard, 'id' | 'createdAt' | 'status' | 'position'>
+): Promise<KanbanCard> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  if (!card.title.trim()) throw new Error('Card title is required')
+  if (!mergedCards.has(projectUri)) await getKanbanBoard(projectUri)
+  assertWipLimit(projectUri, columnId)
+  const siblings = liveCardsInColumn(projectUri, columnId)
+  const position = siblings.length ? (siblings[siblings.length - 1].position ?? 0) + POSITION_STEP : POSITION_STEP
+  const cardId = `card-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  const now = new Date().toISOString()
+  const initial: KanbanCardRecord = {
+    project: projectUri,
+    cardId,
+    title: card.title.trim(),
+    description: card.description?.trim() || undefined,
+    assignee: card.assignee,
+    priority: card.priority,
+    column: columnId,
+    position,
+    dueDate: card.dueDate,
+    labels: card.labels,
+    createdAt: now,
+    clock: {},
   }
-  col.cards.push(newCard)
-  const all = getAllKanbanBoards()
-  const idx = all.findIndex((b) => b.id === board.id)
-  if (idx >= 0) all[idx] = board
-  saveKanbanBoards(all)
-  return newCard
+  const record = await writeCardChange(
+    projectUri,
+    cardId,
+    {
+      title: initial.title,
+      description: initial.description,
+      assignee: initial.assignee,
+      priority: initial.priority,
+      column: columnId,
+      position,
+      dueDate: initial.dueDate,
+      labels: initial.labels,
+    },
+    initial
+  )
+  return recordToCard(record, session.did)
 }
 
-/** Move a card between columns. */
-export function moveKanbanCard(
+/** Edit a card's details. */
+export async function updateKanbanCard(
+  projectUri: string,
+  cardId: string,
+  edit: KanbanCardEdit
+): Promise<void> {
+  const changes: KanbanCardChanges = { ...edit }
+  if (edit.title !== undefined) {
+    if (!edit.title.trim()) throw new Error('Card title is required')
+    changes.title = edit.title.trim()
+  }
+  if (edit.labels) changes.labels = [...new Set(edit.labels.map((l) => l.trim()).filter(Boolean))]
+  if (edit.links) {
+    const unique = [...new Map(edit.links.map((l) => [l.uri, l])).values()]
+    if (unique.length > KANBAN_CARD_LINK_LIMIT) throw new Error(`A card can have at most ${KANBAN_CARD_LINK_LIMIT} links`)
+    changes.links = unique
+  }
+  await writeCardChange(projectUri, cardId, changes)
+}
+
+/** Delete a card (tombstoned so it stays deleted when copies are merged). */
+export async function deleteKanbanCard(projectUri: string, cardId: string): Promise<void> {
+  await writeCardChange(projectUri, cardId, { deleted: true })
+}
+
+/**
+ * Move a card to `toIndex` within a column (same or different). The card gets a
+ * position halfway between its new neighbours; when there's no gap left the column
+ * is renumbered.
+ */
+export async function reorderKanbanCard(
+  projectUri: string,
+  cardId: string,
+  toColumnId: string,
+  toIndex: number
+): Promise<void> {
+  if (!mergedCards.get(projectUri)?.has(cardId)) await getKanbanBoard(projectUri)
+  const current = mergedCards.get(projectUri)?.get(cardId)?.record
+  if (!current) throw new Error('Card not found')
+  if (current.column !== toColumnId) assertWipLimit(projectUri, toColumnId, cardId)
+  const siblings = liveCardsInColumn(projectUri, toColumnId, cardId)
+  const index = Math.max(0, Math.min(toIndex, siblings.length))
+  const before = siblings[index - 1]?.position
+  const after = siblings[index]?.position
+  let position: number
+  if (before === undefined && after === undefined) position = POSITION_STEP
+  else if (before === undefined) position = (after ?? 0) - POSITION_STEP
+  else if (after === undefined) position = before + POSITION_STEP
+  else position = Math.floor((before + after) / 2)
+
+  if (before !== undefined && after !== undefined && (position === before || position === after)) {
+    // No room between neighbours: renumber the whole column with the card in place.
+    const ordered = [...siblings.slice(0, index), current, ...siblings.slice(index)]
+    for (let i = 0; i < ordered.length; i++) {
+      const r = ordered[i]
+      const changes: KanbanCardChanges = { position: (i + 1) * POSITION_STEP }
+      if (r.cardId === cardId) changes.column = toColumnId
+      await writeCardChange(projectUri, r.cardId, changes)
+    }
+    return
+  }
+  await writeCardChange(projectUri, cardId, { column: toColumnId, position })
+}
+
+/** Move a card to the end of another column. */
+export async function moveKanbanCard(
   projectUri: string,
   cardId: string,
   toColumnId: string
-): void {
-  const board = getKanbanBoard(projectUri)
-  let card: KanbanCard | undefined
-  for (const col of board.columns) {
-    const idx = col.cards.findIndex((c) => c.id === cardId)
-    if (idx >= 0) {
-      card = col.cards.splice(idx, 1)[0]
-      break
-    }
-  }
-  if (!card) return
-  const toCol = board.columns.find((c) => c.id === toColumnId)
-  if (toCol) toCol.cards.push(card)
-  const all = getAllKanbanBoards()
-  const idx = all.findIndex((b) => b.id === board.id)
-  if (idx >= 0) all[idx] = board
-  saveKanbanBoards(all)
+): Promise<void> {
+  if (!mergedCards.has(projectUri)) await getKanbanBoard(projectUri)
+  await reorderKanbanCard(projectUri, cardId, toColumnId, Number.MAX_SAFE_INTEGER)
+}
+
+export type KanbanActivity = {
+  cardId: string
+  title: string
+  kind: 'created' | 'moved' | 'deleted'
+  /** Column the card was added or moved to */
+  columnTitle: string
+  actor: string
+  at: string
+}
+
+/**
+ * Card events for the activity stream, from the merged cards: creation, every column
+ * move (from the transition log) and deletion.
+ */
+export async function listKanbanActivity(projectUri: string): Promise<KanbanActivity[]> {
+  if (!mergedCards.has(projectUri)) await getKanbanBoard(projectUri)
+  const columns = boardColumns.get(projectUri) ?? DEFAULT_COLUMNS
+  const columnTitle = (id: string) => columns.find((c) => c.id === id)?.title ?? id
+  const out: KanbanActivity[] = []
+  for (const { record, createdBy, authors } of mergedCards.get(projectUri)?.values() ?? []) {
+    const transitions = getCardTransitions(record)
+    const base = { cardId: record.cardId, title: record.title }
+    out.push({ ...base, kind: 'created', columnTitle: columnTitle(transitions[0].column), actor: createdBy, at: record.createdAt })
+    for (const t of transitions.slice(1)) {
+      out.push({ ...base, kind: 'moved', columnTitle: columnTitle(t.column), actor: t.by ?? authors.column ?? createdBy, at: t.at })
+    }
+    if (transitions.length === 1 && record.clock.column && record.clock.column > record.createdAt && !record.transitions?.length) {
+      // Moved before transitions were recorded: only the latest move is known.
+      out.push({ ...base, kind: 'moved', columnTitle: columnTitle(record.column), actor: authors.column ?? createdBy, at: record.clock.column })
+    }
+    if (record.deleted && record.clock.deleted) {
+      out.push({
+        ...base,
+        kind: 'deleted',
+        columnTitle: columnTitle(record.column),
+        actor: authors.deleted ?? createdBy,
+        at: record.clock.deleted,
+      })
+    }
+  }
+  return out
+}
+
+// ── Card comments (app.artsky.collab.cardComment) ─────────────────────
+
+type CardCommentRecord = { project: string; cardId: string; text: string; createdAt: string }
+
+/** Comments per project, loaded from every active member's repo. */
+const commentsCache = new Map<string, { comments: KanbanCardComment[]; at: number }>()
+
+async function listMemberComments(did: string, projectUri: string): Promise<KanbanCardComment[]> {
+  const client = getSession() ? agent : publicAgent
+  const out: KanbanCardComment[] = []
+  let cursor: string | undefined
+  do {
+    const res = await client.com.atproto.repo.listRecords({
+      repo: did,
+      collection: CARD_COMMENT_COLLECTION,
+      limit: 100,
+      cursor,
+    })
+    for (const r of res.data.records ?? []) {
+      const v = r.value as CardCommentRecord
+      if (v.project !== projectUri || !v.cardId || !v.text) continue
+      out.push({ uri: r.uri, did, cardId: v.cardId, text: v.text, createdAt: v.createdAt })
+    }
+    cursor = res.data.cursor
+  } while (cursor)
+  return out
+}
+
+/**
+ * Comments on a card, oldest first. Each member keeps their comments in their own repo;
+ * the project's comments are cached briefly so opening several cards doesn't refetch.
+ */
+export async function listCardComments(
+  projectUri: string,
+  cardId: string,
+  opts?: { force?: boolean }
+): Promise<KanbanCardComment[]> {
+  const cached = commentsCache.get(projectUri)
+  if (!opts?.force && cached && Date.now() - cached.at < COMMENTS_CACHE_TTL_MS) {
+    return cached.comments.filter((c) => c.cardId === cardId)
+  }
+  const project = await getProject(projectUri)
+  if (!project) return []
+  const members = await listProjectMembers(project)
+  const authors = members.filter((m) => m.status === 'active').map((m) => m.did)
+  const lists = await Promise.all(authors.map((did) => listMemberComments(did, projectUri).catch(() => [])))
+  const comments = lists.flat().sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  commentsCache.set(projectUri, { comments, at: Date.now() })
+  return comments.filter((c) => c.cardId === cardId)
+}
+
+/** Comment on a card (any active project member). */
+export async function addCardComment(projectUri: string, cardId: string, text: string): Promise<KanbanCardComment> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  if (!text.trim()) throw new Error('Comment is empty')
+  const project = await getProject(projectUri)
+  if (!project) throw new Error('Project not found')
+  if (getMemberRole(await listProjectMembers(project), session.did) === null) {
+    throw new Error('Only project members can comment')
+  }
+  const rkey = `comment-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  const record: CardCommentRecord = { project: projectUri, cardId, text: text.trim(), createdAt: new Date().toISOString() }
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: CARD_COMMENT_COLLECTION,
+    rkey,
+    record: { $type: CARD_COMMENT_COLLECTION, ...record },
+    validate: false,
+  })
+  const comment: KanbanCardComment = { uri: res.data.uri, did: session.did, cardId, text: record.text, createdAt: record.createdAt }
+  const cached = commentsCache.get(projectUri)
+  if (cached) cached.comments.push(comment)
+  return comment
+}
+
+/** Delete one of your own card comments. */
+export async function deleteCardComment(uri: string): Promise<void> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const parsed = parseAtUri(uri)
+  if (!parsed || parsed.did !== session.did) throw new Error('You can only delete your own comments')
+  await agent.com.atproto.repo.deleteRecord({
+    repo: session.did,
+    collection: CARD_COMMENT_COLLECTION,
+    rkey: parsed.rkey,
+  })
+  for (const entry of commentsCache.values()) entry.comments = entry.comments.filter((c) => c.uri !== uri)
+}
+
+// ── Board columns (app.artsky.collab.kanbanBoard) ──────────────────────
+
+/** Column layout saved by the project owner, or null when the board uses the defaults. */
+async function getKanbanColumns(project: CollabProject): Promise<KanbanColumn[] | null> {
+  const parsed = parseAtUri(project.uri)
+  if (!parsed) return null
+  const client = getSession() ? agent : publicAgent
+  try {
+    const res = await client.com.atproto.repo.getRecord({
+      repo: parsed.did,
+      collection: KANBAN_BOARD_COLLECTION,
+      rkey: parsed.rkey,
+    })
+    const v = res.data.value as { project?: string; columns?: KanbanColumn[] }
+    if (v.project !== project.uri || !Array.isArray(v.columns) || v.columns.length === 0) return null
+    return v.columns
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Apply a change to the column layout. The layout is one record in the owner's repo;
+ * it is re-read before each attempt and written with compare-and-swap, so the change is
+ * re-applied on top of a concurrent edit from another device instead of clobbering it.
+ */
+async function updateKanbanColumns(
+  projectUri: string,
+  change: (columns: KanbanColumn[]) => KanbanColumn[]
+): Promise<KanbanBoard> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const parsed = parseAtUri(projectUri)
+  if (!parsed) throw new Error('Invalid URI')
+  if (parsed.did !== session.did) throw new Error('Only the project owner can change columns')
+  if (!mergedCards.has(projectUri)) await getKanbanBoard(projectUri)
+
+  for (let attempt = 0; attempt < KANBAN_WRITE_ATTEMPTS; attempt++) {
+    let current: KanbanColumn[] = DEFAULT_COLUMNS
+    let cid: string | null = null
+    try {
+      const res = await agent.com.atproto.repo.getRecord({
+        repo: session.did,
+        collection: KANBAN_BOARD_COLLECTION,
+        rkey: parsed.rkey,
+      })
+      const v = res.data.value as { columns?: KanbanColumn[] }
+      if (Array.isArray(v.columns) && v.columns.length > 0) current = v.columns
+      cid = res.data.cid as string
+    } catch {
+      cid = null
+    }
+    const next = change(current.map((c) => ({ ...c })))
+    if (next.length === 0) throw new Error('A board needs at least one column')
+    try {
+      await agent.com.atproto.repo.putRecord({
+        repo: session.did,
+        collection: KANBAN_BOARD_COLLECTION,
+        rkey: parsed.rkey,
+        record: {
+          $type: KANBAN_BOARD_COLLECTION,
+          project: projectUri,
+          columns: next,
+          updatedAt: new Date().toISOString(),
+        },
+        swapRecord: cid,
+        validate: false,
+      })
+    } catch (err) {
+      if (isSwapConflict(err)) continue
+      throw err
+    }
+    boardColumns.set(projectUri, next)
+    return rebuildCachedBoard(projectUri)
+  }
+  throw new Error('The board was changed elsewhere at the same time. Please try again.')
+}
+
+/** Add a column at the end of the board. */
+export function addKanbanColumn(projectUri: string, title: string): Promise<KanbanBoard> {
+  const name = title.trim()
+  if (!name) return Promise.reject(new Error('Column title is required'))
+  const id = `col-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+  return updateKanbanColumns(projectUri, (cols) => [...cols, { id, title: name }])
+}
+
+/** Rename a column. */
+export function renameKanbanColumn(projectUri: string, columnId: string, title: string): Promise<KanbanBoard> {
+  const name = title.trim()
+  if (!name) return Promise.reject(new Error('Column title is required'))
+  return updateKanbanColumns(projectUri, (cols) => cols.map((c) => (c.id === columnId ? { ...c, title: name } : c)))
+}
+
+/** Move a column to a new index. */
+export function reorderKanbanColumn(projectUri: string, columnId: string, toIndex: number): Promise<KanbanBoard> {
+  return updateKanbanColumns(projectUri, (cols) => {
+    const from = cols.findIndex((c) => c.id === columnId)
+    if (from < 0) return cols
+    const [col] = cols.splice(from, 1)
+    cols.splice(Math.max(0, Math.min(toIndex, cols.length)), 0, col)
+    return cols
+  })
+}
+
+/** Set (or clear with null) a column's WIP limit. */
+export function setKanbanWipLimit(projectUri: string, columnId: string, limit: number | null): Promise<KanbanBoard> {
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1)) {
+    return Promise.reject(new Error('WIP limit must be a whole number of at least 1'))
+  }
+  return updateKanbanColumns(projectUri, (cols) =>
+    cols.map((c) => (c.id === columnId ? { ...c, wipLimit: limit ?? undefined } : c))
+  )
+}
+
+/** Remove an empty column. */
+export function deleteKanbanColumn(projectUri: string, columnId: string): Promise<KanbanBoard> {
+  if (liveCardsInColumn(projectUri, columnId).length > 0) {
+    return Promise.reject(new Error('Move or delete the cards in this column first'))
+  }
+  return updateKanbanColumns(projectUri, (cols) => cols.filter((c) => c.id !== columnId))
 }
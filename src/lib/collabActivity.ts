@@ -0,0 +1,117 @@
+/**
+ * Collab project activity stream
+ *
+ * Merges what happened on a project, newest first: kanban card events, forum posts
+ * tagged with the project, project metadata edits and releases. Remembers when the
+ * viewer last looked so new items can be marked unread.
+ */
+
+import { listForumPosts } from './forum'
+import { getProjectForumTag, listKanbanActivity, listProjectMembers, listReleases } from './collab'
+import type { CollabProject } from '../types'
+
+const ACTIVITY_SEEN_KEY = 'artsky-collab-activity-seen'
+/** Forum posts fetched per member when looking for posts tagged with the project. */
+const FORUM_POSTS_PER_MEMBER = 50
+
+export type ProjectActivityKind = 'card' | 'forum' | 'project' | 'release'
+
+export type ProjectActivity = {
+  id: string
+  kind: ProjectActivityKind
+  actor: string
+  at: string
+  /** e.g. 'moved "Rig arm" to Review' */
+  text: string
+  /** In-app route (forum post) or external link */
+  href?: string
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'name',
+  description: 'description',
+  type: 'type',
+  tags: 'tags',
+  version: 'version',
+  externalUrl: 'files link',
+  magnetLink: 'torrent link',
+  previewUrl: 'preview',
+  assets: 'asset manifest',
+}
+
+/** All activity for a project, newest first. Sources that fail to load are skipped. */
+export async function listProjectActivity(project: CollabProject): Promise<ProjectActivity[]> {
+  const members = await listProjectMembers(project)
+  const tag = getProjectForumTag(project)
+  const [cards, posts, releases] = await Promise.all([
+    listKanbanActivity(project.uri).catch(() => []),
+    Promise.all(
+      members
+        .filter((m) => m.status === 'active')
+        .map((m) => listForumPosts(m.did, { limit: FORUM_POSTS_PER_MEMBER }).then((r) => r.posts))
+    ).then((lists) => lists.flat().filter((p) => p.tags?.includes(tag))),
+    listReleases(project).catch(() => []),
+  ])
+
+  const items: ProjectActivity[] = []
+  for (const c of cards) {
+    const text =
+      c.kind === 'created'
+        ? `added "${c.title}" to ${c.columnTitle}`
+        : c.kind === 'moved'
+          ? `moved "${c.title}" to ${c.columnTitle}`
+          : `deleted "${c.title}"`
+    items.push({ id: `card:${c.cardId}:${c.kind}:${c.at}`, kind: 'card', actor: c.actor, at: c.at, text })
+  }
+  for (const p of posts) {
+    if (!p.createdAt) continue
+    items.push({
+      id: `forum:${p.uri}`,
+      kind: 'forum',
+      actor: p.did,
+      at: p.createdAt,
+      text: `posted "${p.title || 'Untitled'}" in the forum`,
+      href: `/forum/post?uri=${encodeURIComponent(p.uri)}`,
+    })
+  }
+  for (const h of project.history ?? []) {
+    const fields = h.fields.filter((f) => f !== 'version').map((f) => FIELD_LABELS[f] ?? f)
+    const parts = [
+      h.version ? `bumped the version to ${h.version}` : null,
+      fields.length ? `updated the project ${fields.join(', ')}` : null,
+    ].filter(Boolean)
+    const text = parts.join(' and ') || 'updated the project'
+    items.push({ id: `project:${h.at}`, kind: 'project', actor: h.by, at: h.at, text })
+  }
+  items.push({ id: 'project:created', kind: 'project', actor: project.owner, at: project.createdAt, text: 'created the project' })
+  for (const r of releases) {
+    items.push({ id: `release:${r.uri}`, kind: 'release', actor: r.did, at: r.createdAt, text: `released v${r.version}` })
+  }
+  return items.filter((i) => i.at).sort((a, b) => b.at.localeCompare(a.at))
+}
+
+function getSeenMap(): Record<string, string> {
+  try {
+    const raw = localStorage.getItem(ACTIVITY_SEEN_KEY)
+    return raw ? JSON.parse(raw) : {}
+  } catch {
+    return {}
+  }
+}
+
+/** When the viewer last saw the project's activity (ISO), or null on a first visit. */
+export function getActivityLastSeen(projectUri: string): string | null {
+  return getSeenMap()[projectUri] ?? null
+}
+
+/** Remember that everything up to `at` has been seen. */
+export function markActivitySeen(projectUri: string, at: string): void {
+  const map = getSeenMap()
+  if (map[projectUri] && map[projectUri] >= at) return
+  map[projectUri] = at
+  try {
+    localStorage.setItem(ACTIVITY_SEEN_KEY, JSON.stringify(map))
+  } catch {
+    /* ignore */
+  }
+}
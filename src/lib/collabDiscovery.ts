@@ -0,0 +1,146 @@
+/**
+ * Network-wide collab project discovery
+ *
+ * Walks app.artsky.collab.project records across the viewer's repo, the configured
+ * discovery accounts and everyone the viewer follows, a few repos at a time, so the
+ * UI can page through all of them and filter by name, type and tags.
+ */
+
+import { agent, getFollows, getSession, publicAgent } from './bsky'
+import { listProjects } from './collab'
+import { COLLAB_DISCOVERY_ACCOUNTS } from '../config/collabDiscovery'
+import type { CollabProject, ProjectType } from '../types'
+
+/** Repos listed in parallel per step. */
+const REPO_BATCH = 5
+/** Project records requested per listRecords call. */
+const RECORDS_PER_CALL = 100
+
+export type ProjectSearch = {
+  /** Matched against name and description (case-insensitive) */
+  query?: string
+  type?: ProjectType | ''
+  /** Every tag must be present */
+  tags?: string[]
+}
+
+export type ProjectDiscovery = {
+  /** Scan more repos until at least `minMatches` new projects match `search`, or everything is scanned. */
+  loadMore: (search: ProjectSearch, minMatches?: number) => Promise<void>
+  /** All projects found so far (unfiltered), newest first. */
+  projects: () => CollabProject[]
+  /** Handles learned while scanning (owner DID → handle). */
+  handles: () => Map<string, string>
+  done: () => boolean
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase()
+}
+
+export function matchesProjectSearch(project: CollabProject, search: ProjectSearch): boolean {
+  if (search.type && project.type !== search.type) return false
+  const wanted = (search.tags ?? []).map(normalizeTag).filter(Boolean)
+  if (wanted.length) {
+    const have = new Set((project.tags ?? []).map(normalizeTag))
+    if (!wanted.every((t) => have.has(t))) return false
+  }
+  const q = search.query?.trim().toLowerCase()
+  if (q && !`${project.name ?? ''}\n${project.description ?? ''}`.toLowerCase().includes(q)) return false
+  return true
+}
+
+async function resolveAccount(handleOrDid: string): Promise<string | null> {
+  if (handleOrDid.startsWith('did:')) return handleOrDid
+  try {
+    const res = await publicAgent.resolveHandle({ handle: handleOrDid })
+    return res.data.did
+  } catch {
+    return null
+  }
+}
+
+/** Start a discovery walk. Call loadMore() to page through repos. */
+export function createProjectDiscovery(): ProjectDiscovery {
+  const session = getSession()
+  const found = new Map<string, CollabProject>()
+  const handles = new Map<string, string>()
+  const queued = new Set<string>()
+  const queue: string[] = []
+  let seeded = false
+  let followsCursor: string | undefined
+  let followsDone = !session?.did
+  let finished = false
+
+  const enqueue = (dids: string[]) => {
+    for (const did of dids) {
+      if (!queued.has(did)) {
+        queued.add(did)
+        queue.push(did)
+      }
+    }
+  }
+
+  async function seed() {
+    seeded = true
+    if (session?.did) enqueue([session.did])
+    const configured = await Promise.all(COLLAB_DISCOVERY_ACCOUNTS.map(resolveAccount))
+    enqueue(configured.filter((d): d is string => !!d))
+  }
+
+  async function fetchMoreFollows() {
+    if (followsDone || !session?.did) return
+    try {
+      const page = await getFollows(agent, session.did, { limit: 100, cursor: followsCursor })
+      for (const [did, handle] of page.handles) handles.set(did, handle)
+      enqueue(page.dids)
+      followsCursor = page.cursor
+      followsDone = !page.cursor
+    } catch {
+      followsDone = true
+    }
+  }
+
+  async function scanRepo(did: string): Promise<CollabProject[]> {
+    const out: CollabProject[] = []
+    let cursor: string | undefined
+    do {
+      const page = await listProjects(did, { limit: RECORDS_PER_CALL, cursor })
+      out.push(...page.projects)
+      cursor = page.projects.length ? page.cursor : undefined
+    } while (cursor)
+    return out
+  }
+
+  async function step(): Promise<CollabProject[]> {
+    if (!seeded) await seed()
+    if (queue.length < REPO_BATCH) await fetchMoreFollows()
+    const batch = queue.splice(0, REPO_BATCH)
+    if (batch.length === 0) {
+      finished = true
+      return []
+    }
+    const lists = await Promise.all(batch.map((did) => scanRepo(did).catch(() => [])))
+    const added: CollabProject[] = []
+    for (const p of lists.flat()) {
+      if (!found.has(p.uri)) {
+        found.set(p.uri, p)
+        added.push(p)
+      }
+    }
+    return added
+  }
+
+  return {
+    async loadMore(search, minMatches = 12) {
+      let matches = 0
+      while (!finished && matches < minMatches) {
+        const added = await step()
+        matches += added.filter((p) => matchesProjectSearch(p, search)).length
+      }
+    },
+    projects: () => [...found.values()].sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? '')),
+    handles: () => handles,
+    done: () => finished,
+  }
+}
@@ -0,0 +1,449 @@
+/**
+ * Consensus Conversations – AT Protocol Lexicon for Polis-like decisions
+ *
+ * Conversations (app.artsky.consensus.conversation) group statements
+ * (app.artsky.consensus.statement) under a topic with an open/close window.
+ * The conversation owner can close it and hide statements.
+ *
+ * Statements from before conversations existed are forum posts tagged "consensus".
+ * Each account's are read as one legacy conversation (see legacyConversationUri),
+ * so their votes keep counting; it takes votes but no new statements.
+ */
+
+import { agent, getFollows, getSession, parseAtUri, publicAgent } from './bsky'
+import { listAllBacklinks } from './constellation'
+import { CONSENSUS_ACCOUNTS } from '../config/consensus'
+import type { ConsensusConversation, ConsensusStatement } from '../types'
+
+const CONVERSATION_COLLECTION = 'app.artsky.consensus.conversation'
+const STATEMENT_COLLECTION = 'app.artsky.consensus.statement'
+const STATEMENT_PATH = '.conversation'
+const LEGACY_STATEMENT_COLLECTION = 'app.artsky.forum.post'
+const LEGACY_STATEMENT_TAG = 'consensus'
+/** Repos listed in parallel while gathering community conversations. */
+const REPO_BATCH = 5
+/** How many statement records to fetch in parallel. */
+const FETCH_BATCH = 10
+
+type ConversationRecord = {
+  topic?: string
+  description?: string
+  opensAt?: string
+  closesAt?: string
+  seedStatements?: string[]
+  hiddenStatements?: string[]
+  createdAt?: string
+}
+
+type StatementRecord = {
+  conversation?: string
+  text?: string
+  isSeed?: boolean
+  createdAt?: string
+}
+
+type LegacyStatementRecord = { title?: string; body?: string; tags?: string[]; createdAt?: string }
+
+function newRkey(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function recordToConversation(uri: string, cid: string, v: ConversationRecord): ConsensusConversation {
+  const parsed = parseAtUri(uri)
+  return {
+    uri,
+    cid,
+    did: parsed?.did ?? '',
+    rkey: parsed?.rkey ?? '',
+    topic: v.topic ?? '',
+    description: v.description,
+    opensAt: v.opensAt,
+    closesAt: v.closesAt,
+    seedStatements: v.seedStatements ?? [],
+    hiddenStatements: v.hiddenStatements ?? [],
+    createdAt: v.createdAt,
+  }
+}
+
+function conversationToRecord(c: ConsensusConversation): ConversationRecord & { $type: string } {
+  return {
+    $type: CONVERSATION_COLLECTION,
+    topic: c.topic,
+    description: c.description,
+    opensAt: c.opensAt,
+    closesAt: c.closesAt,
+    seedStatements: c.seedStatements,
+    hiddenStatements: c.hiddenStatements,
+    createdAt: c.createdAt,
+  }
+}
+
+/** Whether the conversation accepts statements and votes at the given time. */
+export function isConversationOpen(conversation: ConsensusConversation, now = Date.now()): boolean {
+  const opens = new Date(conversation.opensAt ?? conversation.createdAt ?? 0).getTime()
+  const closes = conversation.closesAt ? new Date(conversation.closesAt).getTime() : Infinity
+  return now >= opens && now < closes
+}
+
+/** Create a conversation and one statement record per seed statement. */
+export async function createConversation(opts: {
+  topic: string
+  description?: string
+  opensAt?: string
+  closesAt?: string
+  seedStatements?: string[]
+}): Promise<{ uri: string; cid: string }> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  if (!opts.topic.trim()) throw new Error('Topic is required')
+  if (opts.opensAt && opts.closesAt && new Date(opts.closesAt) <= new Date(opts.opensAt)) {
+    throw new Error('Close date must be after the open date')
+  }
+  const seeds = (opts.seedStatements ?? []).map((s) => s.trim()).filter(Boolean)
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: CONVERSATION_COLLECTION,
+    rkey: newRkey(),
+    record: {
+      $type: CONVERSATION_COLLECTION,
+      topic: opts.topic.trim(),
+      description: opts.description?.trim() || undefined,
+      opensAt: opts.opensAt,
+      closesAt: opts.closesAt,
+      seedStatements: seeds,
+      hiddenStatements: [],
+      createdAt: new Date().toISOString(),
+    },
+    validate: false,
+  })
+  for (const text of seeds) {
+    await putStatement(session.did, res.data.uri, text, true)
+  }
+  return { uri: res.data.uri, cid: res.data.cid }
+}
+
+/** List conversations from a user's repo (newest first). */
+export async function listConversations(
+  did: string,
+  opts?: { limit?: number; cursor?: string }
+): Promise<{ conversations: ConsensusConversation[]; cursor?: string }> {
+  const client = getSession() ? agent : publicAgent
+  try {
+    const res = await client.com.atproto.repo.listRecords({
+      repo: did,
+      collection: CONVERSATION_COLLECTION,
+      limit: opts?.limit ?? 30,
+      cursor: opts?.cursor,
+      reverse: true,
+    })
+    const conversations = (res.data.records ?? []).map((r) =>
+      recordToConversation(r.uri, r.cid, r.value as ConversationRecord)
+    )
+    return { conversations, cursor: res.data.cursor }
+  } catch {
+    return { conversations: [], cursor: undefined }
+  }
+}
+
+async function resolveAccount(handleOrDid: string): Promise<string | null> {
+  if (handleOrDid.startsWith('did:')) return handleOrDid
+  try {
+    const res = await publicAgent.resolveHandle({ handle: handleOrDid })
+    return res.data.did
+  } catch {
+    return null
+  }
+}
+
+/** Every statement record in one repo (all pages, all conversations). Empty when the repo can't be read. */
+async function scanRepoStatements(did: string): Promise<Array<{ uri: string; cid: string; value: StatementRecord }>> {
+  const client = getSession() ? agent : publicAgent
+  const out: Array<{ uri: string; cid: string; value: StatementRecord }> = []
+  try {
+    let cursor: string | undefined
+    do {
+      const res = await client.com.atproto.repo.listRecords({
+        repo: did,
+        collection: STATEMENT_COLLECTION,
+        limit: 100,
+        cursor,
+      })
+      for (const r of res.data.records ?? []) out.push({ uri: r.uri, cid: r.cid, value: r.value as StatementRecord })
+      cursor = res.data.cursor
+    } while (cursor)
+  } catch {
+    /* ignore */
+  }
+  return out
+}
+
+/** Conversations the viewer added statements to, wherever they live. */
+async function listJoinedConversationUris(did: string): Promise<string[]> {
+  const uris = (await scanRepoStatements(did)).map((r) => r.value.conversation)
+  return [...new Set(uris.filter((u): u is string => !!u))]
+}
+
+/**
+ * Conversations from the community, newest first: the viewer's, the configured
+ * accounts' (config/consensus), the ones the viewer added statements to and those of
+ * one page of the accounts the viewer follows. Pass the returned cursor to continue
+ * through the follows; later pages only hold conversations from further follows.
+ */
+export async function listCommunityConversations(
+  opts?: { cursor?: string }
+): Promise<{ conversations: ConsensusConversation[]; cursor?: string }> {
+  const session = getSession()
+  const dids = new Set<string>()
+  const found = new Map<string, ConsensusConversation>()
+  let cursor: string | undefined
+
+  if (!opts?.cursor) {
+    if (session?.did) dids.add(session.did)
+    for (const did of await Promise.all(CONSENSUS_ACCOUNTS.map(resolveAccount))) if (did) dids.add(did)
+    if (session?.did) {
+      const joined = await Promise.all((await listJoinedConversationUris(session.did)).map(getConversation))
+      for (const c of joined) if (c) found.set(c.uri, c)
+    }
+  }
+  if (session?.did) {
+    try {
+      const page = await getFollows(agent, session.did, { limit: 100, cursor: opts?.cursor })
+      for (const did of page.dids) dids.add(did)
+      cursor = page.cursor
+    } catch {
+      /* follows unavailable; list the other sources */
+    }
+  }
+
+  const queue = [...dids]
+  while (queue.length) {
+    const batch = queue.splice(0, REPO_BATCH)
+    const pages = await Promise.all(batch.map((did) => listConversations(did)))
+    for (const page of pages) for (const c of page.conversations) found.set(c.uri, c)
+  }
+
+  const conversations = [...found.values()].sort(
+    (a, b) => new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime()
+  )
+  return { conversations, cursor }
+}
+
+/** URI standing for an account's legacy statements (their forum post collection). */
+export function legacyConversationUri(did: string): string {
+  return `at://${did}/${LEGACY_STATEMENT_COLLECTION}`
+}
+
+function legacyConversation(did: string): ConsensusConversation {
+  return {
+    uri: legacyConversationUri(did),
+    cid: '',
+    did,
+    rkey: '',
+    topic: 'Earlier statements',
+    description: 'Statements posted before conversations. You can still vote on them; start a conversation to add new ones.',
+    seedStatements: [],
+    hiddenStatements: [],
+    legacy: true,
+  }
+}
+
+/** An account's forum posts tagged "consensus" (all pages). */
+async function listLegacyStatements(did: string): Promise<ConsensusStatement[]> {
+  const client = getSession() ? agent : publicAgent
+  const out: ConsensusStatement[] = []
+  try {
+    let cursor: string | undefined
+    do {
+      const res = await client.com.atproto.repo.listRecords({
+        repo: did,
+        collection: LEGACY_STATEMENT_COLLECTION,
+        limit: 100,
+        cursor,
+      })
+      for (const r of res.data.records ?? []) {
+        const v = r.value as LegacyStatementRecord
+        const text = v.title || v.body
+        if (!v.tags?.includes(LEGACY_STATEMENT_TAG) || !text) continue
+        out.push({
+          uri: r.uri,
+          cid: r.cid,
+          did,
+          rkey: parseAtUri(r.uri)?.rkey ?? '',
+          conversation: legacyConversationUri(did),
+          text,
+          createdAt: v.createdAt,
+          hidden: false,
+        })
+      }
+      cursor = res.data.cursor
+    } while (cursor)
+  } catch {
+    /* ignore */
+  }
+  return out.sort((a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime())
+}
+
+/** Whether the account has legacy statements to show. */
+export async function hasLegacyStatements(did: string): Promise<boolean> {
+  return (await listLegacyStatements(did)).length > 0
+}
+
+/** Get a single conversation by URI. */
+export async function getConversation(uri: string): Promise<ConsensusConversation | null> {
+  const legacyDid = uri.match(/^at:\/\/([^/]+)\/app\.artsky\.forum\.post$/)?.[1]
+  if (legacyDid) return legacyConversation(legacyDid)
+  const parsed = parseAtUri(uri)
+  if (!parsed) return null
+  const client = getSession() ? agent : publicAgent
+  try {
+    const res = await client.com.atproto.repo.getRecord({
+      repo: parsed.did,
+      collection: CONVERSATION_COLLECTION,
+      rkey: parsed.rkey,
+    })
+    return recordToConversation(res.data.uri, res.data.cid as string, res.data.value as ConversationRecord)
+  } catch {
+    return null
+  }
+}
+
+async function updateConversation(
+  uri: string,
+  update: (c: ConsensusConversation) => ConsensusConversation
+): Promise<ConsensusConversation> {
+  const conversation = await getConversation(uri)
+  if (!conversation) throw new Error('Conversation not found')
+  const session = getSession()
+  if (!session?.did || session.did !== conversation.did || conversation.legacy) throw new Error('Not authorized')
+  const next = update(conversation)
+  await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: CONVERSATION_COLLECTION,
+    rkey: conversation.rkey,
+    record: conversationToRecord(next),
+    validate: false,
+  })
+  return next
+}
+
+/** Close a conversation now. Only the owner can close. */
+export async function closeConversation(uri: string): Promise<ConsensusConversation> {
+  return updateConversation(uri, (c) => ({ ...c, closesAt: new Date().toISOString() }))
+}
+
+/** Reopen a closed conversation (clears the close date). Only the owner can reopen. */
+export async function reopenConversation(uri: string): Promise<ConsensusConversation> {
+  return updateConversation(uri, (c) => ({ ...c, closesAt: undefined }))
+}
+
+/** Hide or unhide a statement in a conversation. Only the owner can moderate. */
+export async function setStatementHidden(
+  conversationUri: string,
+  statementUri: string,
+  hidden: boolean
+): Promise<ConsensusConversation> {
+  return updateConversation(conversationUri, (c) => {
+    const rest = c.hiddenStatements.filter((u) => u !== statementUri)
+    return { ...c, hiddenStatements: hidden ? [...rest, statementUri] : rest }
+  })
+}
+
+async function putStatement(
+  did: string,
+  conversationUri: string,
+  text: string,
+  isSeed = false
+): Promise<{ uri: string; cid: string }> {
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: did,
+    collection: STATEMENT_COLLECTION,
+    rkey: newRkey(),
+    record: {
+      $type: STATEMENT_COLLECTION,
+      conversation: conversationUri,
+      text: text.trim(),
+      isSeed: isSeed || undefined,
+      createdAt: new Date().toISOString(),
+    },
+    validate: false,
+  })
+  return { uri: res.data.uri, cid: res.data.cid }
+}
+
+/** Add a statement to an open conversation. */
+export async function createStatement(
+  conversationUri: string,
+  text: string
+): Promise<{ uri: string; cid: string }> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  if (!text.trim()) throw new Error('Statement is empty')
+  const conversation = await getConversation(conversationUri)
+  if (!conversation) throw new Error('Conversation not found')
+  if (!isConversationOpen(conversation)) throw new Error('This conversation is closed')
+  if (conversation.legacy) throw new Error('Start a conversation to add new statements')
+  return putStatement(session.did, conversationUri, text)
+}
+
+/**
+ * List statements in a conversation. Uses the backlink index to find statements from
+ * every participant; always includes the owner's and viewer's own repos so new
+ * statements show up before the index catches up. Hidden statements are flagged.
+ */
+export async function listStatements(conversation: ConsensusConversation): Promise<ConsensusStatement[]> {
+  if (conversation.legacy) return listLegacyStatements(conversation.did)
+  const client = getSession() ? agent : publicAgent
+  const session = getSession()
+  const found = new Map<string, ConsensusStatement>()
+
+  const add = (uri: string, cid: string, v: StatementRecord) => {
+    if (v.conversation !== conversation.uri || !v.text || found.has(uri)) return
+    const parsed = parseAtUri(uri)
+    found.set(uri, {
+      uri,
+      cid,
+      did: parsed?.did ?? '',
+      rkey: parsed?.rkey ?? '',
+      conversation: v.conversation,
+      text: v.text,
+      isSeed: v.isSeed,
+      createdAt: v.createdAt,
+      hidden: conversation.hiddenStatements.includes(uri),
+    })
+  }
+
+  try {
+    const links = await listAllBacklinks({
+      target: conversation.uri,
+      collection: STATEMENT_COLLECTION,
+      path: STATEMENT_PATH,
+    })
+    for (let i = 0; i < links.length; i += FETCH_BATCH) {
+      await Promise.all(
+        links.slice(i, i + FETCH_BATCH).map(async (link) => {
+          try {
+            const res = await client.com.atproto.repo.getRecord({
+              repo: link.did,
+              collection: link.collection,
+              rkey: link.rkey,
+            })
+            add(res.data.uri, res.data.cid as string, res.data.value as StatementRecord)
+          } catch {
+            /* deleted or unreachable */
+          }
+        })
+      )
+    }
+  } catch {
+    /* backlink index unavailable; fall back to known repos below */
+  }
+
+  const repos = [...new Set([conversation.did, ...(session?.did ? [session.did] : [])])]
+  for (const did of repos) {
+    for (const r of await scanRepoStatements(did)) add(r.uri, r.cid, r.value)
+  }
+
+  return [...found.values()].sort(
+    (a, b) => new Date(a.createdAt ?? 0).getTime() - new Date(b.createdAt ?? 0).getTime()
+  )
+}
@@ -0,0 +1,109 @@
+/**
+ * Consensus report export: the full analysis of a conversation as Markdown
+ * (for pasting into meeting notes) or JSON (for further processing).
+ */
+
+import type { ConsensusConversation, ConsensusResult, ConsensusStatement } from '../types'
+
+export type ConsensusReport = {
+  conversation: Pick<ConsensusConversation, 'uri' | 'topic' | 'description' | 'opensAt' | 'closesAt'>
+  generatedAt: string
+  totalParticipants: number
+  statements: Array<ConsensusResult['statements'][number] & { uri: string; text: string }>
+  groups: Array<{
+    id: number
+    label: string
+    memberCount: number
+    avgAgreement: number
+    representativeStatements: Array<ConsensusResult['clusters'][number]['representativeStatements'][number] & { text: string }>
+  }>
+}
+
+function pct(n: number): string {
+  return `${Math.round(n * 100)}%`
+}
+
+/** Markdown table cells can't contain pipes or newlines. */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+}
+
+/** Join analysis results with statement text. Statements are matched by rkey (the id used for analysis). */
+export function buildConsensusReport(
+  conversation: ConsensusConversation,
+  statements: ConsensusStatement[],
+  result: ConsensusResult
+): ConsensusReport {
+  const byId = new Map(statements.map((s) => [s.rkey, s]))
+  const textOf = (id: string) => byId.get(id)?.text ?? id
+  return {
+    conversation: {
+      uri: conversation.uri,
+      topic: conversation.topic,
+      description: conversation.description,
+      opensAt: conversation.opensAt,
+      closesAt: conversation.closesAt,
+    },
+    generatedAt: new Date().toISOString(),
+    totalParticipants: result.totalParticipants,
+    statements: result.statements
+      .map((s) => ({ ...s, uri: byId.get(s.statementId)?.uri ?? '', text: textOf(s.statementId) }))
+      .sort((a, b) => b.groupInformedConsensus - a.groupInformedConsensus),
+    groups: result.clusters.map((c) => ({
+      id: c.id,
+      label: `Group ${c.id + 1}`,
+      memberCount: c.memberCount,
+      avgAgreement: c.avgAgreement,
+      representativeStatements: c.representativeStatements.map((r) => ({ ...r, text: textOf(r.statementId) })),
+    })),
+  }
+}
+
+export function consensusReportToJson(report: ConsensusReport): string {
+  return JSON.stringify(report, null, 2)
+}
+
+export function consensusReportToMarkdown(report: ConsensusReport): string {
+  const lines: string[] = []
+  lines.push(`# ${report.conversation.topic || 'Consensus report'}`, '')
+  if (report.conversation.description) lines.push(report.conversation.description, '')
+  lines.push(`- Participants: ${report.totalParticipants}`)
+  lines.push(`- Opinion groups: ${report.groups.length}`)
+  if (report.conversation.closesAt) lines.push(`- Closes: ${report.conversation.closesAt}`)
+  lines.push(`- Generated: ${report.generatedAt}`, '')
+
+  lines.push('## Statements', '')
+  lines.push('| Statement | Agree | Disagree | Pass | Group-informed consensus |')
+  lines.push('| --- | ---: | ---: | ---: | ---: |')
+  for (const s of report.statements) {
+    lines.push(`| ${cell(s.text)} | ${s.agreeCount} | ${s.disagreeCount} | ${s.passCount} | ${pct(s.groupInformedConsensus)} |`)
+  }
+  lines.push('')
+
+  if (report.groups.length > 0) {
+    lines.push('## Opinion groups', '')
+    for (const g of report.groups) {
+      lines.push(`### ${g.label} (${g.memberCount} member${g.memberCount !== 1 ? 's' : ''})`, '')
+      lines.push(`Average agreement: ${pct(g.avgAgreement)}`, '')
+      if (g.representativeStatements.length === 0) {
+        lines.push('_No distinctive statements._', '')
+        continue
+      }
+      for (const r of g.representativeStatements) {
+        lines.push(`- ${pct(r.groupShare)} ${r.direction === 'agree' ? 'agreed' : 'disagreed'}: ${r.text}`)
+      }
+      lines.push('')
+    }
+  }
+  return lines.join('\n')
+}
+
+/** Filesystem-safe base name for a report, from the topic. */
+export function consensusReportFilename(report: ConsensusReport, extension: 'md' | 'json'): string {
+  const slug = (report.conversation.topic || 'consensus')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60)
+  return `artsky-consensus-${slug || 'report'}.${extension}`
+}
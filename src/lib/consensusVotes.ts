@@ -0,0 +1,122 @@
+/**
+ * Consensus vote aggregation
+ *
+ * Finds every participant's app.artsky.consensus.vote records for a statement
+ * through the backlink index (Constellation, or a local stand-in), keeps only
+ * the latest vote per DID, and caches the result for a short while.
+ */
+
+import { agent, getSession, publicAgent } from './bsky'
+import { listAllBacklinks } from './constellation'
+
+export const VOTE_COLLECTION = 'app.artsky.consensus.vote'
+const VOTE_PATH = '.statement'
+const CACHE_TTL_MS = 60 * 1000
+/** How many vote records to fetch in parallel. */
+const FETCH_BATCH = 10
+
+export type StatementVote = {
+  did: string
+  uri: string
+  value: -1 | 0 | 1
+  createdAt: string
+}
+
+type Cached = { votes: StatementVote[]; at: number }
+
+const cache = new Map<string, Cached>()
+const inFlight = new Map<string, Promise<StatementVote[]>>()
+
+/** Keep one vote per DID: the most recent by createdAt (ties broken by record URI). */
+export function latestVotePerDid(votes: StatementVote[]): StatementVote[] {
+  const byDid = new Map<string, StatementVote>()
+  for (const v of votes) {
+    const prev = byDid.get(v.did)
+    if (
+      !prev ||
+      v.createdAt > prev.createdAt ||
+      (v.createdAt === prev.createdAt && v.uri > prev.uri)
+    ) {
+      byDid.set(v.did, v)
+    }
+  }
+  return [...byDid.values()]
+}
+
+async function fetchStatementVotes(statementUri: string): Promise<StatementVote[]> {
+  const links = await listAllBacklinks({
+    target: statementUri,
+    collection: VOTE_COLLECTION,
+    path: VOTE_PATH,
+  })
+  const client = getSession() ? agent : publicAgent
+  const votes: StatementVote[] = []
+  for (let i = 0; i < links.length; i += FETCH_BATCH) {
+    const batch = links.slice(i, i + FETCH_BATCH)
+    const results = await Promise.all(
+      batch.map(async (link) => {
+        try {
+          const res = await client.com.atproto.repo.getRecord({
+            repo: link.did,
+            collection: link.collection,
+            rkey: link.rkey,
+          })
+          const v = res.data.value as { statement?: string; value?: number; createdAt?: string }
+          if (v.statement !== statementUri || typeof v.value !== 'number') return null
+          return {
+            did: link.did,
+            uri: res.data.uri,
+            value: Math.sign(v.value) as -1 | 0 | 1,
+            createdAt: v.createdAt ?? '',
+          }
+        } catch {
+          return null
+        }
+      })
+    )
+    for (const r of results) if (r) votes.push(r)
+  }
+  return latestVotePerDid(votes)
+}
+
+/** All participants' votes on a statement (latest per DID). Returns [] if the backlink index is unavailable. */
+export async function listStatementVotes(
+  statementUri: string,
+  opts?: { force?: boolean }
+): Promise<StatementVote[]> {
+  const cached = cache.get(statementUri)
+  if (!opts?.force && cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.votes
+  const existing = inFlight.get(statementUri)
+  if (existing) return existing
+
+  const p = fetchStatementVotes(statementUri)
+    .then((votes) => {
+      cache.set(statementUri, { votes, at: Date.now() })
+      return votes
+    })
+    .catch(() => cached?.votes ?? [])
+    .finally(() => {
+      inFlight.delete(statementUri)
+    })
+  inFlight.set(statementUri, p)
+  return p
+}
+
+/** Votes for several statements, keyed by statement URI. */
+export async function listVotesForStatements(
+  statementUris: string[],
+  opts?: { force?: boolean }
+): Promise<Record<string, StatementVote[]>> {
+  const unique = [...new Set(statementUris.filter(Boolean))]
+  const results = await Promise.all(
+    unique.map(async (uri) => ({ uri, votes: await listStatementVotes(uri, opts) }))
+  )
+  const out: Record<string, StatementVote[]> = {}
+  for (const { uri, votes } of results) out[uri] = votes
+  return out
+}
+
+/** Drop the cached votes for a statement (e.g. after the viewer votes). */
+export function invalidateStatementVotes(statementUri: string): void {
+  cache.delete(statementUri)
+}
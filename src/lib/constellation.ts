@@ -1,5 +1,5 @@
 /**
- * Microcosm Constellation API – Downvote counts for AT Protocol
+ * Microcosm Constellation API – Downvote counts and backlinks for AT Protocol
  *
  * @see https://constellation.microcosm.blue/
  */
@@ -38,3 +38,122 @@ export async function getDownvoteCounts(postUris: string[]): Promise<Record<stri
   for (const { uri, count } of results) out[uri] = count
   return out
 }
+
+// ── Backlinks (links API) ────────────────────────────────────────────────
+
+/** A record that links to a target, as reported by the backlink index. */
+export type BacklinkRecord = { did: string; collection: string; rkey: string }
+
+export type BacklinkQuery = {
+  /** AT-URI (or DID) being linked to. */
+  target: string
+  /** Collection of the linking records, e.g. app.artsky.consensus.vote */
+  collection: string
+  /** JSON path of the link inside the linking record, e.g. .statement */
+  path: string
+}
+
+/** Anything that can answer "which records link to this target?" one page at a time. */
+export interface BacklinkSource {
+  listLinks(
+    query: BacklinkQuery,
+    opts?: { cursor?: string; limit?: number }
+  ): Promise<{ records: BacklinkRecord[]; cursor?: string }>
+}
+
+const BACKLINK_PAGE_SIZE = 100
+
+/** Constellation-backed backlink source. Throws when the index is unreachable. */
+export const constellationBacklinks: BacklinkSource = {
+  async listLinks(query, opts) {
+    const params = new URLSearchParams({
+      target: query.target,
+      collection: query.collection,
+      path: query.path,
+      limit: String(opts?.limit ?? BACKLINK_PAGE_SIZE),
+    })
+    if (opts?.cursor) params.set('cursor', opts.cursor)
+    const res = await fetch(`${CONSTELLATION_BASE}/links?${params}`, {
+      headers: { Accept: 'application/json' },
+    })
+    if (!res.ok) throw new Error(`Backlink index returned ${res.status}`)
+    const data = (await res.json()) as {
+      linking_records?: BacklinkRecord[]
+      cursor?: string | null
+    }
+    return { records: data.linking_records ?? [], cursor: data.cursor ?? undefined }
+  },
+}
+
+/**
+ * In-memory backlink index with the same shape as Constellation. Use as a local
+ * stand-in (tests, offline dev) via setBacklinkSource().
+ */
+export function createLocalBacklinkSource(): BacklinkSource & {
+  add(query: BacklinkQuery, record: BacklinkRecord): void
+  remove(record: BacklinkRecord): void
+} {
+  const links = new Map<string, BacklinkRecord[]>()
+  const keyOf = (q: BacklinkQuery) => `${q.target}|${q.collection}|${q.path}`
+  return {
+    add(query, record) {
+      const list = links.get(keyOf(query)) ?? []
+      if (!list.some((r) => r.did === record.did && r.rkey === record.rkey && r.collection === record.collection)) {
+        list.push(record)
+      }
+      links.set(keyOf(query), list)
+    },
+    remove(record) {
+      for (const [key, list] of links) {
+        links.set(
+          key,
+          list.filter((r) => !(r.did === record.did && r.rkey === record.rkey && r.collection === record.collection))
+        )
+      }
+    },
+    async listLinks(query, opts) {
+      const list = links.get(keyOf(query)) ?? []
+      const start = opts?.cursor ? Number(opts.cursor) : 0
+      const end = start + (opts?.limit ?? BACKLINK_PAGE_SIZE)
+      return {
+        records: list.slice(start, end),
+        cursor: end < list.length ? String(end) : undefined,
+      }
+    },
+  }
+}
+
+let backlinkSource: BacklinkSource = constellationBacklinks
+
+/** Swap the backlink source (e.g. a local stand-in). Pass null to restore Constellation. */
+export function setBacklinkSource(source: BacklinkSource | null): void {
+  backlinkSource = source ?? constellationBacklinks
+}
+
+export function getBacklinkSource(): BacklinkSource {
+  return backlinkSource
+}
+
+/**
+ * Page through every record linking to the target, following the cursor to the end.
+ * Stops early only if the index repeats a cursor, which would otherwise page forever.
+ * Throws if the index is unavailable.
+ */
+export async function listAllBacklinks(query: BacklinkQuery): Promise<BacklinkRecord[]> {
+  const out: BacklinkRecord[] = []
+  const seen = new Set<string>()
+  const cursors = new Set<string>()
+  let cursor: string | undefined
+  do {
+    const page = await backlinkSource.listLinks(query, { cursor, limit: BACKLINK_PAGE_SIZE })
+    for (const r of page.records) {
+      const key = `${r.did}/${r.collection}/${r.rkey}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      out.push(r)
+    }
+    if (cursor) cursors.add(cursor)
+    cursor = page.cursor && !cursors.has(page.cursor) ? page.cursor : undefined
+  } while (cursor)
+  return out
+}
@@ -0,0 +1,93 @@
+/**
+ * Line-level text diff (longest common subsequence), for wiki revisions and
+ * edited replies.
+ */
+
+export type DiffLine = {
+  type: 'same' | 'add' | 'remove'
+  text: string
+  /** 1-based line in the old text (same / remove) */
+  oldLine?: number
+  /** 1-based line in the new text (same / add) */
+  newLine?: number
+}
+
+export type DiffStats = { added: number; removed: number }
+
+/**
+ * Largest changed region (old lines × new lines) compared line by line. Beyond it the
+ * region is shown as removed then added, which is still correct, just not minimal.
+ */
+const MAX_LCS_CELLS = 4_000_000
+
+function splitLines(text: string): string[] {
+  return text ? text.replace(/\r\n?/g, '\n').split('\n') : []
+}
+
+/** Lines of `before` and `after` in order, each marked same, added or removed. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before)
+  const b = splitLines(after)
+
+  // Common prefix and suffix don't need the LCS table.
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const out: DiffLine[] = []
+  for (let i = 0; i < start; i++) out.push({ type: 'same', text: a[i], oldLine: i + 1, newLine: i + 1 })
+
+  const n = endA - start
+  const m = endB - start
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) out.push({ type: 'remove', text: a[i], oldLine: i + 1 })
+    for (let j = start; j < endB; j++) out.push({ type: 'add', text: b[j], newLine: j + 1 })
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+    const lcs = new Uint32Array((n + 1) * (m + 1))
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          a[start + i] === b[start + j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        out.push({ type: 'same', text: a[start + i], oldLine: start + i + 1, newLine: start + j + 1 })
+        i++
+        j++
+      } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        out.push({ type: 'remove', text: a[start + i], oldLine: start + i + 1 })
+        i++
+      } else {
+        out.push({ type: 'add', text: b[start + j], newLine: start + j + 1 })
+        j++
+      }
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) {
+    out.push({ type: 'same', text: a[endA + k], oldLine: endA + k + 1, newLine: endB + k + 1 })
+  }
+  return out
+}
+
+/** Added and removed line counts. */
+export function diffStats(lines: DiffLine[]): DiffStats {
+  let added = 0
+  let removed = 0
+  for (const l of lines) {
+    if (l.type === 'add') added++
+    else if (l.type === 'remove') removed++
+  }
+  return { added, removed }
+}
@@ -2,25 +2,73 @@
  * ArtSky Forum System – AT Protocol Lexicon for Forums
  *
  * Creates and lists forum posts (app.artsky.forum.post), threaded replies
- * (app.artsky.forum.reply), pinned posts, wiki pages, and draft posts.
+ * (app.artsky.forum.reply) with edit and delete, pinned and locked posts, wiki pages with revision history
+ * (app.artsky.forum.wiki, app.artsky.forum.wikiRevision), and draft posts.
  */
 
+import { BlobRef } from '@atproto/api'
 import { agent, getSession, parseAtUri, publicAgent } from './bsky'
-import type { ForumPost, ForumReply } from '../types'
+import { listAllBacklinks } from './constellation'
+import { blobImageUrl } from './markdown'
+import type { ForumImage, ForumImageDraft, ForumPost, ForumReply, ForumWiki, ForumWikiRevision, ForumWikiSummary } from '../types'
 
 const FORUM_POST_COLLECTION = 'app.artsky.forum.post'
 const FORUM_REPLY_COLLECTION = 'app.artsky.forum.reply'
 const FORUM_WIKI_COLLECTION = 'app.artsky.forum.wiki'
+const FORUM_WIKI_REVISION_COLLECTION = 'app.artsky.forum.wikiRevision'
+/** Most editors a wiki can list (matches the lexicon). */
+export const MAX_WIKI_EDITORS = 50
 const DRAFTS_KEY = 'artsky-forum-drafts'
+const REPLY_HISTORY_KEY = 'artsky-forum-reply-history'
+/** Previous versions kept per reply. */
+const REPLY_HISTORY_MAX = 20
+/** How many reply records to fetch in parallel. */
+const FETCH_BATCH = 10
+/** Most images on a post or reply (matches the lexicon). */
+export const FORUM_IMAGE_MAX = 4
+export const FORUM_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
 
-/** Create a new forum post. Returns the created record URI and CID. */
+type ImageRecord = { image: unknown; alt?: string }
+
+/** Upload attached images (max 4, jpeg/png/gif/webp) as blobs, each with its alt text (max 1000 chars). */
+async function uploadForumImages(drafts: ForumImageDraft[] = []): Promise<ImageRecord[]> {
+  const images = drafts.filter((d) => FORUM_IMAGE_TYPES.includes(d.file.type)).slice(0, FORUM_IMAGE_MAX)
+  return Promise.all(
+    images.map(async ({ file, alt }) => {
+      const { data } = await agent.uploadBlob(file, { encoding: file.type })
+      return { image: data.blob, alt: alt.trim().slice(0, 1000) }
+    })
+  )
+}
+
+/** Attached images of a stored record with CDN URLs; entries without a readable blob ref are skipped. */
+function readForumImages(did: string, images: ImageRecord[] | undefined): ForumImage[] | undefined {
+  const out: ForumImage[] = []
+  for (const img of images ?? []) {
+    const cid =
+      img.image instanceof BlobRef
+        ? img.image.ref.toString()
+        : (img.image as { ref?: { $link?: string } } | undefined)?.ref?.$link
+    if (cid) out.push({ url: blobImageUrl(did, cid), alt: img.alt ?? '', blob: img.image })
+  }
+  return out.length > 0 ? out : undefined
+}
+
+/** Images as stored, for rewrites of a record that keep its attachments. */
+function forumImageRecords(images: ForumImage[] | undefined): ImageRecord[] | undefined {
+  return images?.map((i) => ({ image: i.blob, alt: i.alt }))
+}
+
+/** Create a new forum post, optionally with images and their alt text. Returns the created record URI and CID. */
 export async function createForumPost(opts: {
   title: string
   body: string
   tags?: string[]
+  images?: ForumImageDraft[]
 }): Promise<{ uri: string; cid: string }> {
   const session = getSession()
   if (!session?.did) throw new Error('Not logged in')
+  const images = await uploadForumImages(opts.images)
   const rkey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
   const res = await agent.com.atproto.repo.putRecord({
     repo: session.did,
@@ -31,6 +79,7 @@ export async function createForumPost(opts: {
       title: opts.title.trim(),
       body: opts.body.trim(),
       tags: opts.tags ?? [],
+      images: images.length > 0 ? images : undefined,
       createdAt: new Date().toISOString(),
     },
     validate: false,
@@ -61,6 +110,9 @@ export async function listForumPosts(
           createdAt?: string
           isPinned?: boolean
           isWiki?: boolean
+          isLocked?: boolean
+          editedAt?: string
+          images?: ImageRecord[]
         }
         const rkey = r.uri.split('/').pop() ?? ''
         return {
@@ -74,6 +126,9 @@ export async function listForumPosts(
           createdAt: v.createdAt,
           isPinned: v.isPinned,
           isWiki: v.isWiki,
+          isLocked: v.isLocked,
+          editedAt: v.editedAt,
+          images: readForumImages(did, v.images),
         }
       }
     )
@@ -101,6 +156,9 @@ export async function getForumPost(uri: string): Promise<ForumPost | null> {
       createdAt?: string
       isPinned?: boolean
       isWiki?: boolean
+      isLocked?: boolean
+      editedAt?: string
+      images?: ImageRecord[]
     }
     let authorHandle: string | undefined
     let authorAvatar: string | undefined
@@ -123,6 +181,9 @@ export async function getForumPost(uri: string): Promise<ForumPost | null> {
       createdAt: v.createdAt,
       isPinned: v.isPinned,
       isWiki: v.isWiki,
+      isLocked: v.isLocked,
+      editedAt: v.editedAt,
+      images: readForumImages(parsed.did, v.images),
       authorHandle,
       authorAvatar,
     }
@@ -152,6 +213,8 @@ export async function editForumPost(
       createdAt: post.createdAt,
       isPinned: post.isPinned,
       isWiki: post.isWiki,
+      isLocked: post.isLocked,
+      images: forumImageRecords(post.images),
       editedAt: new Date().toISOString(),
     },
     validate: false,
@@ -189,19 +252,53 @@ export async function togglePinForumPost(uri: string, isPinned: boolean): Promis
       createdAt: post.createdAt,
       isPinned,
       isWiki: post.isWiki,
+      isLocked: post.isLocked,
+      images: forumImageRecords(post.images),
+      editedAt: post.editedAt,
+    },
+    validate: false,
+  })
+}
+
+/** Lock or unlock a thread. Locked threads take no new replies. Only the author can lock. */
+export async function toggleLockForumPost(uri: string, isLocked: boolean): Promise<void> {
+  const post = await getForumPost(uri)
+  if (!post) throw new Error('Post not found')
+  const session = getSession()
+  if (!session?.did || session.did !== post.did) throw new Error('Not authorized')
+  await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: FORUM_POST_COLLECTION,
+    rkey: post.rkey,
+    record: {
+      $type: FORUM_POST_COLLECTION,
+      title: post.title,
+      body: post.body,
+      tags: post.tags,
+      createdAt: post.createdAt,
+      isPinned: post.isPinned,
+      isWiki: post.isWiki,
+      isLocked,
+      images: forumImageRecords(post.images),
+      editedAt: post.editedAt,
     },
     validate: false,
   })
 }
 
-/** Create a reply to a forum post (or to another reply for threading). */
+/** Create a reply to a forum post (or to another reply for threading), optionally with images. */
 export async function createForumReply(opts: {
   postUri: string
   text: string
   replyToUri?: string
+  images?: ForumImageDraft[]
 }): Promise<{ uri: string; cid: string }> {
   const session = getSession()
   if (!session?.did) throw new Error('Not logged in')
+  if (!opts.text.trim() && !opts.images?.length) throw new Error('Reply text or at least one image is required')
+  const post = await getForumPost(opts.postUri)
+  if (post?.isLocked) throw new Error('This thread is locked')
+  const images = await uploadForumImages(opts.images)
   const rkey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
   const res = await agent.com.atproto.repo.putRecord({
     repo: session.did,
@@ -212,6 +309,7 @@ export async function createForumReply(opts: {
       subject: opts.postUri,
       replyTo: opts.replyToUri,
       text: opts.text.trim(),
+      images: images.length > 0 ? images : undefined,
       createdAt: new Date().toISOString(),
     },
     validate: false,
@@ -219,56 +317,124 @@ export async function createForumReply(opts: {
   return { uri: res.data.uri, cid: res.data.cid }
 }
 
-/** List replies for a forum post. Aggregates from multiple repos. */
-export async function listForumReplies(
-  postUri: string,
-  knownDids: string[] = []
-): Promise<ForumReply[]> {
-  const client = getSession() ? agent : publicAgent
-  const session = getSession()
-  const didsToCheck = [...new Set([...(session?.did ? [session.did] : []), ...knownDids])]
+type ReplyRecord = {
+  uri: string
+  cid: string
+  did: string
+  value: {
+    subject?: string
+    replyTo?: string
+    text?: string
+    images?: ImageRecord[]
+    createdAt?: string
+    editedAt?: string
+    deletedAt?: string
+  }
+}
 
-  const allReplies: ForumReply[] = []
-  const seenUris = new Set<string>()
+/** Every reply record in one repo (all pages) that answers the post. */
+async function scanRepoReplies(did: string, postUri: string): Promise<ReplyRecord[]> {
+  const client = getSession() ? agent : publicAgent
+  const out: ReplyRecord[] = []
+  let cursor: string | undefined
+  do {
+    const res = await client.com.atproto.repo.listRecords({
+      repo: did,
+      collection: FORUM_REPLY_COLLECTION,
+      limit: 100,
+      cursor,
+    })
+    for (const r of res.data.records ?? []) {
+      const value = r.value as ReplyRecord['value']
+      if (value.subject === postUri) out.push({ uri: r.uri, cid: r.cid, did, value })
+    }
+    cursor = res.data.cursor
+  } while (cursor)
+  return out
+}
 
-  for (const did of didsToCheck) {
-    try {
-      const res = await client.com.atproto.repo.listRecords({
-        repo: did,
-        collection: FORUM_REPLY_COLLECTION,
-        limit: 100,
-      })
-      for (const r of res.data.records ?? []) {
-        const v = r.value as {
-          subject?: string
-          replyTo?: string
-          text?: string
-          createdAt?: string
-        }
-        if (v.subject !== postUri || seenUris.has(r.uri)) continue
-        seenUris.add(r.uri)
-        let author = { did, handle: did } as ForumReply['author']
+/** Reply records found through the backlink index on `.subject`. Throws if the index is unavailable. */
+async function listIndexedReplies(postUri: string): Promise<ReplyRecord[]> {
+  const links = await listAllBacklinks({ target: postUri, collection: FORUM_REPLY_COLLECTION, path: '.subject' })
+  const client = getSession() ? agent : publicAgent
+  const records: ReplyRecord[] = []
+  for (let i = 0; i < links.length; i += FETCH_BATCH) {
+    const batch = await Promise.all(
+      links.slice(i, i + FETCH_BATCH).map(async (link): Promise<ReplyRecord | null> => {
         try {
-          const profile = await client.getProfile({ actor: did })
-          const d = profile.data as { handle?: string; avatar?: string; displayName?: string }
-          author = { did, handle: d.handle ?? did, avatar: d.avatar, displayName: d.displayName }
+          const res = await client.com.atproto.repo.getRecord({
+            repo: link.did,
+            collection: FORUM_REPLY_COLLECTION,
+            rkey: link.rkey,
+          })
+          const value = res.data.value as ReplyRecord['value']
+          // The index can lag behind edits; trust the record itself.
+          if (value.subject !== postUri) return null
+          return { uri: res.data.uri, cid: res.data.cid as string, did: link.did, value }
         } catch {
-          /* ignore */
+          return null
         }
-        allReplies.push({
-          uri: r.uri,
-          cid: r.cid,
-          replyTo: v.replyTo,
-          author,
-          record: { text: v.text, createdAt: v.createdAt },
-          isComment: true,
-        })
+      })
+    )
+    for (const r of batch) if (r) records.push(r)
+  }
+  return records
+}
+
+/** Profiles of forum authors (replies, wiki editors), fetched in batches of 25. */
+export async function getForumProfiles(dids: string[]): Promise<Map<string, ForumReply['author']>> {
+  const client = getSession() ? agent : publicAgent
+  const out = new Map<string, ForumReply['author']>()
+  const unique = [...new Set(dids)]
+  for (let i = 0; i < unique.length; i += 25) {
+    try {
+      const res = await client.getProfiles({ actors: unique.slice(i, i + 25) })
+      for (const p of res.data.profiles) {
+        out.set(p.did, { did: p.did, handle: p.handle ?? p.did, avatar: p.avatar, displayName: p.displayName })
       }
     } catch {
       /* ignore */
     }
   }
+  return out
+}
+
+/**
+ * List replies for a forum post, oldest first. Replies are found through the backlink
+ * index (so replies from anyone show up), plus the viewer's own repo so a reply that
+ * isn't indexed yet still appears. When the index is unavailable, falls back to
+ * scanning the viewer's and `knownDids` repos.
+ */
+export async function listForumReplies(
+  postUri: string,
+  knownDids: string[] = []
+): Promise<ForumReply[]> {
+  const session = getSession()
+  const ownRepo = session?.did ? [session.did] : []
+  let repos = ownRepo
+  let indexed: ReplyRecord[] = []
+  try {
+    indexed = await listIndexedReplies(postUri)
+  } catch {
+    repos = [...new Set([...ownRepo, ...knownDids])]
+  }
+  const scanned = await Promise.all(repos.map((did) => scanRepoReplies(did, postUri).catch(() => [])))
+
+  const byUri = new Map<string, ReplyRecord>()
+  for (const r of [...indexed, ...scanned.flat()]) byUri.set(r.uri, r)
+  const records = [...byUri.values()]
+  const authors = await getForumProfiles(records.map((r) => r.did))
 
+  const allReplies: ForumReply[] = records.map((r) => ({
+    uri: r.uri,
+    cid: r.cid,
+    replyTo: r.value.replyTo,
+    author: authors.get(r.did) ?? { did: r.did, handle: r.did },
+    record: { text: r.value.text, createdAt: r.value.createdAt, editedAt: r.value.editedAt },
+    deleted: !!r.value.deletedAt,
+    images: readForumImages(r.did, r.value.images),
+    isComment: true,
+  }))
   allReplies.sort((a, b) => {
     const ta = new Date(a.record?.createdAt ?? 0).getTime()
     const tb = new Date(b.record?.createdAt ?? 0).getTime()
@@ -277,6 +443,98 @@ export async function listForumReplies(
   return allReplies
 }
 
+async function getOwnReplyRecord(reply: ForumReply): Promise<{ did: string; rkey: string; value: ReplyRecord['value'] }> {
+  const session = getSession()
+  const parsed = parseAtUri(reply.uri)
+  if (!session?.did || !parsed || parsed.did !== session.did) throw new Error('Not authorized')
+  const res = await agent.com.atproto.repo.getRecord({
+    repo: session.did,
+    collection: FORUM_REPLY_COLLECTION,
+    rkey: parsed.rkey,
+  })
+  return { did: session.did, rkey: parsed.rkey, value: res.data.value as ReplyRecord['value'] }
+}
+
+/** Edit one of your replies. The text it replaces is kept locally (see getReplyHistory). */
+export async function editForumReply(reply: ForumReply, text: string): Promise<void> {
+  const { did, rkey, value } = await getOwnReplyRecord(reply)
+  if (value.deletedAt) throw new Error('This reply was deleted')
+  if (!text.trim() && !value.images?.length) throw new Error('Reply text or at least one image is required')
+  if (text.trim() === (value.text ?? '')) return
+  const editedAt = new Date().toISOString()
+  await agent.com.atproto.repo.putRecord({
+    repo: did,
+    collection: FORUM_REPLY_COLLECTION,
+    rkey,
+    // Spread the stored record so its thread, images and createdAt stay as they were
+    record: { ...value, $type: FORUM_REPLY_COLLECTION, text: text.trim(), editedAt },
+    validate: false,
+  })
+  addReplyVersion(reply.uri, { text: value.text ?? '', createdAt: value.editedAt ?? value.createdAt ?? editedAt })
+}
+
+/**
+ * Delete one of your replies. A reply that others answered is blanked to a "[deleted]"
+ * placeholder instead, so the replies under it keep their place in the thread.
+ */
+export async function deleteForumReply(reply: ForumReply, opts: { hasChildren: boolean }): Promise<void> {
+  const { did, rkey, value } = await getOwnReplyRecord(reply)
+  if (opts.hasChildren) {
+    await agent.com.atproto.repo.putRecord({
+      repo: did,
+      collection: FORUM_REPLY_COLLECTION,
+      rkey,
+      record: {
+        $type: FORUM_REPLY_COLLECTION,
+        subject: value.subject,
+        replyTo: value.replyTo,
+        text: '',
+        createdAt: value.createdAt,
+        deletedAt: new Date().toISOString(),
+      },
+      validate: false,
+    })
+  } else {
+    await agent.com.atproto.repo.deleteRecord({ repo: did, collection: FORUM_REPLY_COLLECTION, rkey })
+  }
+  clearReplyHistory(reply.uri)
+}
+
+export type ForumActivity = { replyCount: number; lastActivityAt: string }
+
+/** Creation time encoded in the record keys this module writes (`<base36 ms>-<random>`). */
+function rkeyTime(rkey: string): string | undefined {
+  const ms = parseInt(rkey.split('-')[0], 36)
+  // Only plausible timestamps (2020 – 2100); TIDs and other keys don't decode to one.
+  return ms > 1577836800000 && ms < 4102444800000 ? new Date(ms).toISOString() : undefined
+}
+
+/**
+ * Reply count and latest activity per post: the newest of its creation, last edit and
+ * replies. Replies come from the backlink index and are dated by their record keys, so
+ * no reply records are fetched; when the index is unavailable only the post's own times count.
+ */
+export async function getForumActivity(posts: ForumPost[]): Promise<Record<string, ForumActivity>> {
+  const out: Record<string, ForumActivity> = {}
+  for (let i = 0; i < posts.length; i += 5) {
+    await Promise.all(
+      posts.slice(i, i + 5).map(async (post) => {
+        const times = [post.createdAt ?? '', post.editedAt ?? '']
+        let replyCount = post.replyCount ?? 0
+        try {
+          const links = await listAllBacklinks({ target: post.uri, collection: FORUM_REPLY_COLLECTION, path: '.subject' })
+          replyCount = links.length
+          for (const link of links) times.push(rkeyTime(link.rkey) ?? '')
+        } catch {
+          /* index unavailable */
+        }
+        out[post.uri] = { replyCount, lastActivityAt: times.reduce((a, b) => (b > a ? b : a), '') }
+      })
+    )
+  }
+  return out
+}
+
 /** Promote a forum post to a wiki page. */
 export async function promoteToWiki(postUri: string): Promise<void> {
   const post = await getForumPost(postUri)
@@ -295,6 +553,7 @@ export async function promoteToWiki(postUri: string): Promise<void> {
       title: post.title,
       body: post.body,
       tags: post.tags,
+      editors: [],
       createdAt: new Date().toISOString(),
       lastEditedAt: new Date().toISOString(),
     },
@@ -313,11 +572,367 @@ export async function promoteToWiki(postUri: string): Promise<void> {
       createdAt: post.createdAt,
       isPinned: post.isPinned,
       isWiki: true,
+      isLocked: post.isLocked,
+      images: forumImageRecords(post.images),
+      editedAt: post.editedAt,
     },
     validate: false,
   })
 }
 
+type WikiRecord = {
+  sourcePost?: string
+  title?: string
+  body?: string
+  tags?: string[]
+  editors?: string[]
+  formerEditors?: Array<{ did?: string; removedAt?: string }>
+  createdAt?: string
+  lastEditedAt?: string
+}
+
+type WikiRevisionRecord = {
+  wiki?: string
+  parent?: string
+  title?: string
+  body?: string
+  summary?: string
+  revertOf?: string
+  createdAt?: string
+}
+
+function wikiFromRecord(uri: string, cid: string, v: WikiRecord): ForumWiki | null {
+  const parsed = parseAtUri(uri)
+  if (!parsed) return null
+  return {
+    uri,
+    cid,
+    did: parsed.did,
+    rkey: parsed.rkey,
+    sourcePost: v.sourcePost,
+    title: v.title,
+    body: v.body,
+    tags: v.tags,
+    editors: Array.isArray(v.editors) ? v.editors.filter((d) => typeof d === 'string') : [],
+    formerEditors: Array.isArray(v.formerEditors)
+      ? v.formerEditors.flatMap((e) =>
+          typeof e?.did === 'string' && typeof e.removedAt === 'string' ? [{ did: e.did, removedAt: e.removedAt }] : []
+        )
+      : [],
+    createdAt: v.createdAt,
+    lastEditedAt: v.lastEditedAt,
+  }
+}
+
+/** Get a wiki page by URI. */
+export async function getForumWiki(uri: string): Promise<ForumWiki | null> {
+  const parsed = parseAtUri(uri)
+  if (!parsed) return null
+  const client = getSession() ? agent : publicAgent
+  try {
+    const res = await client.com.atproto.repo.getRecord({
+      repo: parsed.did,
+      collection: FORUM_WIKI_COLLECTION,
+      rkey: parsed.rkey,
+    })
+    return wikiFromRecord(res.data.uri, res.data.cid as string, res.data.value as WikiRecord)
+  } catch {
+    return null
+  }
+}
+
+/** The wiki page a post was promoted to, from the post author's repo. */
+export async function getWikiForPost(post: ForumPost): Promise<ForumWiki | null> {
+  const client = getSession() ? agent : publicAgent
+  let cursor: string | undefined
+  try {
+    do {
+      const res = await client.com.atproto.repo.listRecords({
+        repo: post.did,
+        collection: FORUM_WIKI_COLLECTION,
+        limit: 100,
+        cursor,
+      })
+      for (const r of res.data.records ?? []) {
+        const v = r.value as WikiRecord
+        if (v.sourcePost === post.uri) return wikiFromRecord(r.uri, r.cid, v)
+      }
+      cursor = res.data.cursor
+    } while (cursor)
+  } catch {
+    /* ignore */
+  }
+  return null
+}
+
+/** Whether `did` may add revisions: the owner and listed editors. */
+export function canEditWiki(wiki: ForumWiki, did: string | undefined): boolean {
+  return !!did && (did === wiki.did || wiki.editors.includes(did))
+}
+
+/** Every wiki revision record in one repo (all pages, all wikis). */
+async function scanRepoWikiRevisions(did: string): Promise<ForumWikiRevision[]> {
+  const client = getSession() ? agent : publicAgent
+  const out: ForumWikiRevision[] = []
+  let cursor: string | undefined
+  try {
+    do {
+      const res = await client.com.atproto.repo.listRecords({
+        repo: did,
+        collection: FORUM_WIKI_REVISION_COLLECTION,
+        limit: 100,
+        cursor,
+      })
+      for (const r of res.data.records ?? []) {
+        const v = r.value as WikiRevisionRecord
+        if (!v.wiki || !v.createdAt) continue
+        out.push({
+          uri: r.uri,
+          did,
+          wiki: v.wiki,
+          parent: v.parent,
+          title: v.title,
+          body: v.body,
+          summary: v.summary,
+          revertOf: v.revertOf,
+          createdAt: v.createdAt,
+        })
+      }
+      cursor = res.data.cursor
+    } while (cursor)
+  } catch {
+    /* ignore */
+  }
+  return out
+}
+
+function firstWikiRevision(wiki: ForumWiki): ForumWikiRevision {
+  return { uri: wiki.uri, did: wiki.did, wiki: wiki.uri, title: wiki.title, body: wiki.body, createdAt: wiki.createdAt ?? '' }
+}
+
+/** Whether a revision counts: by the owner or a listed editor, or by a removed editor before removal. */
+function isWikiRevisionAllowed(wiki: ForumWiki, revision: ForumWikiRevision): boolean {
+  if (canEditWiki(wiki, revision.did)) return true
+  const former = wiki.formerEditors.find((e) => e.did === revision.did)
+  return !!former && revision.createdAt < former.removedAt
+}
+
+/** Repos that can hold counted revisions: the owner's, the editors' and the former editors'. */
+function wikiRevisionRepos(wiki: ForumWiki): string[] {
+  return [...new Set([wiki.did, ...wiki.editors, ...wiki.formerEditors.map((e) => e.did)])]
+}
+
+/**
+ * A wiki's counted revisions, starting with the wiki record, each after the revision it
+ * was made from. Among revisions whose parent is already placed the oldest goes first,
+ * so the last one is the newest tip. A revision whose parent isn't in the history
+ * (ignored or unreadable) is treated as made from the wiki record.
+ */
+function wikiHistory(wiki: ForumWiki, revisions: ForumWikiRevision[]): ForumWikiRevision[] {
+  const root = firstWikiRevision(wiki)
+  const pending = revisions
+    .filter((r) => r.wiki === wiki.uri && isWikiRevisionAllowed(wiki, r))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.uri.localeCompare(b.uri))
+  const known = new Set([root.uri, ...pending.map((r) => r.uri)])
+  const placed = new Set([root.uri])
+  const out = [root]
+  while (pending.length) {
+    const ready = pending.findIndex((r) => !r.parent || placed.has(r.parent) || !known.has(r.parent))
+    // A parent cycle can't be ordered by parents; fall back to time.
+    const [next] = pending.splice(ready === -1 ? 0 : ready, 1)
+    placed.add(next.uri)
+    out.push(next)
+  }
+  return out
+}
+
+/**
+ * Every revision of a wiki page in history order (see wikiHistory). The first is the
+ * wiki record itself; the rest are read from the owner's, the editors' and the former
+ * editors' repos. Revisions by anyone else, or by a former editor after removal, are left out.
+ */
+export async function listWikiRevisions(wiki: ForumWiki): Promise<ForumWikiRevision[]> {
+  const repos = wikiRevisionRepos(wiki)
+  const [scanned, authors] = await Promise.all([Promise.all(repos.map(scanRepoWikiRevisions)), getForumProfiles(repos)])
+  return wikiHistory(wiki, scanned.flat()).map((r) => ({ ...r, authorHandle: authors.get(r.did)?.handle }))
+}
+
+/**
+ * Wiki pages owned by these accounts with their current (latest) revision. Revisions
+ * are read from the owners' and their editors' repos, each repo once.
+ */
+export async function listWikiPages(dids: string[]): Promise<ForumWikiSummary[]> {
+  const client = getSession() ? agent : publicAgent
+  const wikis = (
+    await Promise.all(
+      [...new Set(dids)].map(async (did) => {
+        const out: ForumWiki[] = []
+        let cursor: string | undefined
+        try {
+          do {
+            const res = await client.com.atproto.repo.listRecords({
+              repo: did,
+              collection: FORUM_WIKI_COLLECTION,
+              limit: 100,
+              cursor,
+            })
+            for (const r of res.data.records ?? []) {
+              const wiki = wikiFromRecord(r.uri, r.cid, r.value as WikiRecord)
+              if (wiki) out.push(wiki)
+            }
+            cursor = res.data.cursor
+          } while (cursor)
+        } catch {
+          /* ignore */
+        }
+        return out
+      })
+    )
+  ).flat()
+  const repos = [...new Set(wikis.flatMap(wikiRevisionRepos))]
+  const revisions = (await Promise.all(repos.map(scanRepoWikiRevisions))).flat()
+  return wikis.map((wiki) => {
+    const history = wikiHistory(wiki, revisions)
+    const head = history[history.length - 1]
+    return {
+      wiki,
+      title: head.title ?? '',
+      body: head.body ?? '',
+      updatedAt: head.createdAt,
+      updatedBy: head.did,
+      revisionCount: history.length,
+    }
+  })
+}
+
+/** Create a standalone wiki page (not promoted from a thread) in the viewer's repo. Returns its URI. */
+export async function createWikiPage(opts: { title: string; body: string }): Promise<string> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  if (!opts.title.trim()) throw new Error('A wiki page needs a title')
+  const rkey = `wiki-${Date.now().toString(36)}`
+  const now = new Date().toISOString()
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: FORUM_WIKI_COLLECTION,
+    rkey,
+    record: {
+      $type: FORUM_WIKI_COLLECTION,
+      title: opts.title.trim(),
+      body: opts.body.trim(),
+      tags: [],
+      editors: [],
+      createdAt: now,
+      lastEditedAt: now,
+    },
+    validate: false,
+  })
+  return res.data.uri
+}
+
+/** Add a revision to a wiki page (in the viewer's repo). Only the owner and listed editors can. */
+export async function saveWikiRevision(
+  wiki: ForumWiki,
+  opts: { title: string; body: string; parent: string; summary?: string; revertOf?: string }
+): Promise<ForumWikiRevision> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  if (!canEditWiki(wiki, session.did)) throw new Error('You are not an editor of this wiki page')
+  const rkey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  const record = {
+    $type: FORUM_WIKI_REVISION_COLLECTION,
+    wiki: wiki.uri,
+    parent: opts.parent,
+    title: opts.title.trim(),
+    body: opts.body.trim(),
+    summary: opts.summary?.trim() || undefined,
+    revertOf: opts.revertOf,
+    createdAt: new Date().toISOString(),
+  }
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: FORUM_WIKI_REVISION_COLLECTION,
+    rkey,
+    record,
+    validate: false,
+  })
+  return { ...record, uri: res.data.uri, did: session.did }
+}
+
+/** Restore an older revision's content as a new revision on top of `head`. */
+export async function revertWikiRevision(
+  wiki: ForumWiki,
+  target: ForumWikiRevision,
+  head: ForumWikiRevision
+): Promise<ForumWikiRevision> {
+  return saveWikiRevision(wiki, {
+    title: target.title ?? '',
+    body: target.body ?? '',
+    parent: head.uri,
+    summary: `Revert to revision from ${target.createdAt}`,
+    revertOf: target.uri,
+  })
+}
+
+/** Replace the wiki's editor lists. Only the owner can. */
+async function writeWikiEditors(
+  wiki: ForumWiki,
+  editors: string[],
+  formerEditors: ForumWiki['formerEditors']
+): Promise<ForumWiki> {
+  const session = getSession()
+  if (!session?.did || session.did !== wiki.did) throw new Error('Only the wiki owner can change editors')
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: FORUM_WIKI_COLLECTION,
+    rkey: wiki.rkey,
+    record: {
+      $type: FORUM_WIKI_COLLECTION,
+      sourcePost: wiki.sourcePost,
+      title: wiki.title,
+      body: wiki.body,
+      tags: wiki.tags,
+      editors,
+      formerEditors,
+      createdAt: wiki.createdAt,
+      lastEditedAt: wiki.lastEditedAt,
+    },
+    validate: false,
+  })
+  return { ...wiki, cid: res.data.cid, editors, formerEditors }
+}
+
+/** Allow another account (handle or DID) to edit the wiki. */
+export async function addWikiEditor(wiki: ForumWiki, handleOrDid: string): Promise<ForumWiki> {
+  const input = handleOrDid.trim().replace(/^@/, '')
+  if (!input) throw new Error('Enter a handle')
+  let did = input
+  if (!input.startsWith('did:')) {
+    try {
+      did = (await publicAgent.resolveHandle({ handle: input })).data.did
+    } catch {
+      throw new Error('Could not find that profile')
+    }
+  }
+  if (did === wiki.did || wiki.editors.includes(did)) return wiki
+  if (wiki.editors.length >= MAX_WIKI_EDITORS) throw new Error(`A wiki can have at most ${MAX_WIKI_EDITORS} editors`)
+  return writeWikiEditors(
+    wiki,
+    [...wiki.editors, did],
+    wiki.formerEditors.filter((e) => e.did !== did)
+  )
+}
+
+/** Stop an account from editing the wiki. Its past revisions stay; later ones are ignored. */
+export async function removeWikiEditor(wiki: ForumWiki, did: string): Promise<ForumWiki> {
+  if (!wiki.editors.includes(did)) return wiki
+  return writeWikiEditors(
+    wiki,
+    wiki.editors.filter((d) => d !== did),
+    [...wiki.formerEditors.filter((e) => e.did !== did), { did, removedAt: new Date().toISOString() }]
+  )
+}
+
 export interface ForumDraft {
   id: string
   title: string
@@ -353,6 +968,48 @@ export function getDrafts(): ForumDraft[] {
   }
 }
 
+/** A previous version of one of your replies, kept locally when you edit it. */
+export interface ForumReplyVersion {
+  text: string
+  /** When this version was written */
+  createdAt: string
+}
+
+function readReplyHistory(): Record<string, ForumReplyVersion[]> {
+  try {
+    const raw = localStorage.getItem(REPLY_HISTORY_KEY)
+    return raw ? JSON.parse(raw) : {}
+  } catch {
+    return {}
+  }
+}
+
+function writeReplyHistory(history: Record<string, ForumReplyVersion[]>): void {
+  try {
+    localStorage.setItem(REPLY_HISTORY_KEY, JSON.stringify(history))
+  } catch {
+    /* ignore */
+  }
+}
+
+function addReplyVersion(replyUri: string, version: ForumReplyVersion): void {
+  const history = readReplyHistory()
+  history[replyUri] = [...(history[replyUri] ?? []), version].slice(-REPLY_HISTORY_MAX)
+  writeReplyHistory(history)
+}
+
+function clearReplyHistory(replyUri: string): void {
+  const history = readReplyHistory()
+  if (!(replyUri in history)) return
+  delete history[replyUri]
+  writeReplyHistory(history)
+}
+
+/** Previous versions of a reply edited on this device, oldest first. */
+export function getReplyHistory(replyUri: string): ForumReplyVersion[] {
+  return readReplyHistory()[replyUri] ?? []
+}
+
 /** Delete a draft by ID. */
 export function deleteDraft(id: string): void {
   const drafts = getDrafts().filter((d) => d.id !== id)
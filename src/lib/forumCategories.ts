@@ -0,0 +1,139 @@
+/**
+ * Forum categories: the configured set (config/forumCategories) plus the viewer's
+ * app.artsky.forum.category records. A post is in a category when it carries one of
+ * the category's tags; a category without tags holds every post.
+ */
+
+import { agent, getSession, parseAtUri, publicAgent } from './bsky'
+import { FORUM_CATEGORIES } from '../config/forumCategories'
+import type { ForumActivity } from './forum'
+import type { ForumCategory, ForumPost } from '../types'
+
+const FORUM_CATEGORY_COLLECTION = 'app.artsky.forum.category'
+/** Most tags a category can list (matches the lexicon). */
+export const MAX_CATEGORY_TAGS = 20
+
+type CategoryRecord = { name?: string; description?: string; tags?: string[] }
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase()
+}
+
+/** In-app route of a category. */
+export function forumCategoryHref(category: ForumCategory): string {
+  return `/forum/category?id=${encodeURIComponent(category.id)}`
+}
+
+function categoryFromRecord(uri: string, v: CategoryRecord): ForumCategory | null {
+  const parsed = parseAtUri(uri)
+  if (!parsed || !v.name) return null
+  return {
+    id: uri,
+    name: v.name,
+    description: v.description,
+    tags: (v.tags ?? []).map(normalizeTag).filter(Boolean),
+    did: parsed.did,
+  }
+}
+
+/** Configured categories, then the viewer's own. */
+export async function listForumCategories(): Promise<ForumCategory[]> {
+  const session = getSession()
+  if (!session?.did) return FORUM_CATEGORIES
+  const own: ForumCategory[] = []
+  try {
+    let cursor: string | undefined
+    do {
+      const res = await agent.com.atproto.repo.listRecords({
+        repo: session.did,
+        collection: FORUM_CATEGORY_COLLECTION,
+        limit: 100,
+        cursor,
+      })
+      for (const r of res.data.records ?? []) {
+        const category = categoryFromRecord(r.uri, r.value as CategoryRecord)
+        if (category) own.push(category)
+      }
+      cursor = res.data.cursor
+    } while (cursor)
+  } catch {
+    /* ignore */
+  }
+  return [...FORUM_CATEGORIES, ...own]
+}
+
+/** A category by config id or record URI. */
+export async function getForumCategory(id: string): Promise<ForumCategory | null> {
+  const configured = FORUM_CATEGORIES.find((c) => c.id === id)
+  if (configured) return configured
+  const parsed = parseAtUri(id)
+  if (!parsed || parsed.collection !== FORUM_CATEGORY_COLLECTION) return null
+  const client = getSession() ? agent : publicAgent
+  try {
+    const res = await client.com.atproto.repo.getRecord({
+      repo: parsed.did,
+      collection: FORUM_CATEGORY_COLLECTION,
+      rkey: parsed.rkey,
+    })
+    return categoryFromRecord(res.data.uri, res.data.value as CategoryRecord)
+  } catch {
+    return null
+  }
+}
+
+/** Create a category in the viewer's repo. */
+export async function createForumCategory(opts: { name: string; description?: string; tags: string[] }): Promise<ForumCategory> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const name = opts.name.trim()
+  if (!name) throw new Error('A category needs a name')
+  const tags = [...new Set(opts.tags.map(normalizeTag).filter(Boolean))]
+  if (tags.length > MAX_CATEGORY_TAGS) throw new Error(`A category can have at most ${MAX_CATEGORY_TAGS} tags`)
+  const rkey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: FORUM_CATEGORY_COLLECTION,
+    rkey,
+    record: {
+      $type: FORUM_CATEGORY_COLLECTION,
+      name,
+      description: opts.description?.trim() || undefined,
+      tags,
+      createdAt: new Date().toISOString(),
+    },
+    validate: false,
+  })
+  return { id: res.data.uri, name, description: opts.description?.trim() || undefined, tags, did: session.did }
+}
+
+/** Delete one of the viewer's categories. Posts keep their tags. */
+export async function deleteForumCategory(category: ForumCategory): Promise<void> {
+  const session = getSession()
+  const parsed = parseAtUri(category.id)
+  if (!session?.did || !parsed || parsed.did !== session.did) throw new Error('Not authorized')
+  await agent.com.atproto.repo.deleteRecord({
+    repo: session.did,
+    collection: FORUM_CATEGORY_COLLECTION,
+    rkey: parsed.rkey,
+  })
+}
+
+export function postInCategory(post: ForumPost, category: ForumCategory): boolean {
+  if (category.tags.length === 0) return true
+  return (post.tags ?? []).some((t) => category.tags.includes(normalizeTag(t)))
+}
+
+/** Pinned posts first, then by latest activity (newest first). */
+export function sortCategoryPosts(posts: ForumPost[], activity: Record<string, ForumActivity>): ForumPost[] {
+  const lastActivity = (p: ForumPost) => activity[p.uri]?.lastActivityAt ?? p.editedAt ?? p.createdAt ?? ''
+  return [...posts].sort((a, b) => Number(!!b.isPinned) - Number(!!a.isPinned) || lastActivity(b).localeCompare(lastActivity(a)))
+}
+
+/** Tags used by these posts with how many posts carry each, most used first. */
+export function tagCounts(posts: ForumPost[]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, number>()
+  for (const p of posts) {
+    for (const tag of new Set((p.tags ?? []).map(normalizeTag).filter(Boolean))) counts.set(tag, (counts.get(tag) ?? 0) + 1)
+  }
+  return [...counts].map(([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
@@ -0,0 +1,209 @@
+/**
+ * Forum moderation. Thread locks are a flag on the post (see toggleLockForumPost).
+ * Thread authors hide replies in their thread with app.artsky.forum.replyHide
+ * records in their own repo. Community moderators are listed in an
+ * app.artsky.forum.moderators record (the viewer's own or a configured account's,
+ * config/forumModeration); the owner and listed accounts hide posts and replies
+ * with app.artsky.forum.modHide records in their own repos. Deleting a hide
+ * record unhides. Only hides by the thread author or a trusted moderator count.
+ */
+
+import { agent, getSession, parseAtUri, publicAgent } from './bsky'
+import { FORUM_MODERATION_ACCOUNTS } from '../config/forumModeration'
+import type { ForumHide, ForumModeratorList, ForumPost } from '../types'
+
+const FORUM_MODERATORS_COLLECTION = 'app.artsky.forum.moderators'
+const FORUM_MOD_HIDE_COLLECTION = 'app.artsky.forum.modHide'
+const FORUM_REPLY_HIDE_COLLECTION = 'app.artsky.forum.replyHide'
+/** Most accounts a moderator list can hold (matches the lexicon). */
+export const MAX_FORUM_MODERATORS = 50
+
+/** Trusted moderator lists, the accounts they make moderators and the hides in effect, by subject URI. */
+export type ForumModeration = {
+  lists: ForumModeratorList[]
+  moderators: string[]
+  hidden: Map<string, ForumHide>
+}
+
+type ModeratorsRecord = { name?: string; moderators?: string[] }
+type ModHideRecord = { subject?: string; reason?: string; createdAt?: string }
+type ReplyHideRecord = { thread?: string; reply?: string; reason?: string; createdAt?: string }
+
+async function resolveAccount(handleOrDid: string): Promise<string | null> {
+  const input = handleOrDid.trim().replace(/^@/, '')
+  if (!input) return null
+  if (input.startsWith('did:')) return input
+  try {
+    return (await publicAgent.resolveHandle({ handle: input })).data.did
+  } catch {
+    return null
+  }
+}
+
+/** An account's moderator list, or null when it has none. */
+export async function getModeratorList(did: string): Promise<ForumModeratorList | null> {
+  const client = getSession() ? agent : publicAgent
+  try {
+    const res = await client.com.atproto.repo.getRecord({
+      repo: did,
+      collection: FORUM_MODERATORS_COLLECTION,
+      rkey: 'self',
+    })
+    const v = res.data.value as ModeratorsRecord
+    return { uri: res.data.uri, did, name: v.name, moderators: v.moderators ?? [] }
+  } catch {
+    return null
+  }
+}
+
+/** Moderator lists of the configured accounts and the viewer. */
+export async function listTrustedModeratorLists(): Promise<ForumModeratorList[]> {
+  const configured = await Promise.all(FORUM_MODERATION_ACCOUNTS.map(resolveAccount))
+  const viewer = getSession()?.did
+  const dids = [...new Set([...configured, viewer].filter((d): d is string => !!d))]
+  const lists = await Promise.all(dids.map(getModeratorList))
+  return lists.filter((l): l is ForumModeratorList => l !== null)
+}
+
+/** Create or replace the viewer's moderator list. Accepts handles or DIDs. */
+export async function saveModeratorList(opts: { name?: string; moderators: string[] }): Promise<ForumModeratorList> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const resolved = await Promise.all(
+    opts.moderators.map(async (m) => {
+      const did = await resolveAccount(m)
+      if (!did) throw new Error(`Could not find ${m.trim()}`)
+      return did
+    })
+  )
+  const moderators = [...new Set(resolved)].filter((d) => d !== session.did)
+  if (moderators.length > MAX_FORUM_MODERATORS) throw new Error(`A moderator list can have at most ${MAX_FORUM_MODERATORS} accounts`)
+  const name = opts.name?.trim() || undefined
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: FORUM_MODERATORS_COLLECTION,
+    rkey: 'self',
+    record: {
+      $type: FORUM_MODERATORS_COLLECTION,
+      name,
+      moderators,
+      createdAt: new Date().toISOString(),
+    },
+    validate: false,
+  })
+  return { uri: res.data.uri, did: session.did, name, moderators }
+}
+
+/** Every record in one collection of a repo (all pages). Empty when the repo can't be read. */
+async function scanRepo<T>(did: string, collection: string): Promise<Array<{ uri: string; value: T }>> {
+  const client = getSession() ? agent : publicAgent
+  const out: Array<{ uri: string; value: T }> = []
+  try {
+    let cursor: string | undefined
+    do {
+      const res = await client.com.atproto.repo.listRecords({ repo: did, collection, limit: 100, cursor })
+      for (const r of res.data.records ?? []) out.push({ uri: r.uri, value: r.value as T })
+      cursor = res.data.cursor
+    } while (cursor)
+  } catch {
+    /* ignore */
+  }
+  return out
+}
+
+/**
+ * The trusted moderators and what they hid. With a thread, also the replies its
+ * author hid; a moderator's hide wins over the author's for the same reply.
+ */
+export async function getForumModeration(thread?: ForumPost): Promise<ForumModeration> {
+  const lists = await listTrustedModeratorLists()
+  const moderators = [...new Set(lists.flatMap((l) => [l.did, ...l.moderators]))]
+  const hidden = new Map<string, ForumHide>()
+
+  if (thread) {
+    for (const r of await scanRepo<ReplyHideRecord>(thread.did, FORUM_REPLY_HIDE_COLLECTION)) {
+      if (r.value.thread !== thread.uri || !r.value.reply) continue
+      hidden.set(r.value.reply, {
+        uri: r.uri,
+        subject: r.value.reply,
+        did: thread.did,
+        byThreadAuthor: true,
+        reason: r.value.reason,
+        createdAt: r.value.createdAt,
+      })
+    }
+  }
+
+  const modHides = await Promise.all(moderators.map((did) => scanRepo<ModHideRecord>(did, FORUM_MOD_HIDE_COLLECTION)))
+  moderators.forEach((did, i) => {
+    for (const r of modHides[i]) {
+      if (!r.value.subject) continue
+      hidden.set(r.value.subject, {
+        uri: r.uri,
+        subject: r.value.subject,
+        did,
+        byThreadAuthor: false,
+        reason: r.value.reason,
+        createdAt: r.value.createdAt,
+      })
+    }
+  })
+
+  return { lists, moderators, hidden }
+}
+
+export function isForumModerator(moderation: ForumModeration, did: string | undefined): boolean {
+  return !!did && moderation.moderators.includes(did)
+}
+
+function newRkey(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/** Hide a post or reply as a moderator. Only counts while the viewer is on a trusted moderator list. */
+export async function hideForumItem(subject: string, reason?: string): Promise<ForumHide> {
+  const session = getSession()
+  if (!session?.did) throw new Error('Not logged in')
+  const createdAt = new Date().toISOString()
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: FORUM_MOD_HIDE_COLLECTION,
+    rkey: newRkey(),
+    record: { $type: FORUM_MOD_HIDE_COLLECTION, subject, reason: reason?.trim() || undefined, createdAt },
+    validate: false,
+  })
+  return { uri: res.data.uri, subject, did: session.did, byThreadAuthor: false, reason: reason?.trim() || undefined, createdAt }
+}
+
+/** Hide a reply in your own thread. */
+export async function hideThreadReply(thread: ForumPost, replyUri: string, reason?: string): Promise<ForumHide> {
+  const session = getSession()
+  if (!session?.did || session.did !== thread.did) throw new Error('Only the thread author can hide replies')
+  const createdAt = new Date().toISOString()
+  const res = await agent.com.atproto.repo.putRecord({
+    repo: session.did,
+    collection: FORUM_REPLY_HIDE_COLLECTION,
+    rkey: newRkey(),
+    record: {
+      $type: FORUM_REPLY_HIDE_COLLECTION,
+      thread: thread.uri,
+      reply: replyUri,
+      reason: reason?.trim() || undefined,
+      createdAt,
+    },
+    validate: false,
+  })
+  return { uri: res.data.uri, subject: replyUri, did: session.did, byThreadAuthor: true, reason: reason?.trim() || undefined, createdAt }
+}
+
+/** Remove one of the viewer's hides. */
+export async function unhideForumItem(hide: ForumHide): Promise<void> {
+  const session = getSession()
+  const parsed = parseAtUri(hide.uri)
+  if (!session?.did || !parsed || parsed.did !== session.did) throw new Error('Not authorized')
+  await agent.com.atproto.repo.deleteRecord({
+    repo: session.did,
+    collection: parsed.collection,
+    rkey: parsed.rkey,
+  })
+}
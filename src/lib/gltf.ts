@@ -0,0 +1,320 @@
+/**
+ * glTF 2.0 / GLB inspection: reads the JSON (and GLB binary chunk) to summarise
+ * the scene graph, meshes, vertex and triangle totals, materials, embedded
+ * textures and animation clips. Geometry is never decoded; counts come from
+ * accessor metadata.
+ */
+
+export type GltfNode = {
+  name: string
+  mesh?: string
+  camera?: boolean
+  skinned?: boolean
+  children: GltfNode[]
+}
+
+export type GltfMaterialInfo = {
+  name: string
+  baseColor?: [number, number, number, number]
+  metallic: number
+  roughness: number
+  alphaMode: string
+  doubleSided: boolean
+  textures: string[]
+}
+
+export type GltfTextureInfo = {
+  name: string
+  mimeType?: string
+  /** Embedded image bytes (GLB chunk or data: URI) */
+  data?: Uint8Array
+  /** URI of an external image that wasn't embedded */
+  uri?: string
+}
+
+export type GltfSummary = {
+  container: 'glb' | 'gltf'
+  generator?: string
+  version: string
+  extensionsUsed: string[]
+  extensionsRequired: string[]
+  scenes: Array<{ name: string; roots: GltfNode[] }>
+  defaultScene: number
+  nodeCount: number
+  meshCount: number
+  primitiveCount: number
+  vertexCount: number
+  triangleCount: number
+  materials: GltfMaterialInfo[]
+  textures: GltfTextureInfo[]
+  animations: Array<{ name: string; channels: number; duration: number }>
+}
+
+type Accessor = { count?: number; max?: number[]; bufferView?: number }
+type BufferView = { buffer?: number; byteOffset?: number; byteLength?: number }
+type Primitive = { attributes?: Record<string, number>; indices?: number; mode?: number }
+type GltfDoc = {
+  asset?: { version?: string; generator?: string }
+  extensionsUsed?: string[]
+  extensionsRequired?: string[]
+  scene?: number
+  scenes?: Array<{ name?: string; nodes?: number[] }>
+  nodes?: Array<{ name?: string; mesh?: number; camera?: number; skin?: number; children?: number[] }>
+  meshes?: Array<{ name?: string; primitives?: Primitive[] }>
+  accessors?: Accessor[]
+  bufferViews?: BufferView[]
+  buffers?: Array<{ uri?: string; byteLength?: number }>
+  materials?: Array<{
+    name?: string
+    pbrMetallicRoughness?: {
+      baseColorFactor?: [number, number, number, number]
+      metallicFactor?: number
+      roughnessFactor?: number
+      baseColorTexture?: { index: number }
+      metallicRoughnessTexture?: { index: number }
+    }
+    normalTexture?: { index: number }
+    occlusionTexture?: { index: number }
+    emissiveTexture?: { index: number }
+    alphaMode?: string
+    doubleSided?: boolean
+  }>
+  textures?: Array<{ name?: string; source?: number }>
+  images?: Array<{ name?: string; uri?: string; mimeType?: string; bufferView?: number }>
+  animations?: Array<{ name?: string; channels?: unknown[]; samplers?: Array<{ input?: number }> }>
+}
+
+const GLB_MAGIC = 0x46546c67 // "glTF"
+const CHUNK_JSON = 0x4e4f534a
+const CHUNK_BIN = 0x004e4942
+
+/** Primitive modes (glTF spec): 4 triangles, 5 triangle strip, 6 triangle fan. */
+const MODE_TRIANGLES = 4
+const MODE_TRIANGLE_STRIP = 5
+const MODE_TRIANGLE_FAN = 6
+
+function decodeDataUri(uri: string): { data: Uint8Array; mimeType?: string } | null {
+  const m = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(uri)
+  if (!m) return null
+  if (m[2]) {
+    const bin = atob(m[3])
+    const data = new Uint8Array(bin.length)
+    for (let i = 0; i < bin.length; i++) data[i] = bin.charCodeAt(i)
+    return { data, mimeType: m[1] || undefined }
+  }
+  return { data: new TextEncoder().encode(decodeURIComponent(m[3])), mimeType: m[1] || undefined }
+}
+
+function splitGlb(buffer: ArrayBuffer): { json: GltfDoc; bin?: Uint8Array } {
+  const view = new DataView(buffer)
+  const version = view.getUint32(4, true)
+  if (version !== 2) throw new Error(`Unsupported GLB version ${version} (only glTF 2.0 is supported)`)
+  const length = Math.min(view.getUint32(8, true), buffer.byteLength)
+  let offset = 12
+  let json: GltfDoc | null = null
+  let bin: Uint8Array | undefined
+  while (offset + 8 <= length) {
+    const chunkLength = view.getUint32(offset, true)
+    const chunkType = view.getUint32(offset + 4, true)
+    const start = offset + 8
+    if (start + chunkLength > length) throw new Error('GLB file is truncated')
+    if (chunkType === CHUNK_JSON) {
+      json = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, start, chunkLength))) as GltfDoc
+    } else if (chunkType === CHUNK_BIN && !bin) {
+      bin = new Uint8Array(buffer, start, chunkLength)
+    }
+    offset = start + chunkLength
+  }
+  if (!json) throw new Error('GLB file has no JSON chunk')
+  return { json, bin }
+}
+
+function triangleCount(mode: number, count: number): number {
+  if (mode === MODE_TRIANGLES) return Math.floor(count / 3)
+  if (mode === MODE_TRIANGLE_STRIP || mode === MODE_TRIANGLE_FAN) return Math.max(0, count - 2)
+  return 0
+}
+
+/**
+ * Summarise a .glb or .gltf file. `resolveFile` is asked for external files referenced
+ * by relative URI (images, .bin buffers holding images); when it returns null the
+ * texture is listed without a thumbnail.
+ */
+export async function parseGltf(
+  buffer: ArrayBuffer,
+  resolveFile?: (uri: string) => Promise<Uint8Array | null>
+): Promise<GltfSummary> {
+  const isGlb = buffer.byteLength >= 12 && new DataView(buffer).getUint32(0, true) === GLB_MAGIC
+  let doc: GltfDoc
+  let bin: Uint8Array | undefined
+  if (isGlb) {
+    const glb = splitGlb(buffer)
+    doc = glb.json
+    bin = glb.bin
+  } else {
+    try {
+      doc = JSON.parse(new TextDecoder().decode(buffer)) as GltfDoc
+    } catch {
+      throw new Error('Not a glTF file (neither GLB nor glTF JSON)')
+    }
+  }
+  const version = doc.asset?.version ?? ''
+  if (!version.startsWith('2.')) throw new Error(`Unsupported glTF version ${version || '(missing)'}; only 2.0 is supported`)
+
+  const accessors = doc.accessors ?? []
+  const nodes = doc.nodes ?? []
+  const meshes = doc.meshes ?? []
+  const meshName = (i: number) => meshes[i]?.name || `Mesh ${i}`
+
+  let primitiveCount = 0
+  let vertexCount = 0
+  let triangles = 0
+  for (const mesh of meshes) {
+    for (const prim of mesh.primitives ?? []) {
+      primitiveCount++
+      const positions = accessors[prim.attributes?.POSITION ?? -1]?.count ?? 0
+      vertexCount += positions
+      const indexCount = prim.indices !== undefined ? accessors[prim.indices]?.count ?? 0 : positions
+      triangles += triangleCount(prim.mode ?? MODE_TRIANGLES, indexCount)
+    }
+  }
+
+  // Scene graph. Guard against cycles in malformed files.
+  const buildNode = (index: number, seen: Set<number>): GltfNode => {
+    const n = nodes[index] ?? {}
+    const next = new Set(seen).add(index)
+    return {
+      name: n.name || `Node ${index}`,
+      mesh: n.mesh !== undefined ? meshName(n.mesh) : undefined,
+      camera: n.camera !== undefined || undefined,
+      skinned: n.skin !== undefined || undefined,
+      children: (n.children ?? []).filter((c) => !next.has(c)).map((c) => buildNode(c, next)),
+    }
+  }
+  const scenes = (doc.scenes ?? []).map((s, i) => ({
+    name: s.name || `Scene ${i}`,
+    roots: (s.nodes ?? []).map((n) => buildNode(n, new Set())),
+  }))
+
+  // Images: GLB buffer views, data: URIs, or external files.
+  const bufferViews = doc.bufferViews ?? []
+  const loadedBuffers = new Map<number, Promise<Uint8Array | null>>()
+  const bufferBytes = (bufferIndex: number): Promise<Uint8Array | null> => {
+    if (isGlb && bufferIndex === 0 && bin && !doc.buffers?.[0]?.uri) return Promise.resolve(bin)
+    const uri = doc.buffers?.[bufferIndex]?.uri
+    if (!uri) return Promise.resolve(null)
+    if (uri.startsWith('data:')) return Promise.resolve(decodeDataUri(uri)?.data ?? null)
+    let loaded = loadedBuffers.get(bufferIndex)
+    if (!loaded) {
+      loaded = resolveFile ? resolveFile(uri) : Promise.resolve(null)
+      loadedBuffers.set(bufferIndex, loaded)
+    }
+    return loaded
+  }
+  const textures: GltfTextureInfo[] = []
+  const images = doc.images ?? []
+  for (let i = 0; i < images.length; i++) {
+    const img = images[i]
+    const name = img.name || img.uri?.split('/').pop() || `Image ${i}`
+    let data: Uint8Array | undefined
+    let mimeType = img.mimeType
+    if (img.bufferView !== undefined) {
+      const bv = bufferViews[img.bufferView]
+      const source = bv ? await bufferBytes(bv.buffer ?? 0) : null
+      if (source && bv) data = source.subarray(bv.byteOffset ?? 0, (bv.byteOffset ?? 0) + (bv.byteLength ?? 0))
+    } else if (img.uri?.startsWith('data:')) {
+      const decoded = decodeDataUri(img.uri)
+      data = decoded?.data
+      mimeType = mimeType ?? decoded?.mimeType
+    } else if (img.uri && resolveFile) {
+      data = (await resolveFile(img.uri)) ?? undefined
+    }
+    textures.push({ name, mimeType, data, uri: data ? undefined : img.uri })
+  }
+
+  const textureName = (index: number) => {
+    const source = doc.textures?.[index]?.source
+    return (source !== undefined ? textures[source]?.name : undefined) ?? doc.textures?.[index]?.name ?? `Texture ${index}`
+  }
+  const materials: GltfMaterialInfo[] = (doc.materials ?? []).map((m, i) => {
+    const pbr = m.pbrMetallicRoughness ?? {}
+    const slots: Array<[string, { index: number } | undefined]> = [
+      ['base color', pbr.baseColorTexture],
+      ['metallic/roughness', pbr.metallicRoughnessTexture],
+      ['normal', m.normalTexture],
+      ['occlusion', m.occlusionTexture],
+      ['emissive', m.emissiveTexture],
+    ]
+    return {
+      name: m.name || `Material ${i}`,
+      baseColor: pbr.baseColorFactor,
+      metallic: pbr.metallicFactor ?? 1,
+      roughness: pbr.roughnessFactor ?? 1,
+      alphaMode: m.alphaMode ?? 'OPAQUE',
+      doubleSided: !!m.doubleSided,
+      textures: slots.filter(([, t]) => t !== undefined).map(([slot, t]) => `${slot}: ${textureName(t?.index ?? 0)}`),
+    }
+  })
+
+  const animations = (doc.animations ?? []).map((a, i) => ({
+    name: a.name || `Animation ${i}`,
+    channels: a.channels?.length ?? 0,
+    duration: Math.max(0, ...(a.samplers ?? []).map((s) => accessors[s.input ?? -1]?.max?.[0] ?? 0)),
+  }))
+
+  return {
+    container: isGlb ? 'glb' : 'gltf',
+    generator: doc.asset?.generator,
+    version,
+    extensionsUsed: doc.extensionsUsed ?? [],
+    extensionsRequired: doc.extensionsRequired ?? [],
+    scenes,
+    defaultScene: doc.scene ?? 0,
+    nodeCount: nodes.length,
+    meshCount: meshes.length,
+    primitiveCount,
+    vertexCount,
+    triangleCount: triangles,
+    materials,
+    textures,
+    animations,
+  }
+}
+
+/** Whether a URL or file name looks like a glTF asset. */
+export function isGltfName(name: string): boolean {
+  return /\.(glb|gltf)(?:[?#].*)?$/i.test(name)
+}
+
+/** Fetch and summarise a glTF/GLB by URL; relative image URIs are resolved against it. */
+export async function inspectGltfUrl(url: string): Promise<GltfSummary> {
+  let res: Response
+  try {
+    res = await fetch(url)
+  } catch {
+    throw new Error('Could not download the model (the host may not allow cross-origin requests)')
+  }
+  if (!res.ok) throw new Error(`Could not download the model (HTTP ${res.status})`)
+  return parseGltf(await res.arrayBuffer(), async (uri) => {
+    try {
+      const r = await fetch(new URL(uri, url).toString())
+      return r.ok ? new Uint8Array(await r.arrayBuffer()) : null
+    } catch {
+      return null
+    }
+  })
+}
+
+/**
+ * Summarise local files: the first .glb/.gltf among them, with any other dropped files
+ * (textures, .bin) available to resolve its external references by file name.
+ */
+export async function inspectGltfFiles(files: File[]): Promise<GltfSummary> {
+  const model = files.find((f) => isGltfName(f.name))
+  if (!model) throw new Error('Drop a .glb or .gltf file')
+  const byName = new Map(files.map((f) => [f.name, f]))
+  return parseGltf(await model.arrayBuffer(), async (uri) => {
+    const file = byName.get(decodeURIComponent(uri).split('/').pop() ?? '')
+    return file ? new Uint8Array(await file.arrayBuffer()) : null
+  })
+}
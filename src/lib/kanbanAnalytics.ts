@@ -0,0 +1,222 @@
+/**
+ * Kanban analytics from card column transitions
+ *
+ * Everything is derived from each card's transition log (when it entered which column).
+ * The board's first column is the backlog and its last column is "done": a card starts
+ * when it first leaves the backlog and finishes when it last enters the done column.
+ * Days are UTC calendar days.
+ */
+
+import type { KanbanBoard, KanbanCard, KanbanTransition } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Weeks shown in the throughput chart (including the current one). */
+const THROUGHPUT_WEEKS = 12
+/** Longest span, in days, for the cumulative flow diagram and the burndown. */
+const MAX_CHART_DAYS = 90
+
+export type CardFlow = {
+  card: KanbanCard
+  /** First time the card left the backlog column */
+  startedAt?: string
+  /** Last time the card entered the done column, when it is still there */
+  doneAt?: string
+  /** Days from start to done */
+  cycleTimeDays?: number
+  /** Days from creation to done */
+  leadTimeDays?: number
+}
+
+export type CycleTimeStats = {
+  count: number
+  averageDays: number
+  medianDays: number
+  /** 85th percentile: most cards finish within this many days */
+  p85Days: number
+}
+
+export type WeeklyThroughput = { weekStart: string; count: number }
+
+export type BurndownPoint = {
+  date: string
+  /** Cards with a due date still open at the end of the day; undefined for future days */
+  remaining?: number
+  /** Cards whose due date is still ahead: what would remain if every card finished on its due date */
+  ideal: number
+}
+
+export type FlowDay = { date: string; counts: Record<string, number> }
+
+function dayKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+function endOfDay(date: string): string {
+  return `${date}T23:59:59.999Z`
+}
+
+/** Calendar days from `from` to `to` (YYYY-MM-DD, inclusive), at most the last `max`. */
+function daysBetween(from: string, to: string, max = MAX_CHART_DAYS): string[] {
+  const start = Math.max(Date.parse(from), Date.parse(to) - (max - 1) * DAY_MS)
+  const days: string[] = []
+  for (let t = start; t <= Date.parse(to); t += DAY_MS) days.push(dayKey(t))
+  return days
+}
+
+function transitionsOf(card: KanbanCard): KanbanTransition[] {
+  return card.transitions?.length ? card.transitions : [{ column: card.status, at: card.createdAt }]
+}
+
+/** Column a card was in at `at` (ISO), or null when it didn't exist yet. */
+export function columnAt(card: KanbanCard, at: string): string | null {
+  if (card.createdAt > at) return null
+  const transitions = transitionsOf(card)
+  let column = transitions[0].column
+  for (const t of transitions) {
+    if (t.at > at) break
+    column = t.column
+  }
+  return column
+}
+
+function allCards(board: KanbanBoard): KanbanCard[] {
+  return board.columns.flatMap((c) => c.cards)
+}
+
+/** Start, finish, cycle and lead time per card. */
+export function getCardFlows(board: KanbanBoard): CardFlow[] {
+  const backlog = board.columns[0]?.id
+  const done = board.columns[board.columns.length - 1]?.id
+  return allCards(board).map((card) => {
+    const transitions = transitionsOf(card)
+    const startedAt = transitions.find((t) => t.column !== backlog)?.at
+    const doneAt =
+      card.status === done && board.columns.length > 1
+        ? [...transitions].reverse().find((t) => t.column === done)?.at
+        : undefined
+    const days = (from?: string) => (from && doneAt ? (Date.parse(doneAt) - Date.parse(from)) / DAY_MS : undefined)
+    return { card, startedAt, doneAt, cycleTimeDays: days(startedAt), leadTimeDays: days(card.createdAt) }
+  })
+}
+
+/** Cycle time statistics over finished cards, or null when nothing has finished. */
+export function getCycleTimeStats(flows: CardFlow[]): CycleTimeStats | null {
+  const times = flows
+    .map((f) => f.cycleTimeDays)
+    .filter((d): d is number => d !== undefined)
+    .sort((a, b) => a - b)
+  if (times.length === 0) return null
+  const at = (q: number) => times[Math.min(times.length - 1, Math.ceil(q * times.length) - 1)]
+  return {
+    count: times.length,
+    averageDays: times.reduce((sum, d) => sum + d, 0) / times.length,
+    medianDays: times.length % 2 ? times[(times.length - 1) / 2] : (times[times.length / 2 - 1] + times[times.length / 2]) / 2,
+    p85Days: at(0.85),
+  }
+}
+
+/** Cards finished per week (weeks start on Monday), oldest first, ending with the current week. */
+export function getWeeklyThroughput(flows: CardFlow[], now = Date.now()): WeeklyThroughput[] {
+  const today = new Date(dayKey(now))
+  const monday = today.getTime() - ((today.getUTCDay() + 6) % 7) * DAY_MS
+  const weeks = Array.from({ length: THROUGHPUT_WEEKS }, (_, i) => ({
+    weekStart: dayKey(monday - (THROUGHPUT_WEEKS - 1 - i) * 7 * DAY_MS),
+    count: 0,
+  }))
+  for (const f of flows) {
+    if (!f.doneAt) continue
+    const week = [...weeks].reverse().find((w) => f.doneAt && f.doneAt.slice(0, 10) >= w.weekStart)
+    if (week) week.count++
+  }
+  return weeks
+}
+
+/** Daily burndown of cards that have a due date, from the first such card to the last due date. */
+export function getBurndown(board: KanbanBoard, flows: CardFlow[], now = Date.now()): BurndownPoint[] {
+  const due = flows.filter((f) => f.card.dueDate)
+  if (due.length === 0) return []
+  const today = dayKey(now)
+  const first = due.map((f) => f.card.createdAt.slice(0, 10)).sort()[0]
+  const lastDue = due.map((f) => f.card.dueDate as string).sort().pop() as string
+  const done = board.columns[board.columns.length - 1]?.id
+  return daysBetween(first, lastDue > today ? lastDue : today).map((date) => {
+    const end = endOfDay(date)
+    const ideal = due.filter((f) => (f.card.dueDate as string) > date).length
+    if (date > today) return { date, ideal }
+    const remaining = due.filter((f) => {
+      const column = columnAt(f.card, end)
+      return column !== null && column !== done
+    }).length
+    return { date, remaining, ideal }
+  })
+}
+
+/** Cards per column at the end of each day, from the first card to today. */
+export function getCumulativeFlow(board: KanbanBoard, now = Date.now()): FlowDay[] {
+  const cards = allCards(board)
+  if (cards.length === 0) return []
+  const first = cards.map((c) => c.createdAt.slice(0, 10)).sort()[0]
+  return daysBetween(first, dayKey(now)).map((date) => {
+    const counts: Record<string, number> = Object.fromEntries(board.columns.map((c) => [c.id, 0]))
+    for (const card of cards) {
+      const column = columnAt(card, endOfDay(date))
+      if (column !== null && column in counts) counts[column]++
+    }
+    return { date, counts }
+  })
+}
+
+/**
+ * One CSV field. Text starting with =, +, -, @, tab or CR gets a leading ' so a
+ * spreadsheet shows it instead of running it as a formula (titles, assignees and
+ * labels come from any board member). Numbers are left as they are.
+ */
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return ''
+  const s = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+function toCsv(rows: Array<Array<string | number | undefined>>): string {
+  return rows.map((r) => r.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+/** One row per card with its flow times. */
+export function cardFlowsToCsv(board: KanbanBoard, flows: CardFlow[]): string {
+  const columnTitle = (id: string) => board.columns.find((c) => c.id === id)?.title ?? id
+  const round = (d?: number) => (d === undefined ? undefined : Math.round(d * 100) / 100)
+  return toCsv([
+    ['card_id', 'title', 'column', 'priority', 'assignee', 'due_date', 'created_at', 'started_at', 'done_at', 'cycle_time_days', 'lead_time_days'],
+    ...flows.map((f) => [
+      f.card.id,
+      f.card.title,
+      columnTitle(f.card.status),
+      f.card.priority,
+      f.card.assignee,
+      f.card.dueDate,
+      f.card.createdAt,
+      f.startedAt,
+      f.doneAt,
+      round(f.cycleTimeDays),
+      round(f.leadTimeDays),
+    ]),
+  ])
+}
+
+/** Every recorded column entry. */
+export function transitionsToCsv(board: KanbanBoard): string {
+  const columnTitle = (id: string) => board.columns.find((c) => c.id === id)?.title ?? id
+  const rows = allCards(board).flatMap((card) =>
+    transitionsOf(card).map((t) => [card.id, card.title, t.column, columnTitle(t.column), t.at, t.by])
+  )
+  rows.sort((a, b) => String(a[4]).localeCompare(String(b[4])))
+  return toCsv([['card_id', 'title', 'column_id', 'column', 'entered_at', 'moved_by'], ...rows])
+}
+
+/** Daily card counts per column (the cumulative flow data). */
+export function cumulativeFlowToCsv(board: KanbanBoard, flow: FlowDay[]): string {
+  return toCsv([
+    ['date', ...board.columns.map((c) => c.title)],
+    ...flow.map((d) => [d.date, ...board.columns.map((c) => d.counts[c.id] ?? 0)]),
+  ])
+}
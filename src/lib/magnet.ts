@@ -0,0 +1,153 @@
+/**
+ * Magnet URI parsing for BitTorrent links: v1 (xt=urn:btih), v2 (xt=urn:btmh)
+ * and hybrid links carrying both. Extracts display name (dn), exact length (xl),
+ * trackers (tr) and web seeds (ws).
+ */
+
+export type MagnetInfo = {
+  /** v1 = btih only, v2 = btmh only, hybrid = both */
+  version: 'v1' | 'v2' | 'hybrid'
+  /** SHA-1 info hash as 40 lowercase hex chars (v1 / hybrid) */
+  infoHashV1?: string
+  /** SHA-256 info hash as 64 lowercase hex chars (v2 / hybrid), without the multihash prefix */
+  infoHashV2?: string
+  displayName?: string
+  /** Total size in bytes */
+  exactLength?: number
+  trackers: string[]
+  webSeeds: string[]
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+/** Multihash prefix for SHA2-256 with a 32-byte digest. */
+const SHA256_MULTIHASH_PREFIX = '1220'
+
+function base32ToHex(input: string): string | null {
+  let bits = 0
+  let value = 0
+  let hex = ''
+  for (const ch of input.toUpperCase()) {
+    const idx = BASE32_ALPHABET.indexOf(ch)
+    if (idx < 0) return null
+    value = (value << 5) | idx
+    bits += 5
+    if (bits >= 8) {
+      bits -= 8
+      hex += ((value >> bits) & 0xff).toString(16).padStart(2, '0')
+    }
+  }
+  return hex
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '))
+  } catch {
+    return value
+  }
+}
+
+function isUrlWithProtocol(value: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Parse a magnet URI. Throws an Error with a readable message when the link is not a
+ * valid BitTorrent magnet (no or malformed info hash, bad length, bad tracker URLs).
+ */
+export function parseMagnet(uri: string): MagnetInfo {
+  const trimmed = uri.trim()
+  if (!/^magnet:\?/i.test(trimmed)) throw new Error('Magnet links must start with "magnet:?"')
+  const params = trimmed.slice(trimmed.indexOf('?') + 1).split('&').filter(Boolean)
+
+  let infoHashV1: string | undefined
+  let infoHashV2: string | undefined
+  let displayName: string | undefined
+  let exactLength: number | undefined
+  const trackers: string[] = []
+  const webSeeds: string[] = []
+
+  for (const param of params) {
+    const eq = param.indexOf('=')
+    if (eq < 0) continue
+    // Numbered keys (xt.1, tr.2, …) mean the same as the plain key.
+    const key = param.slice(0, eq).toLowerCase().replace(/\.\d+$/, '')
+    const value = decodeParam(param.slice(eq + 1))
+    switch (key) {
+      case 'xt': {
+        const btih = /^urn:btih:(.+)$/i.exec(value)
+        const btmh = /^urn:btmh:(.+)$/i.exec(value)
+        if (btih) {
+          const hash = btih[1]
+          if (/^[0-9a-f]{40}$/i.test(hash)) infoHashV1 = hash.toLowerCase()
+          else if (/^[a-z2-7]{32}$/i.test(hash)) infoHashV1 = base32ToHex(hash) ?? undefined
+          else throw new Error('The btih info hash must be 40 hex or 32 base32 characters')
+        } else if (btmh) {
+          const hash = btmh[1].toLowerCase()
+          if (!/^[0-9a-f]+$/.test(hash) || !hash.startsWith(SHA256_MULTIHASH_PREFIX) || hash.length !== 68) {
+            throw new Error('The btmh info hash must be a SHA-256 multihash (1220 followed by 64 hex characters)')
+          }
+          infoHashV2 = hash.slice(SHA256_MULTIHASH_PREFIX.length)
+        }
+        break
+      }
+      case 'dn':
+        displayName = value.trim() || undefined
+        break
+      case 'xl': {
+        if (!/^\d+$/.test(value)) throw new Error('The exact length (xl) must be a whole number of bytes')
+        exactLength = Number(value)
+        break
+      }
+      case 'tr':
+        if (!isUrlWithProtocol(value, ['http:', 'https:', 'udp:', 'ws:', 'wss:'])) {
+          throw new Error(`Invalid tracker URL: ${value}`)
+        }
+        if (!trackers.includes(value)) trackers.push(value)
+        break
+      case 'ws':
+        if (!isUrlWithProtocol(value, ['http:', 'https:'])) throw new Error(`Invalid web seed URL: ${value}`)
+        if (!webSeeds.includes(value)) webSeeds.push(value)
+        break
+    }
+  }
+
+  if (!infoHashV1 && !infoHashV2) {
+    throw new Error('Magnet link has no BitTorrent info hash (xt=urn:btih:… or xt=urn:btmh:…)')
+  }
+  return {
+    version: infoHashV1 && infoHashV2 ? 'hybrid' : infoHashV2 ? 'v2' : 'v1',
+    infoHashV1,
+    infoHashV2,
+    displayName,
+    exactLength,
+    trackers,
+    webSeeds,
+  }
+}
+
+/** Error message for an invalid magnet link, or null when it parses. */
+export function validateMagnet(uri: string): string | null {
+  try {
+    parseMagnet(uri)
+    return null
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid magnet link'
+  }
+}
+
+/** Human-readable byte size (1.5 GB, 320 KB). */
+export function formatByteSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  let n = bytes
+  let i = 0
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024
+    i++
+  }
+  return `${i === 0 ? n : n.toFixed(n < 10 ? 1 : 0)} ${units[i]}`
+}
@@ -0,0 +1,471 @@
+/**
+ * Markdown to HTML for forum posts: a CommonMark subset plus GFM tables,
+ * strikethrough and bare URLs.
+ *
+ * Blocks: ATX and setext headings, paragraphs, block quotes, bullet and ordered
+ * lists (nested), fenced and indented code, tables and thematic breaks. Inline:
+ * emphasis, strong, strikethrough, code spans, links, images, autolinks, bare
+ * URLs and @handle mentions.
+ *
+ * The output is safe to inject: every piece of source text is HTML-escaped (raw
+ * HTML is shown as text, not rendered), link and image URLs are limited to an
+ * allow-list of schemes and attributes are always quoted and escaped.
+ *
+ * Images can point at a blob in the author's repo with `![alt](cid:<cid>)`; they
+ * are served from the Bluesky CDN, like post images. Wiki pages add `[[Page Title]]`
+ * links through `wikiLink`.
+ */
+
+export type MarkdownOptions = {
+  /** DID whose repo holds `cid:` image blobs (the post author). Without it those images render as their alt text. */
+  authorDid?: string
+  /**
+   * Resolves `[[Page Title]]` (or `[[Page Title|label]]`) wiki links to an in-app href.
+   * Links to pages that don't exist get the `wikiLinkMissing` class. Without it the
+   * brackets stay as text.
+   */
+  wikiLink?: (title: string) => { href: string; exists: boolean }
+}
+
+const MAX_HEADING_LEVEL = 6
+/** Deepest nesting of block quotes and lists; anything deeper renders as a paragraph. */
+const MAX_BLOCK_DEPTH = 16
+const LINK_SCHEMES = ['http:', 'https:', 'mailto:']
+/** Marks a rendered fragment inside inline text while the rest is still being processed. */
+const SLOT = '\uE000'
+
+/** Full-size CDN URL for an image blob in a repo. */
+export function blobImageUrl(did: string, cid: string): string {
+  return `https://cdn.bsky.app/img/feed_fullsize/plain/${did}/${encodeURIComponent(cid)}@jpeg`
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;')
+}
+
+/** Link target, or null when the URL uses a scheme we don't link to. In-app (#/…) links are allowed. */
+function safeLinkUrl(raw: string): string | null {
+  const url = raw.trim()
+  if (url.startsWith('#')) return url
+  try {
+    return LINK_SCHEMES.includes(new URL(url).protocol) ? url : null
+  } catch {
+    return null
+  }
+}
+
+function safeImageUrl(raw: string, options: MarkdownOptions): string | null {
+  const url = raw.trim()
+  const cid = /^cid:([a-z0-9]+)$/i.exec(url)
+  if (cid) return options.authorDid ? blobImageUrl(options.authorDid, cid[1]) : null
+  try {
+    return new URL(url).protocol === 'https:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+function anchor(href: string, label: string, title?: string): string {
+  const external = !href.startsWith('#')
+  return `<a href="${escapeHtml(href)}"${title ? ` title="${escapeHtml(title)}"` : ''}${
+    external ? ' target="_blank" rel="noopener noreferrer nofollow"' : ''
+  }>${label}</a>`
+}
+
+/** `(url "title")` destination of a link or image, starting at the opening parenthesis. */
+function readDestination(text: string, start: number): { url: string; title?: string; end: number } | null {
+  const m = /^\(\s*(<[^<>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+("[^"\n]*"|'[^'\n]*'))?\s*\)/.exec(text.slice(start))
+  if (!m) return null
+  const url = m[1].startsWith('<') ? m[1].slice(1, -1) : m[1]
+  return { url, title: m[2]?.slice(1, -1), end: start + m[0].length }
+}
+
+/** A rendered inline fragment and, when it may sit inside a link destination or title, the source it replaced. */
+type Slot = { html: string; source?: string }
+
+/**
+ * Link or image destination text with its slots put back as their source, or null when
+ * a slot has none. Destinations end up in attributes, so rendered HTML must never be
+ * restored into them.
+ */
+function slotSource(text: string, slots: Slot[]): string | null {
+  let known = true
+  const out = text.replace(new RegExp(`${SLOT}(\\d+)${SLOT}`, 'g'), (_, n: string) => {
+    const source = slots[Number(n)].source
+    // A source can hold earlier slots itself (a wiki link with code in its title)
+    const plain = source === undefined ? null : slotSource(source, slots)
+    if (plain === null) known = false
+    return plain ?? ''
+  })
+  return known ? out : null
+}
+
+/**
+ * Index of the `]` closing each `[`, skipping nested brackets. Found in one pass so
+ * unmatched brackets don't each rescan the rest of the text.
+ */
+function matchBrackets(text: string): Map<number, number> {
+  const closing = new Map<number, number>()
+  const open: number[] = []
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === '[') open.push(i)
+    else if (text[i] === ']' && open.length) closing.set(open.pop()!, i)
+  }
+  return closing
+}
+
+function renderInline(source: string, options: MarkdownOptions, inLink = false, slots: Slot[] = []): string {
+  const slot = (html: string, from?: string) => `${SLOT}${slots.push({ html, source: from }) - 1}${SLOT}`
+  let text = source
+
+  // Code spans (backslashes inside them are literal): backtick runs of equal length
+  text = text.replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, (whole, __: string, code: string) => {
+    const body = code.replace(/\n/g, ' ')
+    return slot(`<code>${escapeHtml(/^ .* $/.test(body) && body.trim() ? body.slice(1, -1) : body)}</code>`, whole)
+  })
+
+  // Backslash escapes and hard breaks written as a trailing backslash
+  text = text.replace(/\\\n/g, (whole) => slot('<br>\n', whole))
+  text = text.replace(/\\([!-/:-@[-`{-~])/g, (_, ch: string) => slot(escapeHtml(ch), ch))
+
+  // Wiki links: [[Page Title]] and [[Page Title|label]]
+  const { wikiLink } = options
+  if (wikiLink && !inLink) {
+    text = text.replace(/\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g, (whole, raw: string, label?: string) => {
+      // The page title is plain text: code spans and escapes in it count as their source
+      const title = slotSource(raw, slots)?.trim()
+      if (!title) return whole
+      const target = wikiLink(title)
+      const cls = target.exists ? 'wikiLink' : 'wikiLink wikiLinkMissing'
+      const hint = target.exists ? '' : ` title="${escapeHtml(`Create “${title}”`)}"`
+      return slot(`<a href="${escapeHtml(target.href)}" class="${cls}"${hint}>${escapeHtml((label ?? raw).trim())}</a>`, whole)
+    })
+  }
+
+  // Autolinks: <https://…>, <mailto:…>
+  text = text.replace(/<((?:https?|mailto):[^\s<>]+)>/gi, (whole, url: string) => {
+    const href = safeLinkUrl(url)
+    return href && !inLink ? slot(anchor(href, escapeHtml(url.replace(/^mailto:/i, ''))), whole) : whole
+  })
+
+  // Images and links: [label](destination)
+  const brackets = matchBrackets(text)
+  let out = ''
+  for (let i = 0; i < text.length; ) {
+    const isImage = text[i] === '!' && text[i + 1] === '['
+    const open = isImage ? i + 1 : i
+    if (text[open] !== '[') {
+      out += text[i++]
+      continue
+    }
+    const close = brackets.get(open) ?? -1
+    const dest = close >= 0 && text[close + 1] === '(' ? readDestination(text, close + 1) : null
+    // Code spans, escapes, wiki links and autolinks in the destination or title count as their plain source
+    const url = dest ? slotSource(dest.url, slots) : null
+    const title = dest?.title === undefined ? undefined : slotSource(dest.title, slots)
+    if (!dest || url === null || title === null) {
+      out += text.slice(i, open + 1)
+      i = open + 1
+      continue
+    }
+    const label = text.slice(open + 1, close)
+    if (isImage) {
+      const src = safeImageUrl(url, options)
+      // Alt text is plain: rendered fragments in the label keep only their text
+      const alt = label
+        .split(SLOT)
+        .map((part, n) => (n % 2 ? slots[Number(part)].html.replace(/<[^>]*>/g, '') : escapeHtml(part)))
+        .join('')
+      out += slot(
+        src
+          ? `<img src="${escapeHtml(src)}" alt="${alt}"${title ? ` title="${escapeHtml(title)}"` : ''} loading="lazy">`
+          : alt
+      )
+    } else {
+      const href = safeLinkUrl(url)
+      const inner = renderInline(label, options, true, slots)
+      out += slot(href && !inLink ? anchor(href, inner, title) : inner)
+    }
+    i = dest.end
+  }
+  text = out
+
+  if (!inLink) {
+    // Bare URLs (trailing punctuation stays outside the link) and @handle mentions
+    text = text.replace(/\bhttps?:\/\/[^\s<>"\uE000]+/gi, (url) => {
+      const trimmed = url.replace(/[.,;:!?'")\]]+$/, '')
+      return slot(anchor(trimmed, escapeHtml(trimmed))) + url.slice(trimmed.length)
+    })
+    text = text.replace(
+      /(^|[^\w@/.])@((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z][a-z0-9-]*[a-z0-9])(?![\w-])/gi,
+      (_, before: string, handle: string) =>
+        before + slot(`<a href="#/profile/${encodeURIComponent(handle)}" class="mention">@${escapeHtml(handle)}</a>`)
+    )
+  }
+
+  text = escapeHtml(text)
+
+  // Emphasis: ** and __ before * and _; underscores only at word edges
+  text = text.replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+  text = text.replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+  text = text.replace(/\*(?=[^\s*])([\s\S]*?[^\s*])\*/g, '<em>$1</em>')
+  text = text.replace(/(^|[^\w])_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/g, '$1<em>$2</em>')
+  text = text.replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+
+  // Hard breaks: two or more trailing spaces
+  text = text.replace(/ {2,}\n/g, '<br>\n')
+
+  return restoreSlots(text, slots)
+}
+
+function restoreSlots(text: string, slots: Slot[]): string {
+  const pattern = new RegExp(`${SLOT}(\\d+)${SLOT}`, 'g')
+  // Slots can hold other slots (a link label with code in it), so repeat until none are left.
+  while (pattern.test(text)) {
+    pattern.lastIndex = 0
+    text = text.replace(pattern, (_, n: string) => slots[Number(n)].html)
+  }
+  return text
+}
+
+// --- Blocks ---
+
+const FENCE = /^( {0,3})(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/
+const BLOCKQUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)(.*)|$)/
+const TABLE_DELIMITER = /^ {0,3}\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/
+
+type ListMarker = { indent: number; bullet: boolean; char: string; start: number; contentIndent: number; rest: string }
+
+function isBlank(line: string): boolean {
+  return !line.trim()
+}
+
+/** Expand leading tabs so indentation can be counted in columns. */
+function expandTabs(line: string): string {
+  return line.replace(/^[ \t]+/, (ws) => ws.replace(/\t/g, '    '))
+}
+
+function indentOf(line: string): number {
+  return /^ */.exec(line)?.[0].length ?? 0
+}
+
+function listMarker(line: string): ListMarker | null {
+  const m = LIST_ITEM.exec(line)
+  if (!m) return null
+  const bullet = /[-+*]/.test(m[2])
+  const spaces = m[3]?.length ?? 1
+  // Content indented five or more past the marker is indented code, so the item starts one space in.
+  const gap = spaces > 4 || !m[4] ? 1 : spaces
+  return {
+    indent: m[1].length,
+    bullet,
+    char: bullet ? m[2] : m[2].slice(-1),
+    start: bullet ? 1 : Number(m[2].slice(0, -1)),
+    contentIndent: m[1].length + m[2].length + gap,
+    rest: m[4] === undefined ? '' : spaces > 4 ? ' '.repeat(spaces - 1) + m[4] : m[4],
+  }
+}
+
+function splitRow(line: string): string[] {
+  let row = line.trim()
+  if (row.startsWith('|')) row = row.slice(1)
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1)
+  const cells: string[] = []
+  let cell = ''
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|'
+      i++
+    } else if (row[i] === '|') {
+      cells.push(cell.trim())
+      cell = ''
+    } else cell += row[i]
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  if (!lines[i].includes('|') || i + 1 >= lines.length || !TABLE_DELIMITER.test(lines[i + 1])) return false
+  return splitRow(lines[i]).length === splitRow(lines[i + 1]).length
+}
+
+/** Whether a line starts a block that interrupts a paragraph. */
+function interruptsParagraph(lines: string[], i: number, depth: number): boolean {
+  const line = lines[i]
+  if (FENCE.test(line) || ATX_HEADING.test(line) || THEMATIC_BREAK.test(line) || BLOCKQUOTE.test(line)) return true
+  if (isTableStart(lines, i)) return true
+  const marker = depth < MAX_BLOCK_DEPTH ? listMarker(line) : null
+  // Only lists that start at 1 and have content can interrupt a paragraph
+  return !!marker && !!marker.rest.trim() && (marker.bullet || marker.start === 1)
+}
+
+function renderTable(rows: string[], options: MarkdownOptions): string {
+  const head = splitRow(rows[0])
+  const aligns = splitRow(rows[1]).map((d) =>
+    d.startsWith(':') && d.endsWith(':') ? 'center' : d.endsWith(':') ? 'right' : d.startsWith(':') ? 'left' : ''
+  )
+  const cell = (tag: 'th' | 'td', text: string, col: number) =>
+    `<${tag}${aligns[col] ? ` style="text-align:${aligns[col]}"` : ''}>${renderInline(text, options)}</${tag}>`
+  const body = rows.slice(2).map((r) => {
+    const cells = splitRow(r)
+    return `<tr>${head.map((_, col) => cell('td', cells[col] ?? '', col)).join('')}</tr>`
+  })
+  return (
+    `<table><thead><tr>${head.map((h, col) => cell('th', h, col)).join('')}</tr></thead>` +
+    (body.length ? `<tbody>${body.join('')}</tbody>` : '') +
+    '</table>'
+  )
+}
+
+function renderBlocks(lines: string[], options: MarkdownOptions, depth: number, tight = false): string {
+  const out: string[] = []
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+    if (isBlank(line)) {
+      i++
+      continue
+    }
+
+    const fence = FENCE.exec(line)
+    if (fence) {
+      const [, indent, marks, lang] = fence
+      const closing = new RegExp(`^ {0,3}${marks[0] === '`' ? '`' : '~'}{${marks.length},}[ \\t]*$`)
+      const code: string[] = []
+      i++
+      while (i < lines.length && !closing.test(lines[i])) {
+        code.push(lines[i].replace(new RegExp(`^ {0,${indent.length}}`), ''))
+        i++
+      }
+      i++
+      const cls = lang ? ` class="language-${escapeHtml(lang)}"` : ''
+      out.push(`<pre><code${cls}>${escapeHtml(code.join('\n'))}${code.length ? '\n' : ''}</code></pre>`)
+      continue
+    }
+
+    if (indentOf(line) >= 4) {
+      const code: string[] = []
+      while (i < lines.length && (indentOf(lines[i]) >= 4 || isBlank(lines[i]))) code.push(lines[i++].slice(4))
+      while (code.length && isBlank(code[code.length - 1])) code.pop()
+      out.push(`<pre><code>${escapeHtml(code.join('\n'))}\n</code></pre>`)
+      continue
+    }
+
+    const heading = ATX_HEADING.exec(line)
+    if (heading) {
+      const level = Math.min(heading[1].length, MAX_HEADING_LEVEL)
+      out.push(`<h${level}>${renderInline(heading[2] ?? '', options)}</h${level}>`)
+      i++
+      continue
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      out.push('<hr>')
+      i++
+      continue
+    }
+
+    if (BLOCKQUOTE.test(line) && depth < MAX_BLOCK_DEPTH) {
+      const quoted: string[] = []
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (BLOCKQUOTE.test(lines[i])) quoted.push(lines[i].replace(BLOCKQUOTE, ''))
+        // Lazy continuation: a plain line right after quoted text belongs to the quote
+        else if (!interruptsParagraph(lines, i, depth) && quoted.length && !isBlank(quoted[quoted.length - 1]))
+          quoted.push(lines[i])
+        else break
+        i++
+      }
+      out.push(`<blockquote>${renderBlocks(quoted, options, depth + 1)}</blockquote>`)
+      continue
+    }
+
+    const marker = depth < MAX_BLOCK_DEPTH ? listMarker(line) : null
+    if (marker) {
+      const items: string[][] = []
+      let loose = false
+      let current = marker
+      while (i < lines.length) {
+        const item = [current.rest]
+        i++
+        let sawBlank = false
+        while (i < lines.length) {
+          const next = lines[i]
+          if (isBlank(next)) {
+            sawBlank = true
+            item.push('')
+            i++
+            continue
+          }
+          if (indentOf(next) >= current.contentIndent) {
+            if (sawBlank) loose = true
+            item.push(next.slice(current.contentIndent))
+            sawBlank = false
+            i++
+            continue
+          }
+          if (!sawBlank && !interruptsParagraph(lines, i, depth) && !listMarker(next)) {
+            // Lazy paragraph continuation
+            item.push(next)
+            i++
+            continue
+          }
+          break
+        }
+        // Blank lines after the last line of the item separate it from the next one
+        while (item.length > 1 && !item[item.length - 1].trim()) item.pop()
+        items.push(item)
+        const next = i < lines.length ? listMarker(lines[i]) : null
+        if (!next || next.bullet !== marker.bullet || next.char !== marker.char || next.indent > 3) break
+        if (sawBlank) loose = true
+        current = next
+      }
+      const html = items.map((item) => `<li>${renderBlocks(item, options, depth + 1, !loose)}</li>`).join('')
+      out.push(
+        marker.bullet
+          ? `<ul>${html}</ul>`
+          : `<ol${marker.start !== 1 ? ` start="${marker.start}"` : ''}>${html}</ol>`
+      )
+      continue
+    }
+
+    if (isTableStart(lines, i)) {
+      const rows = [lines[i], lines[i + 1]]
+      i += 2
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|') && !interruptsParagraph(lines, i, depth))
+        rows.push(lines[i++])
+      out.push(renderTable(rows, options))
+      continue
+    }
+
+    // Paragraph, or a setext heading when underlined with === or ---
+    const para: string[] = [line]
+    i++
+    let setext = 0
+    while (i < lines.length && !isBlank(lines[i])) {
+      const underline = SETEXT_UNDERLINE.exec(lines[i])
+      if (underline) {
+        setext = underline[1][0] === '=' ? 1 : 2
+        i++
+        break
+      }
+      if (interruptsParagraph(lines, i, depth)) break
+      para.push(lines[i++])
+    }
+    const inline = renderInline(para.map((l) => l.replace(/^[ \t]+/, '')).join('\n').replace(/[ \t]+$/, ''), options)
+    if (setext) out.push(`<h${setext}>${inline}</h${setext}>`)
+    else out.push(tight ? inline : `<p>${inline}</p>`)
+  }
+  return out.join('\n')
+}
+
+/** Render markdown to sanitized HTML. */
+export function renderMarkdown(markdown: string, options: MarkdownOptions = {}): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split(SLOT).join('\uFFFD').split('\n').map(expandTabs)
+  return renderBlocks(lines, options, 0)
+}
@@ -0,0 +1,198 @@
+/**
+ * Local project file inspection for prefilling collab projects.
+ *
+ * Reads a Godot project.godot (INI-style config) or the header of a Blender .blend
+ * file in the browser. Nothing is uploaded.
+ */
+
+import type { ProjectType } from '../types'
+
+export type GodotProjectInfo = {
+  kind: 'godot'
+  name?: string
+  /** config/features, e.g. ["4.2", "Forward Plus"] */
+  features: string[]
+  /** application/config/version (the game's own version), when set */
+  version?: string
+  /** Engine version from features (e.g. "4.2"), or the major version implied by config_version */
+  engineVersion?: string
+}
+
+export type BlendFileInfo = {
+  kind: 'blend'
+  /** e.g. "4.2" or "2.93" */
+  blenderVersion: string
+  pointerSize: 4 | 8
+  endianness: 'little' | 'big'
+  compressed?: 'gzip'
+}
+
+export type ProjectFileInfo = GodotProjectInfo | BlendFileInfo
+
+/** What the create-project form gets from a dropped file. */
+export type ProjectPrefill = {
+  name?: string
+  type: ProjectType
+  version?: string
+  tags: string[]
+  /** Short human-readable summary of what was found */
+  summary: string
+}
+
+/** Bytes of a .blend file needed for the header (legacy headers are 12 bytes, v1 headers 17). */
+const BLEND_HEADER_BYTES = 32
+
+function unquote(value: string): string {
+  const v = value.trim()
+  if (v.length >= 2 && v.startsWith('"') && v.endsWith('"')) {
+    return v.slice(1, -1).replace(/\\"/g, '"').replace(/\\\\/g, '\\')
+  }
+  return v
+}
+
+/** Parse project.godot text: [application] config/name, config/features, config/version. */
+export function parseGodotProject(text: string): GodotProjectInfo {
+  let section = ''
+  let configVersion: number | undefined
+  const values: Record<string, string> = {}
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim()
+    if (!line || line.startsWith(';') || line.startsWith('#')) continue
+    const header = /^\[([^\]]+)\]$/.exec(line)
+    if (header) {
+      section = header[1].trim()
+      continue
+    }
+    const eq = line.indexOf('=')
+    if (eq < 0) continue
+    const key = line.slice(0, eq).trim()
+    const value = line.slice(eq + 1).trim()
+    if (!section && key === 'config_version') configVersion = Number(value) || undefined
+    if (section === 'application') values[key] = value
+  }
+  if (configVersion === undefined && Object.keys(values).length === 0) {
+    throw new Error('This doesn’t look like a project.godot file')
+  }
+
+  const features: string[] = []
+  const featuresRaw = values['config/features']
+  if (featuresRaw) {
+    // Godot 4: PackedStringArray("4.2", "Forward Plus"); Godot 3: PoolStringArray( ... )
+    for (const m of featuresRaw.matchAll(/"((?:[^"\\]|\\.)*)"/g)) features.push(m[1])
+  }
+  const featureVersion = features.find((f) => /^\d+\.\d+$/.test(f))
+  const engineVersion =
+    featureVersion ?? (configVersion === 5 ? '4' : configVersion === 4 ? '3' : undefined)
+  return {
+    kind: 'godot',
+    name: values['config/name'] ? unquote(values['config/name']) || undefined : undefined,
+    features,
+    version: values['config/version'] ? unquote(values['config/version']) || undefined : undefined,
+    engineVersion,
+  }
+}
+
+function formatBlenderVersion(code: number): string {
+  const major = Math.floor(code / 100)
+  const minor = code % 100
+  // Blender 2.x used two-digit minors (2.79, 2.93); from 3.0 on it's 3.6, 4.2, …
+  return major >= 3 ? `${major}.${minor}` : `${major}.${String(minor).padStart(2, '0')}`
+}
+
+/**
+ * Parse a .blend file header. Legacy: "BLENDER" + pointer size ("_" 32-bit, "-" 64-bit)
+ * + endianness ("v" little, "V" big) + 3-digit version. Newer files (Blender 5+) use
+ * "BLENDER" + header size + "-" + format version + endianness + 4-digit version.
+ */
+export function parseBlendHeader(bytes: Uint8Array): BlendFileInfo {
+  const header = String.fromCharCode(...bytes.slice(0, BLEND_HEADER_BYTES))
+  if (!header.startsWith('BLENDER')) throw new Error('Not a Blender file (missing BLENDER header)')
+  const modern = /^BLENDER(\d\d)-(\d\d)([vV])(\d{4})/.exec(header)
+  if (modern) {
+    return {
+      kind: 'blend',
+      blenderVersion: formatBlenderVersion(Number(modern[4])),
+      pointerSize: 8,
+      endianness: modern[3] === 'v' ? 'little' : 'big',
+    }
+  }
+  const legacy = /^BLENDER([_-])([vV])(\d{3})/.exec(header)
+  if (!legacy) throw new Error('Unrecognised .blend header')
+  return {
+    kind: 'blend',
+    blenderVersion: formatBlenderVersion(Number(legacy[3])),
+    pointerSize: legacy[1] === '_' ? 4 : 8,
+    endianness: legacy[2] === 'v' ? 'little' : 'big',
+  }
+}
+
+async function readBlendHeader(file: File): Promise<BlendFileInfo> {
+  const head = new Uint8Array(await file.slice(0, BLEND_HEADER_BYTES).arrayBuffer())
+  if (head[0] === 0x1f && head[1] === 0x8b) {
+    // Older Blender versions could save gzip-compressed files; the header is the start of the stream.
+    const reader = file.stream().pipeThrough(new DecompressionStream('gzip')).getReader()
+    const out: number[] = []
+    try {
+      while (out.length < BLEND_HEADER_BYTES) {
+        const { value, done } = await reader.read()
+        if (done || !value) break
+        out.push(...value.slice(0, BLEND_HEADER_BYTES - out.length))
+      }
+    } finally {
+      reader.cancel().catch(() => {
+        /* ignore */
+      })
+    }
+    return { ...parseBlendHeader(new Uint8Array(out)), compressed: 'gzip' }
+  }
+  if (head[0] === 0x28 && head[1] === 0xb5 && head[2] === 0x2f && head[3] === 0xfd) {
+    throw new Error('This .blend file is Zstandard-compressed; save it uncompressed to read its version')
+  }
+  return parseBlendHeader(head)
+}
+
+/** Inspect a dropped file locally. Accepts project.godot and .blend files. */
+export async function readProjectFile(file: File): Promise<ProjectFileInfo> {
+  const name = file.name.toLowerCase()
+  if (/\.blend\d*$/.test(name)) return readBlendHeader(file)
+  if (name.endsWith('.godot')) return parseGodotProject(await file.text())
+  throw new Error('Drop a project.godot or .blend file')
+}
+
+function tagSlug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-|-$/g, '')
+}
+
+/** Form values suggested by a parsed file. `fileName` names .blend projects. */
+export function projectPrefill(info: ProjectFileInfo, fileName: string): ProjectPrefill {
+  if (info.kind === 'godot') {
+    const tags = ['godot']
+    if (info.engineVersion) tags.push(`godot-${info.engineVersion}`)
+    for (const f of info.features) {
+      if (f !== info.engineVersion) tags.push(tagSlug(f))
+    }
+    return {
+      name: info.name,
+      type: 'godot',
+      version: info.version,
+      tags: [...new Set(tags.filter(Boolean))],
+      summary: [
+        info.engineVersion ? `Godot ${info.engineVersion}` : 'Godot project',
+        ...info.features.filter((f) => f !== info.engineVersion),
+      ].join(' · '),
+    }
+  }
+  return {
+    name: fileName.replace(/\.blend\d*$/i, '').replace(/[_-]+/g, ' ').trim() || undefined,
+    type: 'blender',
+    tags: ['blender', `blender-${info.blenderVersion}`],
+    summary: [
+      `Blender ${info.blenderVersion}`,
+      `${info.pointerSize * 8}-bit`,
+      `${info.endianness}-endian`,
+      info.compressed ? 'gzip-compressed' : null,
+    ]
+      .filter(Boolean)
+      .join(' · '),
+  }
+}
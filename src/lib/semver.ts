@@ -0,0 +1,70 @@
+/**
+ * Semantic versioning (semver.org 2.0.0): parsing, validation and precedence,
+ * used to order collab project releases.
+ */
+
+export type Semver = {
+  major: number
+  minor: number
+  patch: number
+  prerelease: string[]
+  build: string[]
+}
+
+const SEMVER_RE =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/
+
+/** Parse a version like 1.2.3, 1.2.3-beta.1 or 1.2.3+build.5 (a leading "v" is allowed). */
+export function parseSemver(version: string): Semver | null {
+  const m = SEMVER_RE.exec(version.trim().replace(/^v/i, ''))
+  if (!m) return null
+  return {
+    major: Number(m[1]),
+    minor: Number(m[2]),
+    patch: Number(m[3]),
+    prerelease: m[4] ? m[4].split('.') : [],
+    build: m[5] ? m[5].split('.') : [],
+  }
+}
+
+export function isValidSemver(version: string): boolean {
+  return parseSemver(version) !== null
+}
+
+/** Canonical form without a leading "v". */
+export function normalizeSemver(version: string): string {
+  return version.trim().replace(/^v/i, '')
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A version without prerelease ranks above any prerelease of the same core version.
+  if (a.length === 0 || b.length === 0) return b.length - a.length
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1
+    if (b[i] === undefined) return 1
+    const an = /^\d+$/.test(a[i])
+    const bn = /^\d+$/.test(b[i])
+    if (an && bn) {
+      const d = Number(a[i]) - Number(b[i])
+      if (d !== 0) return d < 0 ? -1 : 1
+    } else if (an !== bn) {
+      return an ? -1 : 1
+    } else if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1
+    }
+  }
+  return 0
+}
+
+/** Precedence per the semver spec (build metadata ignored). Invalid versions sort first. */
+export function compareSemver(a: string, b: string): number {
+  const pa = parseSemver(a)
+  const pb = parseSemver(b)
+  if (!pa || !pb) return pa ? 1 : pb ? -1 : 0
+  return (
+    Math.sign(pa.major - pb.major) ||
+    Math.sign(pa.minor - pb.minor) ||
+    Math.sign(pa.patch - pb.patch) ||
+    comparePrerelease(pa.prerelease, pb.prerelease)
+  )
+}
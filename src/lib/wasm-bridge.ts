@@ -1,16 +1,281 @@
 /**
  * WASM Bridge – Consensus analysis (JS fallback)
  *
- * PurpleSky uses Rust WASM for consensus clustering. Artsky uses a JS-only
- * fallback for now. Add wasm-pack build later for full Polis-style clustering.
+ * PurpleSky uses Rust WASM for consensus clustering. Artsky runs the same
+ * Polis-style pipeline in plain TypeScript: participant × statement vote
+ * matrix → PCA (2 components) → k-means, with k picked by silhouette score.
  */
 
 import type { ConsensusResult } from '../types'
 
-/** Analyze Polis-like consensus from votes (JS fallback). */
+/** Below this many participants, opinion groups are not meaningful. */
+const MIN_PARTICIPANTS_FOR_CLUSTERING = 4
+/** Upper bound for k when searching for the best cluster count. */
+const MAX_CLUSTERS = 5
+const PCA_COMPONENTS = 2
+const POWER_ITERATIONS = 100
+const KMEANS_ITERATIONS = 50
+
+type Vote = { user_id: string; statement_id: string; value: number }
+
+/** Participant × statement matrix. Missing votes are null. */
+type VoteMatrix = {
+  participants: string[]
+  statements: string[]
+  rows: Array<Array<number | null>>
+}
+
+function buildVoteMatrix(votes: Vote[]): VoteMatrix {
+  const participants: string[] = []
+  const statements: string[] = []
+  const pIndex = new Map<string, number>()
+  const sIndex = new Map<string, number>()
+  for (const v of votes) {
+    if (!pIndex.has(v.user_id)) {
+      pIndex.set(v.user_id, participants.length)
+      participants.push(v.user_id)
+    }
+    if (!sIndex.has(v.statement_id)) {
+      sIndex.set(v.statement_id, statements.length)
+      statements.push(v.statement_id)
+    }
+  }
+  const rows: Array<Array<number | null>> = participants.map(() => statements.map(() => null))
+  for (const v of votes) {
+    rows[pIndex.get(v.user_id)!][sIndex.get(v.statement_id)!] = Math.sign(v.value)
+  }
+  return { participants, statements, rows }
+}
+
+/** Fill missing votes with the statement's mean vote, then center each column. */
+function centeredMatrix(matrix: VoteMatrix): number[][] {
+  const cols = matrix.statements.length
+  const means = new Array<number>(cols).fill(0)
+  for (let j = 0; j < cols; j++) {
+    let sum = 0
+    let n = 0
+    for (const row of matrix.rows) {
+      if (row[j] !== null) {
+        sum += row[j] as number
+        n++
+      }
+    }
+    means[j] = n > 0 ? sum / n : 0
+  }
+  return matrix.rows.map((row) => row.map((v, j) => (v === null ? 0 : v - means[j])))
+}
+
+function dot(a: number[], b: number[]): number {
+  let s = 0
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i]
+  return s
+}
+
+function normalize(v: number[]): number[] {
+  const len = Math.sqrt(dot(v, v))
+  return len > 0 ? v.map((x) => x / len) : v
+}
+
+/**
+ * Top principal components of a centered matrix via power iteration with deflation
+ * on the covariance matrix. Deterministic (fixed start vectors) so results are stable.
+ */
+function principalComponents(data: number[][], count: number): number[][] {
+  const cols = data[0]?.length ?? 0
+  if (cols === 0) return []
+  const cov: number[][] = Array.from({ length: cols }, () => new Array<number>(cols).fill(0))
+  for (const row of data) {
+    for (let i = 0; i < cols; i++) {
+      if (row[i] === 0) continue
+      for (let j = 0; j < cols; j++) cov[i][j] += row[i] * row[j]
+    }
+  }
+  const components: number[][] = []
+  for (let c = 0; c < Math.min(count, cols); c++) {
+    let v = normalize(Array.from({ length: cols }, (_, i) => 1 + ((i + c) % 3)))
+    let eigenvalue = 0
+    for (let it = 0; it < POWER_ITERATIONS; it++) {
+      const next = cov.map((r) => dot(r, v))
+      eigenvalue = Math.sqrt(dot(next, next))
+      if (eigenvalue < 1e-12) break
+      v = next.map((x) => x / eigenvalue)
+    }
+    if (eigenvalue < 1e-12) break
+    components.push(v)
+    for (let i = 0; i < cols; i++) {
+      for (let j = 0; j < cols; j++) cov[i][j] -= eigenvalue * v[i] * v[j]
+    }
+  }
+  return components
+}
+
+function project(data: number[][], components: number[][]): number[][] {
+  return data.map((row) => {
+    const point = components.map((comp) => dot(row, comp))
+    while (point.length < PCA_COMPONENTS) point.push(0)
+    return point
+  })
+}
+
+function distance(a: number[], b: number[]): number {
+  let s = 0
+  for (let i = 0; i < a.length; i++) s += (a[i] - b[i]) ** 2
+  return Math.sqrt(s)
+}
+
+/** k-means with farthest-point initialisation (deterministic). Returns a cluster index per point. */
+function kMeans(points: number[][], k: number): number[] {
+  const centroids: number[][] = [points[0].slice()]
+  while (centroids.length < k) {
+    let best = 0
+    let bestDist = -1
+    points.forEach((p, i) => {
+      const d = Math.min(...centroids.map((c) => distance(p, c)))
+      if (d > bestDist) {
+        bestDist = d
+        best = i
+      }
+    })
+    centroids.push(points[best].slice())
+  }
+
+  const assignment = new Array<number>(points.length).fill(0)
+  for (let it = 0; it < KMEANS_ITERATIONS; it++) {
+    let changed = false
+    points.forEach((p, i) => {
+      let best = 0
+      for (let c = 1; c < k; c++) {
+        if (distance(p, centroids[c]) < distance(p, centroids[best])) best = c
+      }
+      if (assignment[i] !== best) {
+        assignment[i] = best
+        changed = true
+      }
+    })
+    for (let c = 0; c < k; c++) {
+      const members = points.filter((_, i) => assignment[i] === c)
+      if (members.length === 0) continue
+      centroids[c] = members[0].map((_, d) => members.reduce((s, m) => s + m[d], 0) / members.length)
+    }
+    if (!changed && it > 0) break
+  }
+  return assignment
+}
+
+/** Mean silhouette coefficient for a clustering (−1…1, higher is better separated). */
+function silhouetteScore(points: number[][], assignment: number[], k: number): number {
+  let total = 0
+  for (let i = 0; i < points.length; i++) {
+    const sums = new Array<number>(k).fill(0)
+    const counts = new Array<number>(k).fill(0)
+    for (let j = 0; j < points.length; j++) {
+      if (i === j) continue
+      sums[assignment[j]] += distance(points[i], points[j])
+      counts[assignment[j]]++
+    }
+    const own = assignment[i]
+    if (counts[own] === 0) continue
+    const a = sums[own] / counts[own]
+    let b = Infinity
+    for (let c = 0; c < k; c++) {
+      if (c !== own && counts[c] > 0) b = Math.min(b, sums[c] / counts[c])
+    }
+    if (!Number.isFinite(b)) continue
+    const denom = Math.max(a, b)
+    total += denom > 0 ? (b - a) / denom : 0
+  }
+  return total / points.length
+}
+
+/** Try k = 2…MAX_CLUSTERS and keep the clustering with the best silhouette. */
+function bestClustering(points: number[][]): { k: number; assignment: number[] } | null {
+  const distinct = new Set(points.map((p) => p.map((x) => x.toFixed(6)).join(','))).size
+  const maxK = Math.min(MAX_CLUSTERS, distinct, points.length - 1)
+  let best: { k: number; assignment: number[]; score: number } | null = null
+  for (let k = 2; k <= maxK; k++) {
+    const assignment = kMeans(points, k)
+    if (new Set(assignment).size < k) continue
+    const score = silhouetteScore(points, assignment, k)
+    if (!best || score > best.score) best = { k, assignment, score }
+  }
+  return best
+}
+
+type Clustering = {
+  points: number[][]
+  /** Cluster index per participant, or null when there are too few participants to group. */
+  assignment: number[] | null
+  k: number
+}
+
+function clusterOpinions(matrix: VoteMatrix): Clustering | null {
+  if (matrix.participants.length < 2 || matrix.statements.length < 2) return null
+  const centered = centeredMatrix(matrix)
+  const components = principalComponents(centered, PCA_COMPONENTS)
+  if (components.length === 0) return null
+  const points = project(centered, components)
+  if (matrix.participants.length < MIN_PARTICIPANTS_FOR_CLUSTERING) return { points, assignment: null, k: 0 }
+  const best = bestClustering(points)
+  if (!best) return { points, assignment: null, k: 0 }
+  // Renumber so group 0 is the largest.
+  const sizes = Array.from({ length: best.k }, (_, c) => ({ c, n: best.assignment.filter((a) => a === c).length }))
+  sizes.sort((a, b) => b.n - a.n)
+  const remap = new Map(sizes.map((s, i) => [s.c, i]))
+  return { points, assignment: best.assignment.map((a) => remap.get(a)!), k: best.k }
+}
+
+/** Laplace-smoothed probability that rows vote `value` on statement j, with the raw share behind it. */
+function voteProbability(
+  rows: Array<Array<number | null>>,
+  j: number,
+  value: 1 | -1
+): { p: number; share: number; n: number } {
+  let hits = 0
+  let n = 0
+  for (const row of rows) {
+    const v = row[j]
+    if (v === null) continue
+    n++
+    if (v === value) hits++
+  }
+  return { p: (hits + 1) / (n + 2), share: n > 0 ? hits / n : 0, n }
+}
+
+const REPRESENTATIVE_LIMIT = 3
+
+function representativeStatements(
+  matrix: VoteMatrix,
+  inGroup: Array<Array<number | null>>,
+  outGroup: Array<Array<number | null>>
+): ConsensusResult['clusters'][number]['representativeStatements'] {
+  const candidates: ConsensusResult['clusters'][number]['representativeStatements'] = []
+  matrix.statements.forEach((statementId, j) => {
+    for (const direction of ['agree', 'disagree'] as const) {
+      const value = direction === 'agree' ? 1 : -1
+      const group = voteProbability(inGroup, j, value)
+      if (group.n === 0) continue
+      const rest = voteProbability(outGroup, j, value)
+      const repness = group.p / rest.p
+      if (repness > 1 && group.p > 0.5) {
+        candidates.push({ statementId, direction, groupRatio: group.p, groupShare: group.share, repness })
+      }
+    }
+  })
+  candidates.sort((a, b) => b.repness * b.groupRatio - a.repness * a.groupRatio)
+  return candidates.slice(0, REPRESENTATIVE_LIMIT)
+}
+
+/** Analyze Polis-like consensus from votes: tallies, 2D opinion map, groups and group-informed consensus. */
 export async function analyzeConsensus(
-  votes: Array<{ user_id: string; statement_id: string; value: number }>
+  votes: Vote[]
 ): Promise<ConsensusResult> {
+  const matrix = buildVoteMatrix(votes)
+  const clustering = clusterOpinions(matrix)
+  const assignment = clustering?.assignment ?? null
+  const groups: Array<Array<Array<number | null>>> = assignment
+    ? Array.from({ length: clustering!.k }, (_, c) => matrix.rows.filter((_, i) => assignment[i] === c))
+    : [matrix.rows]
+
   const byStatement = new Map<string, { agree: number; disagree: number; pass: number; voters: Set<string> }>()
   for (const v of votes) {
     let s = byStatement.get(v.statement_id)
@@ -28,6 +293,8 @@ export async function analyzeConsensus(
     const total = s.agree + s.disagree + s.pass
     const agreeRatio = total > 0 ? s.agree / total : 0
     const divisiveness = total > 0 ? (1 - Math.abs(s.agree - s.disagree) / total) : 0
+    const j = matrix.statements.indexOf(statementId)
+    const groupInformedConsensus = groups.reduce((prod, rows) => prod * voteProbability(rows, j, 1).p, 1)
     return {
       statementId,
       agreeCount: s.agree,
@@ -36,16 +303,49 @@ export async function analyzeConsensus(
       totalVoters: s.voters.size,
       agreementRatio: agreeRatio,
       divisiveness,
+      groupInformedConsensus,
     }
   })
 
-  const allVoters = new Set<string>()
-  for (const v of votes) allVoters.add(v.user_id)
+  const participants: ConsensusResult['participants'] = clustering
+    ? matrix.participants.map((id, i) => ({
+        id,
+        x: clustering.points[i][0],
+        y: clustering.points[i][1],
+        clusterId: assignment ? assignment[i] : null,
+      }))
+    : []
+
+  const clusters: ConsensusResult['clusters'] = []
+  if (assignment) {
+    for (let c = 0; c < clustering!.k; c++) {
+      const memberIds = matrix.participants.filter((_, i) => assignment[i] === c)
+      const inGroup = groups[c]
+      const outGroup = matrix.rows.filter((_, i) => assignment[i] !== c)
+      let agree = 0
+      let cast = 0
+      for (const row of inGroup) {
+        for (const v of row) {
+          if (v === null) continue
+          cast++
+          if (v === 1) agree++
+        }
+      }
+      clusters.push({
+        id: c,
+        memberCount: memberIds.length,
+        memberIds,
+        avgAgreement: cast > 0 ? agree / cast : 0,
+        representativeStatements: representativeStatements(matrix, inGroup, outGroup),
+      })
+    }
+  }
 
   return {
     statements,
-    totalParticipants: allVoters.size,
-    clusterCount: 0,
-    clusters: [],
+    totalParticipants: matrix.participants.length,
+    participants,
+    clusterCount: clusters.length,
+    clusters,
   }
 }
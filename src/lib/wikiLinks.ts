@@ -0,0 +1,93 @@
+/**
+ * Wiki page index and [[Page Title]] links
+ *
+ * Titles match case-insensitively with whitespace collapsed. The index covers the
+ * viewer's wiki pages, the configured wiki accounts and any extra owners asked for
+ * (the page being viewed); it is cached briefly so moving between pages is instant.
+ */
+
+import { getSession, publicAgent } from './bsky'
+import { listWikiPages } from './forum'
+import { FORUM_WIKI_ACCOUNTS } from '../config/forumWiki'
+import type { ForumWikiSummary } from '../types'
+
+const INDEX_CACHE_TTL_MS = 60 * 1000
+const WIKI_LINK = /\[\[([^[\]|\n]+)(?:\|[^[\]\n]+)?\]\]/g
+
+let indexCache: { key: string; pages: ForumWikiSummary[]; at: number } | null = null
+
+export function normalizeWikiTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/** In-app route of a wiki page. */
+export function wikiPageHref(uri: string): string {
+  return `/forum/wiki?uri=${encodeURIComponent(uri)}`
+}
+
+/** In-app route that starts a new page with this title. */
+export function newWikiPageHref(title: string): string {
+  return `/forum/wiki?new=${encodeURIComponent(title)}`
+}
+
+/** Normalized titles a page body links to, ignoring code blocks and code spans. */
+export function extractWikiLinks(body: string): string[] {
+  const text = body.replace(/^( {0,3})(`{3,}|~{3,})[\s\S]*?^ {0,3}\2[`~]*[ \t]*$/gm, '').replace(/`[^`\n]*`/g, '')
+  const titles = new Set<string>()
+  for (const m of text.matchAll(WIKI_LINK)) {
+    const title = normalizeWikiTitle(m[1])
+    if (title) titles.add(title)
+  }
+  return [...titles]
+}
+
+/**
+ * Finds the page for a title. When several pages share a title, pages owned by
+ * `preferDid` (the current page's owner) win, then the most recently updated.
+ */
+export function findWikiPage(pages: ForumWikiSummary[], title: string, preferDid?: string): ForumWikiSummary | null {
+  const wanted = normalizeWikiTitle(title)
+  const matches = pages.filter((p) => normalizeWikiTitle(p.title) === wanted)
+  matches.sort(
+    (a, b) => Number(b.wiki.did === preferDid) - Number(a.wiki.did === preferDid) || b.updatedAt.localeCompare(a.updatedAt)
+  )
+  return matches[0] ?? null
+}
+
+/** Pages whose current body links to `page` (by its current title). */
+export function findWikiBacklinks(pages: ForumWikiSummary[], page: ForumWikiSummary): ForumWikiSummary[] {
+  const title = normalizeWikiTitle(page.title)
+  return pages.filter(
+    (p) =>
+      p.wiki.uri !== page.wiki.uri &&
+      extractWikiLinks(p.body).includes(title) &&
+      // Only when the link actually resolves to this page, not a same-titled one
+      findWikiPage(pages, page.title, p.wiki.did)?.wiki.uri === page.wiki.uri
+  )
+}
+
+async function resolveAccount(handleOrDid: string): Promise<string | null> {
+  if (handleOrDid.startsWith('did:')) return handleOrDid
+  try {
+    return (await publicAgent.resolveHandle({ handle: handleOrDid })).data.did
+  } catch {
+    return null
+  }
+}
+
+/** Drop the cached index, after creating a page or saving a revision. */
+export function invalidateWikiIndex(): void {
+  indexCache = null
+}
+
+/** The wiki index: the viewer's pages, the configured accounts' and `extraDids`'. */
+export async function loadWikiIndex(extraDids: string[] = [], opts?: { force?: boolean }): Promise<ForumWikiSummary[]> {
+  const configured = await Promise.all(FORUM_WIKI_ACCOUNTS.map(resolveAccount))
+  const viewer = getSession()?.did
+  const dids = [...new Set([viewer, ...configured, ...extraDids].filter((d): d is string => !!d))].sort()
+  const key = dids.join(',')
+  if (!opts?.force && indexCache?.key === key && Date.now() - indexCache.at < INDEX_CACHE_TTL_MS) return indexCache.pages
+  const pages = await listWikiPages(dids)
+  indexCache = { key, pages, at: Date.now() }
+  return pages
+}
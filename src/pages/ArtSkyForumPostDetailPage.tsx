@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
 import {
   getForumPost,
   listForumReplies,
@@ -6,26 +7,61 @@ import {
   editForumPost,
   deleteForumPost,
   promoteToWiki,
+  getWikiForPost,
+  toggleLockForumPost,
+  editForumReply,
+  deleteForumReply,
+  getReplyHistory,
 } from '../lib/forum'
+import {
+  getForumModeration,
+  hideForumItem,
+  hideThreadReply,
+  isForumModerator,
+  unhideForumItem,
+  type ForumModeration,
+} from '../lib/forumModeration'
 import { listMyDownvotes, createDownvote, deleteDownvote } from '../lib/bsky'
 import { getDownvoteCounts } from '../lib/constellation'
+import { loadWikiIndex, wikiPageHref } from '../lib/wikiLinks'
 import { useSession } from '../context/SessionContext'
+import { useWikiLinkResolver } from '../hooks/useWikiLinkResolver'
 import { formatRelativeTime, formatExactDateTime } from '../lib/date'
 import PostText from '../components/PostText'
+import MediaGallery from '../components/MediaGallery'
+import ForumHiddenNotice from '../components/ForumHiddenNotice'
+import LineDiff from '../components/LineDiff'
+import ForumImagePicker from '../components/ForumImagePicker'
+import MarkdownBody from '../components/MarkdownBody'
+import MarkdownEditor from '../components/MarkdownEditor'
 import ProfileLink from '../components/ProfileLink'
-import type { ForumPost, ForumReply } from '../types'
+import WikiPanel from '../components/WikiPanel'
+import type { ForumHide, ForumImage, ForumImageDraft, ForumPost, ForumReply, ForumWiki, ForumWikiSummary } from '../types'
 import styles from './ForumPostDetailPage.module.css'
 import postBlockStyles from './PostDetailPage.module.css'
 
 const REPLY_THREAD_INDENT = 20
 
+function galleryItems(images: ForumImage[]) {
+  return images.map((img) => ({ url: img.url, type: 'image' as const, alt: img.alt }))
+}
+
 function isArtSkyForumUri(uri: string): boolean {
   return uri.includes('app.artsky.forum.post')
 }
 
+/** Stand-in for a parent reply that is gone entirely, so the replies under it stay threaded. */
+function deletedPlaceholder(uri: string): ForumReply {
+  return { uri, cid: '', author: { did: '', handle: '' }, record: {}, deleted: true }
+}
+
 function buildReplyTree(replies: ForumReply[], postUri: string): { reply: ForumReply; children: { reply: ForumReply; children: unknown[] }[] }[] {
   const byParent = new Map<string, ForumReply[]>()
-  for (const r of replies) {
+  const known = new Set(replies.map((r) => r.uri))
+  const missingParents = new Set(
+    replies.map((r) => r.replyTo).filter((p): p is string => !!p && p !== postUri && !known.has(p))
+  )
+  for (const r of [...replies, ...[...missingParents].map(deletedPlaceholder)]) {
     const parent = r.replyTo ?? postUri
     if (!byParent.has(parent)) byParent.set(parent, [])
     byParent.get(parent)!.push(r)
@@ -35,10 +71,12 @@ function buildReplyTree(replies: ForumReply[], postUri: string): { reply: ForumR
 
   function buildNodes(parentKey: string): { reply: ForumReply; children: ReturnType<typeof buildNodes> }[] {
     const list = (byParent.get(parentKey) ?? []).slice().sort(sortByTime)
-    return list.map((reply) => ({
-      reply,
-      children: buildNodes(reply.uri),
-    }))
+    return list
+      .map((reply) => ({
+        reply,
+        children: buildNodes(reply.uri),
+      }))
+      .filter((node) => !node.reply.deleted || node.children.length > 0)
   }
   return buildNodes(postUri)
 }
@@ -57,6 +95,24 @@ function flattenReplyTree(
   return out
 }
 
+/** Versions of a reply edited on this device, latest change first, each diffed against the one before. */
+function ReplyHistory({ reply }: { reply: ForumReply }) {
+  const versions = [...getReplyHistory(reply.uri), { text: reply.record.text ?? '', createdAt: reply.record.editedAt ?? '' }]
+  const changes = versions.slice(1).map((after, i) => ({ before: versions[i], after })).reverse()
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', margin: '0.5rem 0' }}>
+      {changes.map(({ before, after }, i) => (
+        <div key={i}>
+          <div style={{ fontSize: '0.8rem', color: 'var(--muted)', marginBottom: '0.25rem' }}>
+            {after.createdAt ? `Edited ${formatExactDateTime(after.createdAt)}` : 'Edited'}
+          </div>
+          <LineDiff before={before.text} after={after.text} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
 export interface ArtSkyForumPostContentProps {
   documentUri: string
   onClose: () => void
@@ -65,10 +121,20 @@ export interface ArtSkyForumPostContentProps {
 
 export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh }: ArtSkyForumPostContentProps) {
   const [post, setPost] = useState<ForumPost | null>(null)
+  const [wiki, setWiki] = useState<ForumWiki | null>(null)
+  const [wikiPages, setWikiPages] = useState<ForumWikiSummary[] | null>(null)
   const [replies, setReplies] = useState<ForumReply[]>([])
+  const [moderation, setModeration] = useState<ForumModeration>({ lists: [], moderators: [], hidden: new Map() })
+  /** Hidden posts and replies the viewer chose to show */
+  const [revealed, setRevealed] = useState<string[]>([])
+  const [editingReplyUri, setEditingReplyUri] = useState<string | null>(null)
+  const [editReplyText, setEditReplyText] = useState('')
+  const [replySaving, setReplySaving] = useState(false)
+  const [historyReplyUri, setHistoryReplyUri] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [replyText, setReplyText] = useState('')
+  const [replyImages, setReplyImages] = useState<ForumImageDraft[]>([])
   const [posting, setPosting] = useState(false)
   const [editMode, setEditMode] = useState(false)
   const [editTitle, setEditTitle] = useState('')
@@ -86,6 +152,22 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
   const [myDownvoteUris, setMyDownvoteUris] = useState<Record<string, string>>({})
   const [downvoteCounts, setDownvoteCounts] = useState<Record<string, number>>({})
   const { session } = useSession()
+  const wikiOwner = wiki?.did
+  const wikiLink = useWikiLinkResolver(wikiPages, wikiOwner)
+
+  useEffect(() => {
+    let cancelled = false
+    if (wikiOwner) {
+      loadWikiIndex([wikiOwner])
+        .catch(() => [])
+        .then((p) => {
+          if (!cancelled) setWikiPages(p)
+        })
+    }
+    return () => {
+      cancelled = true
+    }
+  }, [wikiOwner])
 
   const load = useCallback(async () => {
     if (!documentUri) return
@@ -98,6 +180,9 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
       ])
       setPost(p)
       setReplies(r)
+      setWiki(p?.isWiki ? await getWikiForPost(p) : null)
+      const m = p ? await getForumModeration(p).catch(() => null) : null
+      if (m) setModeration(m)
       if (session?.did) {
         const downvotes = await listMyDownvotes()
         setMyDownvoteUris(downvotes)
@@ -125,11 +210,16 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
 
   async function handleReplySubmit(e: React.FormEvent) {
     e.preventDefault()
-    if (!session || !post || !replyText.trim() || posting) return
+    if (!session || !post || (!replyText.trim() && replyImages.length === 0) || posting) return
     setPosting(true)
     try {
-      await createForumReply({ postUri: documentUri, text: replyText.trim() })
+      await createForumReply({
+        postUri: documentUri,
+        text: replyText.trim(),
+        images: replyImages,
+      })
       setReplyText('')
+      setReplyImages([])
       const r = await listForumReplies(documentUri, [session.did])
       setReplies(r)
     } catch (err) {
@@ -173,11 +263,78 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
       await promoteToWiki(documentUri)
       const p = await getForumPost(documentUri)
       setPost(p)
+      if (p) setWiki(await getWikiForPost(p))
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Failed to promote')
     }
   }
 
+  function startReplyEdit(reply: ForumReply) {
+    setEditingReplyUri(reply.uri)
+    setEditReplyText(reply.record.text ?? '')
+  }
+
+  async function handleReplyEditSave(reply: ForumReply) {
+    if (replySaving || !session) return
+    setReplySaving(true)
+    try {
+      await editForumReply(reply, editReplyText)
+      setReplies(await listForumReplies(documentUri, [session.did]))
+      setEditingReplyUri(null)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setReplySaving(false)
+    }
+  }
+
+  async function handleReplyDelete(reply: ForumReply) {
+    if (!session || !confirm('Delete this reply?')) return
+    try {
+      await deleteForumReply(reply, { hasChildren: replies.some((r) => r.replyTo === reply.uri) })
+      setReplies(await listForumReplies(documentUri, [session.did]))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete')
+    }
+  }
+
+  async function handleToggleLock() {
+    if (!post) return
+    try {
+      await toggleLockForumPost(documentUri, !post.isLocked)
+      setPost(await getForumPost(documentUri))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update the thread')
+    }
+  }
+
+  async function handleHide(subject: string) {
+    if (!post || !session) return
+    const reason = prompt('Reason for hiding (optional)')
+    if (reason === null) return
+    try {
+      // The thread author hides replies in their own thread; anything else is a moderator hide
+      const hide =
+        subject !== post.uri && session.did === post.did
+          ? await hideThreadReply(post, subject, reason)
+          : await hideForumItem(subject, reason)
+      setModeration((m) => ({ ...m, hidden: new Map(m.hidden).set(subject, hide) }))
+      setRevealed((r) => r.filter((u) => u !== subject))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to hide')
+    }
+  }
+
+  async function handleUnhide(hide: ForumHide) {
+    if (!post) return
+    try {
+      await unhideForumItem(hide)
+      setModeration(await getForumModeration(post))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to unhide')
+    }
+  }
+
   async function handleDownvote(subjectUri: string, subjectCid: string) {
     if (!session) return
     try {
@@ -226,9 +383,12 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
   }
 
   const isOwn = session?.did === post.did
+  const canModerate = isForumModerator(moderation, session?.did)
+  const postHide = moderation.hidden.get(post.uri)
   const postDownvotes = downvoteCounts[post.uri] ?? 0
   const postDownvoted = !!myDownvoteUris[post.uri]
   const replyTreeFlat = flattenReplyTree(buildReplyTree(replies, documentUri))
+  const replyCount = replies.filter((r) => !r.deleted).length
 
   return (
     <div className={styles.wrap}>
@@ -237,6 +397,7 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
           <div style={{ display: 'flex', gap: 'var(--space-sm)', marginBottom: 'var(--space-sm)' }}>
             {post.isPinned && <span className={styles.commentBadge}>Pinned</span>}
             {post.isWiki && <span className={styles.commentBadge}>Wiki</span>}
+            {post.isLocked && <span className={styles.commentBadge}>Locked</span>}
           </div>
           <div className={postBlockStyles.postHead}>
             {post.authorAvatar ? (
@@ -257,14 +418,22 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
               )}
             </div>
           </div>
-          {!editMode ? (
+          {postHide && !revealed.includes(post.uri) ? (
+            <ForumHiddenNotice
+              hide={postHide}
+              label="Post"
+              onShow={() => setRevealed((r) => [...r, post.uri])}
+              onUnhide={postHide.did === session?.did ? () => handleUnhide(postHide) : undefined}
+            />
+          ) : !editMode ? (
             <>
               <h1 className={styles.docTitle}>{post.title || 'Untitled'}</h1>
               {post.body && (
                 <div className={styles.docBody}>
-                  <PostText text={post.body} />
+                  <MarkdownBody text={post.body} authorDid={post.did} />
                 </div>
               )}
+              {post.images && <MediaGallery items={galleryItems(post.images)} />}
               {post.tags && post.tags.length > 0 && (
                 <div style={{ display: 'flex', gap: 'var(--space-xs)', marginTop: 'var(--space-md)', flexWrap: 'wrap' }}>
                   {post.tags.map((tag) => (
@@ -287,14 +456,22 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
                   ↓ {postDownvotes}
                 </button>
                 <span style={{ fontSize: 'var(--font-sm)', color: 'var(--muted)' }}>
-                  {replies.length} repl{replies.length === 1 ? 'y' : 'ies'}
+                  {replyCount} repl{replyCount === 1 ? 'y' : 'ies'}
                 </span>
+                {canModerate && !postHide && (
+                  <button type="button" className={styles.actionBtn} onClick={() => handleHide(post.uri)}>
+                    Hide post
+                  </button>
+                )}
               </div>
               {isOwn && (
                 <div className={styles.actions} style={{ marginTop: 'var(--space-md)' }}>
                   <button type="button" className={styles.actionBtn} onClick={() => setEditMode(true)}>
                     Edit
                   </button>
+                  <button type="button" className={styles.actionBtn} onClick={handleToggleLock}>
+                    {post.isLocked ? 'Unlock thread' : 'Lock thread'}
+                  </button>
                   {!post.isWiki && (
                     <button type="button" className={styles.actionBtn} onClick={handlePromoteWiki}>
                       Promote to Wiki
@@ -340,16 +517,16 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
                   placeholder="Title"
                 />
               </label>
-              <label className={styles.editLabel}>
+              <div className={styles.editLabel}>
                 Body
-                <textarea
-                  className={styles.editTextarea}
+                <MarkdownEditor
+                  textareaClassName={styles.editTextarea}
                   value={editBody}
-                  onChange={(e) => setEditBody(e.target.value)}
+                  onChange={setEditBody}
                   placeholder="Write your post…"
-                  rows={8}
+                  authorDid={post.did}
                 />
-              </label>
+              </div>
               <div className={styles.editActions}>
                 <button
                   type="button"
@@ -373,7 +550,22 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
         </div>
       </article>
 
-      {session && (
+      {wiki && (
+        <>
+          <WikiPanel key={wiki.uri} wiki={wiki} wikiLink={wikiLink} />
+          <Link to={wikiPageHref(wiki.uri)} style={{ display: 'inline-block', marginTop: '0.5rem', fontSize: '0.85rem', color: 'var(--accent)' }}>
+            Open wiki page →
+          </Link>
+        </>
+      )}
+
+      {session && post.isLocked && (
+        <section className={styles.replySection}>
+          <p className={styles.muted}>This thread is locked. New replies are turned off.</p>
+        </section>
+      )}
+
+      {session && !post.isLocked && (
         <section className={styles.replySection}>
           <h2 className={styles.replySectionTitle}>Reply</h2>
           <form onSubmit={handleReplySubmit} className={styles.replyForm}>
@@ -385,7 +577,12 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
               rows={3}
               disabled={posting}
             />
-            <button type="submit" className={styles.replySubmit} disabled={posting || !replyText.trim()}>
+            <ForumImagePicker images={replyImages} onChange={setReplyImages} disabled={posting} />
+            <button
+              type="submit"
+              className={styles.replySubmit}
+              disabled={posting || (!replyText.trim() && replyImages.length === 0)}
+            >
               {posting ? 'Posting…' : 'Post reply'}
             </button>
           </form>
@@ -393,7 +590,7 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
       )}
 
       <section className={styles.repliesSection}>
-        <h2 className={styles.replySectionTitle}>Replies ({replies.length})</h2>
+        <h2 className={styles.replySectionTitle}>Replies ({replyCount})</h2>
         {replyTreeFlat.length === 0 ? (
           <p className={styles.muted}>No replies yet.</p>
         ) : (
@@ -402,6 +599,34 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
               const downvotes = downvoteCounts[r.uri] ?? 0
               const downvoted = !!myDownvoteUris[r.uri]
               const handle = r.author.handle ?? r.author.did
+              const hide = moderation.hidden.get(r.uri)
+              if (r.deleted) {
+                return (
+                  <li
+                    key={r.uri}
+                    className={depth > 0 ? `${styles.replyItem} ${styles.replyItemNested}` : styles.replyItem}
+                    style={{ marginLeft: depth * REPLY_THREAD_INDENT }}
+                  >
+                    <p className={styles.muted}>[deleted]</p>
+                  </li>
+                )
+              }
+              if (hide && !revealed.includes(r.uri)) {
+                return (
+                  <li
+                    key={r.uri}
+                    className={depth > 0 ? `${styles.replyItem} ${styles.replyItemNested}` : styles.replyItem}
+                    style={{ marginLeft: depth * REPLY_THREAD_INDENT }}
+                  >
+                    <ForumHiddenNotice
+                      hide={hide}
+                      label="Reply"
+                      onShow={() => setRevealed((list) => [...list, r.uri])}
+                      onUnhide={hide.did === session?.did ? () => handleUnhide(hide) : undefined}
+                    />
+                  </li>
+                )
+              }
               return (
                 <li
                   key={r.uri}
@@ -425,13 +650,53 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
                           {formatRelativeTime(r.record.createdAt)}
                         </span>
                       )}
+                      {r.record.editedAt &&
+                        (getReplyHistory(r.uri).length > 0 ? (
+                          <button
+                            type="button"
+                            className={postBlockStyles.postTimestamp}
+                            style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', textDecoration: 'underline' }}
+                            title={`Edited ${formatExactDateTime(r.record.editedAt)}`}
+                            aria-expanded={historyReplyUri === r.uri}
+                            onClick={() => setHistoryReplyUri(historyReplyUri === r.uri ? null : r.uri)}
+                          >
+                            edited
+                          </button>
+                        ) : (
+                          <span className={postBlockStyles.postTimestamp} title={`Edited ${formatExactDateTime(r.record.editedAt)}`}>
+                            edited
+                          </span>
+                        ))}
                     </div>
                   </div>
-                  {r.record?.text && (
-                    <div className={styles.replyText}>
-                      <PostText text={r.record.text} />
+                  {historyReplyUri === r.uri && <ReplyHistory reply={r} />}
+                  {editingReplyUri === r.uri ? (
+                    <div className={styles.editForm}>
+                      <textarea
+                        className={styles.replyTextarea}
+                        value={editReplyText}
+                        onChange={(e) => setEditReplyText(e.target.value)}
+                        rows={3}
+                        disabled={replySaving}
+                        aria-label="Edit reply"
+                      />
+                      <div className={styles.editActions}>
+                        <button type="button" className={styles.actionBtn} onClick={() => setEditingReplyUri(null)} disabled={replySaving}>
+                          Cancel
+                        </button>
+                        <button type="button" className={styles.actionBtnPrimary} onClick={() => handleReplyEditSave(r)} disabled={replySaving}>
+                          {replySaving ? 'Saving…' : 'Save'}
+                        </button>
+                      </div>
                     </div>
+                  ) : (
+                    r.record?.text && (
+                      <div className={styles.replyText}>
+                        <PostText text={r.record.text} />
+                      </div>
+                    )
                   )}
+                  {r.images && <MediaGallery items={galleryItems(r.images)} />}
                   {session && (
                     <button
                       type="button"
@@ -444,6 +709,21 @@ export function ArtSkyForumPostContent({ documentUri, onClose, onRegisterRefresh
                       ↓ {downvotes}
                     </button>
                   )}
+                  {(isOwn || canModerate) && !hide && (
+                    <button type="button" className={styles.likeBtn} onClick={() => handleHide(r.uri)} title="Hide this reply">
+                      Hide
+                    </button>
+                  )}
+                  {session?.did === r.author.did && editingReplyUri !== r.uri && (
+                    <>
+                      <button type="button" className={styles.likeBtn} onClick={() => startReplyEdit(r)}>
+                        Edit
+                      </button>
+                      <button type="button" className={styles.likeBtn} onClick={() => handleReplyDelete(r)}>
+                        Delete
+                      </button>
+                    </>
+                  )}
                 </li>
               )
             })}
@@ -1,8 +1,60 @@
 import { useCallback, useEffect, useState } from 'react'
-import { listProjects, createProject } from '../lib/collab'
-import { getSession } from '../lib/bsky'
+import { Link, useNavigate } from 'react-router-dom'
+import {
+  listProjects,
+  createProject,
+  getProject,
+  listProjectMembers,
+  getMemberRole,
+  inviteProjectMember,
+  removeProjectMember,
+  acceptProjectInvite,
+  leaveProject,
+  listMyInvitations,
+  listReleases,
+  createRelease,
+  deleteRelease,
+  getProjectForumTag,
+  getKanbanBoard,
+  getCachedKanbanBoard,
+  getKanbanReaders,
+  addKanbanCard,
+  reorderKanbanCard,
+  updateKanbanCard,
+  deleteKanbanCard,
+  addKanbanColumn,
+  renameKanbanColumn,
+  reorderKanbanColumn,
+  setKanbanWipLimit,
+  deleteKanbanColumn,
+  forkProject,
+  updateProject,
+  type KanbanCardEdit,
+} from '../lib/collab'
+import { agent, getSession, publicAgent } from '../lib/bsky'
 import Layout from '../components/Layout'
-import type { CollabProject, ProjectType } from '../types'
+import KanbanBoardView from '../components/KanbanBoardView'
+import KanbanAnalytics from '../components/KanbanAnalytics'
+import ReleaseTimeline from '../components/ReleaseTimeline'
+import MagnetPanel from '../components/MagnetPanel'
+import GltfInspector from '../components/GltfInspector'
+import ProjectActivityFeed from '../components/ProjectActivityFeed'
+import ProjectLineageView from '../components/ProjectLineageView'
+import AssetManifestPanel from '../components/AssetManifestPanel'
+import { createProjectDiscovery, matchesProjectSearch, type ProjectSearch } from '../lib/collabDiscovery'
+import { validateMagnet } from '../lib/magnet'
+import { projectPrefill, readProjectFile } from '../lib/projectFiles'
+import type {
+  CollabProject,
+  CollabRole,
+  KanbanBoard,
+  ProjectInvitation,
+  ProjectAsset,
+  ProjectMember,
+  ProjectRelease,
+  ProjectType,
+  ReleaseDownload,
+} from '../types'
 import styles from './ForumPage.module.css'
 
 const PROJECT_TYPES: { value: ProjectType; label: string; icon: string }[] = [
@@ -11,11 +63,25 @@ const PROJECT_TYPES: { value: ProjectType; label: string; icon: string }[] = [
   { value: 'general', label: 'General', icon: '📁' },
 ]
 
+/** New matches to find per "Load more" in project discovery. */
+const DISCOVER_PAGE_SIZE = 12
+
+const ROLE_LABELS: Record<CollabRole, string> = {
+  owner: 'Owner',
+  maintainer: 'Maintainer',
+  contributor: 'Contributor',
+  viewer: 'Viewer',
+}
+
 export function CollabContent() {
   const [projects, setProjects] = useState<CollabProject[]>([])
   const [loading, setLoading] = useState(true)
   const [showCreate, setShowCreate] = useState(false)
-  const [filterType, setFilterType] = useState<string>('')
+  const [filterType, setFilterType] = useState<ProjectType | ''>('')
+  const [view, setView] = useState<'mine' | 'discover'>('mine')
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([])
+  const [fileSummary, setFileSummary] = useState<string | null>(null)
+  const [fileDragOver, setFileDragOver] = useState(false)
   const [form, setForm] = useState({
     name: '',
     description: '',
@@ -41,15 +107,52 @@ export function CollabContent() {
     } finally {
       setLoading(false)
     }
+    setInvitations(await listMyInvitations())
   }, [session?.did])
 
   useEffect(() => {
     load()
   }, [load])
 
+  async function handleAcceptInvite(invite: ProjectInvitation) {
+    try {
+      await acceptProjectInvite(invite.projectUri)
+      setInvitations((list) => list.map((i) => (i.inviteUri === invite.inviteUri ? { ...i, accepted: true } : i)))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not accept invite')
+    }
+  }
+
+  const magnetError = form.magnetLink.trim() ? validateMagnet(form.magnetLink) : null
+
+  /** Fill the form from a project.godot or .blend file, read locally. */
+  async function handleProjectFile(file: File) {
+    try {
+      const prefill = projectPrefill(await readProjectFile(file), file.name)
+      setForm((f) => {
+        const tags = [...new Set([...f.tags.split(',').map((t) => t.trim()).filter(Boolean), ...prefill.tags])]
+        return {
+          ...f,
+          name: prefill.name ?? f.name,
+          type: prefill.type,
+          version: prefill.version ?? f.version,
+          tags: tags.join(', '),
+        }
+      })
+      setFileSummary(`${file.name}: ${prefill.summary}`)
+    } catch (err) {
+      setFileSummary(null)
+      alert(err instanceof Error ? err.message : 'Could not read file')
+    }
+  }
+
   async function handleCreate(e: React.FormEvent) {
     e.preventDefault()
     if (!form.name.trim() || !session?.did) return
+    if (magnetError) {
+      alert(`Invalid magnet link: ${magnetError}`)
+      return
+    }
     try {
       await createProject({
         name: form.name,
@@ -62,6 +165,7 @@ export function CollabContent() {
         previewUrl: form.previewUrl || undefined,
       })
       setShowCreate(false)
+      setFileSummary(null)
       setForm({ name: '', description: '', type: 'general', tags: '', version: '0.1.0', externalUrl: '', magnetLink: '', previewUrl: '' })
       const result = await listProjects(session.did)
       setProjects(result.projects)
@@ -92,6 +196,43 @@ export function CollabContent() {
       {showCreate && session?.did && (
         <div style={{ padding: '1rem', marginBottom: '1rem', background: 'var(--surface)', borderRadius: '0.5rem', border: '1px solid var(--border)' }}>
           <h3 style={{ marginBottom: '0.75rem' }}>Create Project</h3>
+          <label
+            onDragOver={(e) => {
+              e.preventDefault()
+              setFileDragOver(true)
+            }}
+            onDragLeave={() => setFileDragOver(false)}
+            onDrop={(e) => {
+              e.preventDefault()
+              setFileDragOver(false)
+              const file = e.dataTransfer.files[0]
+              if (file) handleProjectFile(file)
+            }}
+            style={{
+              display: 'block',
+              padding: '0.75rem',
+              marginBottom: '0.75rem',
+              border: `2px dashed ${fileDragOver ? 'var(--accent)' : 'var(--border)'}`,
+              borderRadius: '0.5rem',
+              fontSize: '0.85rem',
+              color: 'var(--muted)',
+              textAlign: 'center',
+              cursor: 'pointer',
+            }}
+          >
+            Drop a <code>project.godot</code> or <code>.blend</code> file to fill in the form (read on this device, not uploaded)
+            <input
+              type="file"
+              accept=".godot,.blend"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleProjectFile(file)
+                e.target.value = ''
+              }}
+              style={{ display: 'none' }}
+            />
+            {fileSummary && <span style={{ display: 'block', marginTop: '0.35rem', color: 'var(--text)' }}>{fileSummary}</span>}
+          </label>
           <form onSubmit={handleCreate}>
             <input
               type="text"
@@ -146,8 +287,14 @@ export function CollabContent() {
               placeholder="Torrent magnet link"
               value={form.magnetLink}
               onChange={(e) => setForm((f) => ({ ...f, magnetLink: e.target.value }))}
+              aria-invalid={!!magnetError}
               style={{ width: '100%', marginBottom: '0.25rem', padding: '0.5rem' }}
             />
+            {magnetError && (
+              <p className={styles.error} style={{ margin: '0 0 0.25rem', fontSize: '0.8rem' }}>
+                {magnetError}
+              </p>
+            )}
             <input
               type="url"
               placeholder="Preview URL"
@@ -167,6 +314,42 @@ export function CollabContent() {
         </div>
       )}
 
+      {invitations.length > 0 && (
+        <section style={{ marginBottom: '1rem' }}>
+          <h3 style={{ marginBottom: '0.5rem' }}>Invitations</h3>
+          <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+            {invitations.map((invite) => (
+              <li key={invite.inviteUri} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.9rem' }}>
+                <Link to={`/collab/project?uri=${encodeURIComponent(invite.projectUri)}`} className={styles.standardLink}>
+                  {invite.projectName || 'Untitled project'}
+                </Link>
+                <span className={styles.commentBadge}>{ROLE_LABELS[invite.role] ?? invite.role}</span>
+                {invite.accepted ? (
+                  <span style={{ color: 'var(--muted)' }}>Member</span>
+                ) : (
+                  <button type="button" className={styles.tab} onClick={() => handleAcceptInvite(invite)}>
+                    Accept invite
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <div className={styles.tabs} style={{ marginBottom: '0.5rem' }}>
+        <button type="button" className={view === 'mine' ? styles.tabActive : styles.tab} onClick={() => setView('mine')}>
+          My projects
+        </button>
+        <button
+          type="button"
+          className={view === 'discover' ? styles.tabActive : styles.tab}
+          onClick={() => setView('discover')}
+        >
+          Discover
+        </button>
+      </div>
+
       <div className={styles.tabs} style={{ marginBottom: '0.75rem' }}>
         <button
           type="button"
@@ -187,7 +370,9 @@ export function CollabContent() {
         ))}
       </div>
 
-      {!session ? (
+      {view === 'discover' ? (
+        <DiscoverProjects filterType={filterType} />
+      ) : !session ? (
         <div className={styles.empty}>Log in to create and view projects.</div>
       ) : loading ? (
         <div className={styles.loading}>Loading projects…</div>
@@ -195,54 +380,597 @@ export function CollabContent() {
         <div className={styles.empty}>No projects yet. Create one to start collaborating!</div>
       ) : (
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))', gap: '1rem' }}>
-          {filtered.map((project) => {
-            const typeInfo = PROJECT_TYPES.find((pt) => pt.value === project.type)
-            return (
-              <div
-                key={project.uri}
-                style={{
-                  padding: '1rem',
-                  background: 'var(--surface)',
-                  borderRadius: '0.5rem',
-                  border: '1px solid var(--border)',
-                }}
-              >
-                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
-                  <span style={{ fontSize: '1.25rem' }}>{typeInfo?.icon ?? '📁'}</span>
-                  <h3 style={{ fontSize: '1rem', fontWeight: 700, margin: 0 }}>{project.name}</h3>
-                  <span className={styles.commentBadge} style={{ marginLeft: 'auto' }}>
-                    {project.version}
-                  </span>
-                </div>
-                <p style={{ fontSize: '0.9rem', color: 'var(--muted)', marginBottom: '0.75rem' }}>
-                  {project.description?.slice(0, 120) || 'No description'}
-                </p>
-                {project.tags && project.tags.length > 0 && (
-                  <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
-                    {project.tags.map((tag) => (
-                      <span key={tag} className={styles.commentBadge} style={{ fontSize: '0.75rem' }}>
-                        #{tag}
-                      </span>
-                    ))}
-                  </div>
-                )}
-                <div style={{ display: 'flex', gap: '0.5rem', fontSize: '0.85rem' }}>
-                  {project.externalUrl && (
-                    <a href={project.externalUrl} target="_blank" rel="noopener noreferrer" className={styles.standardLink}>
-                      Files
-                    </a>
-                  )}
-                  {project.magnetLink && <span style={{ color: 'var(--muted)' }}>Torrent</span>}
-                  {project.previewUrl && (
-                    <a href={project.previewUrl} target="_blank" rel="noopener noreferrer" className={styles.standardLink}>
-                      Preview
-                    </a>
-                  )}
-                </div>
-              </div>
-            )
-          })}
+          {filtered.map((project) => (
+            <ProjectCard key={project.uri} project={project} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Projects from you, the configured discovery accounts and everyone you follow, searchable and paged. */
+function DiscoverProjects({ filterType }: { filterType: ProjectType | '' }) {
+  const [discovery] = useState(createProjectDiscovery)
+  const [found, setFound] = useState<CollabProject[]>([])
+  const [handles, setHandles] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [query, setQuery] = useState('')
+  const [tags, setTags] = useState('')
+  const search: ProjectSearch = {
+    query,
+    type: filterType,
+    tags: tags.split(',').map((t) => t.trim()).filter(Boolean),
+  }
+
+  const showResults = useCallback(async () => {
+    const projects = discovery.projects()
+    setFound(projects)
+    const known = Object.fromEntries(discovery.handles())
+    const missing = projects.map((p) => p.owner).filter((did) => !known[did])
+    setHandles({ ...known, ...(await fetchHandles(missing)) })
+  }, [discovery])
+
+  useEffect(() => {
+    discovery
+      .loadMore({}, DISCOVER_PAGE_SIZE)
+      .then(showResults)
+      .finally(() => setLoading(false))
+  }, [discovery, showResults])
+
+  async function loadMore() {
+    setLoading(true)
+    try {
+      await discovery.loadMore(search, DISCOVER_PAGE_SIZE)
+      await showResults()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const matches = found.filter((p) => matchesProjectSearch(p, search))
+
+  return (
+    <div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (!loading && !discovery.done()) loadMore()
+        }}
+        style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.75rem' }}
+      >
+        <input
+          type="search"
+          placeholder="Search by name"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          style={{ flex: '2 1 12rem', padding: '0.5rem' }}
+        />
+        <input
+          type="text"
+          placeholder="Tags (comma-separated)"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          style={{ flex: '1 1 10rem', padding: '0.5rem' }}
+        />
+        <button type="submit" className={styles.tab} disabled={loading || discovery.done()}>
+          Search
+        </button>
+      </form>
+
+      {matches.length === 0 ? (
+        loading ? (
+          <div className={styles.loading}>Looking for projects…</div>
+        ) : (
+          <div className={styles.empty}>No matching projects{discovery.done() ? '.' : ' yet. Load more to keep searching.'}</div>
+        )
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(280px, 1fr))', gap: '1rem' }}>
+          {matches.map((project) => (
+            <ProjectCard key={project.uri} project={project} ownerLabel={handles[project.owner] ? `@${handles[project.owner]}` : project.owner} />
+          ))}
+        </div>
+      )}
+
+      <div style={{ marginTop: '1rem', fontSize: '0.85rem', color: 'var(--muted)' }}>
+        {discovery.done() ? (
+          <>All sources searched · {found.length} projects</>
+        ) : (
+          <button type="button" className={styles.tab} disabled={loading} onClick={loadMore}>
+            {loading ? 'Loading…' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/** Project summary card for the project grid. `ownerLabel` is shown for other people's projects. */
+function ProjectCard({ project, ownerLabel }: { project: CollabProject; ownerLabel?: string }) {
+  const typeInfo = PROJECT_TYPES.find((pt) => pt.value === project.type)
+  return (
+    <div
+      style={{
+        padding: '1rem',
+        background: 'var(--surface)',
+        borderRadius: '0.5rem',
+        border: '1px solid var(--border)',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+        <span style={{ fontSize: '1.25rem' }}>{typeInfo?.icon ?? '📁'}</span>
+        <h3 style={{ fontSize: '1rem', fontWeight: 700, margin: 0 }}>
+          <Link to={`/collab/project?uri=${encodeURIComponent(project.uri)}`} className={styles.standardLink}>
+            {project.name}
+          </Link>
+        </h3>
+        <span className={styles.commentBadge} style={{ marginLeft: 'auto' }}>
+          {project.version}
+        </span>
+      </div>
+      {ownerLabel && (
+        <p style={{ fontSize: '0.8rem', color: 'var(--muted)', margin: '0 0 0.5rem' }}>by {ownerLabel}</p>
+      )}
+      <p style={{ fontSize: '0.9rem', color: 'var(--muted)', marginBottom: '0.75rem' }}>
+        {project.description?.slice(0, 120) || 'No description'}
+      </p>
+      {project.tags && project.tags.length > 0 && (
+        <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
+          {project.tags.map((tag) => (
+            <span key={tag} className={styles.commentBadge} style={{ fontSize: '0.75rem' }}>
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: '0.5rem', fontSize: '0.85rem' }}>
+        {project.externalUrl && (
+          <a href={project.externalUrl} target="_blank" rel="noopener noreferrer" className={styles.standardLink}>
+            Files
+          </a>
+        )}
+        {project.previewUrl && (
+          <a href={project.previewUrl} target="_blank" rel="noopener noreferrer" className={styles.standardLink}>
+            Preview
+          </a>
+        )}
+      </div>
+      {project.magnetLink && (
+        <div style={{ marginTop: '0.5rem' }}>
+          <MagnetPanel magnetLink={project.magnetLink} compact />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Handles for DIDs, fetched in one batch. Unknown DIDs map to themselves. */
+async function fetchHandles(dids: string[]): Promise<Record<string, string>> {
+  const out: Record<string, string> = {}
+  const unique = [...new Set(dids.filter(Boolean))]
+  for (let i = 0; i < unique.length; i += 25) {
+    try {
+      const res = await publicAgent.getProfiles({ actors: unique.slice(i, i + 25) })
+      for (const p of res.data.profiles) out[p.did] = p.handle
+    } catch {
+      /* ignore */
+    }
+  }
+  return out
+}
+
+export function CollabProjectContent({ projectUri }: { projectUri: string }) {
+  const [project, setProject] = useState<CollabProject | null>(null)
+  const [board, setBoard] = useState<KanbanBoard | null>(() => getCachedKanbanBoard(projectUri))
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const [releases, setReleases] = useState<ProjectRelease[]>([])
+  const [handles, setHandles] = useState<Record<string, string>>({})
+  const [memberInput, setMemberInput] = useState('')
+  const [inviteRole, setInviteRole] = useState<CollabRole>('contributor')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [forking, setForking] = useState(false)
+  const session = getSession()
+  const navigate = useNavigate()
+
+  const load = useCallback(async () => {
+    try {
+      setError(null)
+      const p = await getProject(projectUri)
+      if (!p) {
+        setError('Project not found')
+        return
+      }
+      setProject(p)
+      const m = await listProjectMembers(p)
+      setMembers(m)
+      const [b, r] = await Promise.all([getKanbanBoard(projectUri), listReleases(p)])
+      setBoard(b)
+      setReleases(r)
+      const dids = [...m.map((member) => member.did), ...r.map((release) => release.did)]
+      for (const col of b.columns) {
+        for (const card of col.cards) {
+          if (card.assignee) dids.push(card.assignee)
+          if (card.updatedBy) dids.push(card.updatedBy)
+        }
+      }
+      setHandles(await fetchHandles(dids))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load project')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectUri])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  async function handleAddCard(columnId: string, title: string) {
+    try {
+      await addKanbanCard(projectUri, columnId, { title, priority: 'medium' })
+      setBoard(getCachedKanbanBoard(projectUri))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to add card')
+    }
+  }
+
+  async function handleMoveCard(cardId: string, toColumnId: string, toIndex: number) {
+    try {
+      await reorderKanbanCard(projectUri, cardId, toColumnId, toIndex)
+      setBoard(getCachedKanbanBoard(projectUri))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to move card')
+    }
+  }
+
+  async function handleUpdateCard(cardId: string, edit: KanbanCardEdit) {
+    try {
+      await updateKanbanCard(projectUri, cardId, edit)
+      setBoard(getCachedKanbanBoard(projectUri))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save card')
+      throw err
+    }
+  }
+
+  async function handleDeleteCard(cardId: string) {
+    try {
+      await deleteKanbanCard(projectUri, cardId)
+      setBoard(getCachedKanbanBoard(projectUri))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete card')
+      throw err
+    }
+  }
+
+  /** Column edits return the rebuilt board. */
+  async function handleColumnChange(change: () => Promise<KanbanBoard>, fallback: string) {
+    try {
+      setBoard(await change())
+    } catch (err) {
+      alert(err instanceof Error ? err.message : fallback)
+    }
+  }
+
+  async function refreshMembers() {
+    if (!project) return
+    setMembers(await listProjectMembers(project, { force: true }))
+  }
+
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault()
+    if (!project || !memberInput.trim()) return
+    try {
+      const actor = memberInput.trim().replace(/^@/, '')
+      const profile = await agent.getProfile({ actor })
+      await inviteProjectMember(project.uri, profile.data.did, inviteRole)
+      setHandles((h) => ({ ...h, [profile.data.did]: profile.data.handle }))
+      setMemberInput('')
+      await refreshMembers()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not invite member')
+    }
+  }
+
+  async function handleChangeRole(did: string, role: CollabRole) {
+    if (!project) return
+    try {
+      await inviteProjectMember(project.uri, did, role)
+      await refreshMembers()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not change role')
+    }
+  }
+
+  async function handleRemoveMember(did: string) {
+    if (!project) return
+    try {
+      await removeProjectMember(project.uri, did)
+      await refreshMembers()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not remove member')
+    }
+  }
+
+  async function handlePublishRelease(release: {
+    version: string
+    notes: string
+    downloads: ReleaseDownload[]
+    checksum?: string
+  }) {
+    try {
+      await createRelease(projectUri, release)
+      const p = await getProject(projectUri)
+      if (p) {
+        setProject(p)
+        setReleases(await listReleases(p))
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not publish release')
+      throw err
+    }
+  }
+
+  async function handleSaveAssets(assets: ProjectAsset[]) {
+    try {
+      await updateProject(projectUri, { assets })
+      const p = await getProject(projectUri)
+      if (p) setProject(p)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not save the manifest')
+      throw err
+    }
+  }
+
+  async function handleDeleteRelease(uri: string) {
+    try {
+      await deleteRelease(uri)
+      setReleases((list) => list.filter((r) => r.uri !== uri))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not delete release')
+    }
+  }
+
+  async function handleAccept() {
+    if (!project) return
+    try {
+      await acceptProjectInvite(project.uri)
+      await refreshMembers()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not accept invite')
+    }
+  }
+
+  async function handleLeave() {
+    if (!project || !confirm(`Leave ${project.name}?`)) return
+    try {
+      await leaveProject(project.uri)
+      await refreshMembers()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not leave project')
+    }
+  }
+
+  async function handleFork() {
+    if (!project) return
+    const name = prompt('Name for your fork', `${project.name} (fork)`)
+    if (name === null) return
+    setForking(true)
+    try {
+      const { uri } = await forkProject(project.uri, { name })
+      navigate(`/collab/project?uri=${encodeURIComponent(uri)}`)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not fork project')
+    } finally {
+      setForking(false)
+    }
+  }
+
+  if (loading && !project) return <div className={styles.loading}>Loading project…</div>
+  if (error || !project) return <p className={styles.error}>{error ?? 'Project not found'}</p>
+
+  const typeInfo = PROJECT_TYPES.find((pt) => pt.value === project.type)
+  const isOwner = session?.did === project.owner
+  const canEdit = !!session?.did && getKanbanReaders(project, members).includes(session.did)
+  const myRole = getMemberRole(members, session?.did)
+  const myInvite = members.find((m) => m.did === session?.did && m.status === 'invited')
+  const activeMembers = members.filter((m) => m.status === 'active')
+  const labelForDid = (did: string) => (handles[did] ? `@${handles[did]}` : did)
+
+  return (
+    <div className={styles.wrap}>
+      <header className={styles.header}>
+        <p className={styles.subtitle} style={{ marginBottom: '0.5rem' }}>
+          <Link to="/collab" className={styles.standardLink}>← All projects</Link>
+        </p>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <span style={{ fontSize: '1.25rem' }}>{typeInfo?.icon ?? '📁'}</span>
+          <h2 className={styles.title} style={{ margin: 0 }}>{project.name}</h2>
+          <span className={styles.commentBadge}>{project.version}</span>
+          {session?.did && (
+            <button type="button" className={styles.tab} style={{ marginLeft: 'auto' }} disabled={forking} onClick={handleFork}>
+              {forking ? 'Forking…' : 'Fork project'}
+            </button>
+          )}
+        </div>
+        {project.description && <p className={styles.subtitle} style={{ marginTop: '0.5rem' }}>{project.description}</p>}
+        <div style={{ display: 'flex', gap: '0.5rem', fontSize: '0.85rem', marginTop: '0.5rem' }}>
+          {project.externalUrl && (
+            <a href={project.externalUrl} target="_blank" rel="noopener noreferrer" className={styles.standardLink}>
+              Files
+            </a>
+          )}
+          {project.previewUrl && (
+            <a href={project.previewUrl} target="_blank" rel="noopener noreferrer" className={styles.standardLink}>
+              Preview
+            </a>
+          )}
         </div>
+        {project.magnetLink && (
+          <div style={{ marginTop: '0.75rem', maxWidth: '32rem' }}>
+            <MagnetPanel magnetLink={project.magnetLink} />
+          </div>
+        )}
+      </header>
+
+      <section style={{ marginBottom: '1.5rem' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>Members</h3>
+        {myInvite && (
+          <p style={{ fontSize: '0.9rem', marginBottom: '0.5rem' }}>
+            You've been invited as {ROLE_LABELS[myInvite.role].toLowerCase()}.{' '}
+            <button type="button" className={styles.tab} onClick={handleAccept}>
+              Accept invite
+            </button>
+          </p>
+        )}
+        <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+          {members.map((m) => (
+            <li key={m.did} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.9rem' }}>
+              <span>{labelForDid(m.did)}</span>
+              {isOwner && m.role !== 'owner' ? (
+                <select
+                  aria-label={`Role of ${labelForDid(m.did)}`}
+                  value={m.role}
+                  onChange={(e) => handleChangeRole(m.did, e.target.value as CollabRole)}
+                  style={{ fontSize: '0.8rem' }}
+                >
+                  {(['maintainer', 'contributor', 'viewer'] as const).map((r) => (
+                    <option key={r} value={r}>
+                      {ROLE_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className={styles.commentBadge}>{ROLE_LABELS[m.role]}</span>
+              )}
+              {m.status === 'invited' && <span style={{ color: 'var(--muted)', fontSize: '0.8rem' }}>invite pending</span>}
+              {isOwner && m.role !== 'owner' && (
+                <button
+                  type="button"
+                  onClick={() => handleRemoveMember(m.did)}
+                  aria-label={`Remove ${labelForDid(m.did)}`}
+                  style={{ background: 'none', border: 'none', color: 'var(--muted)', cursor: 'pointer' }}
+                >
+                  ×
+                </button>
+              )}
+              {m.did === session?.did && m.status === 'active' && m.role !== 'owner' && (
+                <button type="button" className={styles.tab} onClick={handleLeave}>
+                  Leave
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {isOwner && (
+          <form onSubmit={handleInvite} style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+            <input
+              type="text"
+              placeholder="Invite by handle"
+              value={memberInput}
+              onChange={(e) => setMemberInput(e.target.value)}
+              style={{ flex: 1, maxWidth: '20rem', padding: '0.5rem' }}
+            />
+            <select aria-label="Role" value={inviteRole} onChange={(e) => setInviteRole(e.target.value as CollabRole)}>
+              {(['maintainer', 'contributor', 'viewer'] as const).map((r) => (
+                <option key={r} value={r}>
+                  {ROLE_LABELS[r]}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className={styles.tab}>
+              Invite
+            </button>
+          </form>
+        )}
+      </section>
+
+      <section style={{ marginBottom: '1.5rem' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>Activity</h3>
+        <ProjectActivityFeed
+          project={project}
+          members={members}
+          labelForDid={labelForDid}
+          forumTag={getProjectForumTag(project)}
+        />
+      </section>
+
+      <section style={{ marginBottom: '1.5rem' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>Lineage</h3>
+        <ProjectLineageView project={project} labelForDid={labelForDid} />
+      </section>
+
+      <section style={{ marginBottom: '1.5rem' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>Assets</h3>
+        <AssetManifestPanel assets={project.assets ?? []} canEdit={isOwner} onSave={handleSaveAssets} />
+      </section>
+
+      <section style={{ marginBottom: '1.5rem' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>3D Preview</h3>
+        <GltfInspector previewUrl={project.previewUrl} />
+      </section>
+
+      <section style={{ marginBottom: '1.5rem' }}>
+        <h3 style={{ marginBottom: '0.5rem' }}>Releases</h3>
+        <ReleaseTimeline
+          releases={releases}
+          canPublish={myRole === 'owner' || myRole === 'maintainer'}
+          currentDid={session?.did}
+          labelForDid={labelForDid}
+          onPublish={handlePublishRelease}
+          onDelete={handleDeleteRelease}
+        />
+      </section>
+
+      <section>
+        <h3 style={{ marginBottom: '0.5rem' }}>Task Board</h3>
+        {!canEdit && (
+          <p style={{ fontSize: '0.85rem', color: 'var(--muted)', marginBottom: '0.5rem' }}>
+            {myRole === 'viewer'
+              ? 'Viewers can see the board but not edit it.'
+              : 'Only the owner and members can edit this board.'}
+          </p>
+        )}
+        {board ? (
+          <KanbanBoardView
+            board={board}
+            canEdit={canEdit}
+            labelForDid={labelForDid}
+            canEditColumns={isOwner}
+            canDeleteCards={myRole === 'owner' || myRole === 'maintainer'}
+            assignees={activeMembers.map((m) => m.did)}
+            canComment={myRole !== null}
+            currentDid={session?.did}
+            onAddCard={handleAddCard}
+            onMoveCard={handleMoveCard}
+            onUpdateCard={handleUpdateCard}
+            onDeleteCard={handleDeleteCard}
+            onAddColumn={(title) => handleColumnChange(() => addKanbanColumn(projectUri, title), 'Failed to add column')}
+            onRenameColumn={(id, title) =>
+              handleColumnChange(() => renameKanbanColumn(projectUri, id, title), 'Failed to rename column')
+            }
+            onMoveColumn={(id, toIndex) =>
+              handleColumnChange(() => reorderKanbanColumn(projectUri, id, toIndex), 'Failed to move column')
+            }
+            onSetWipLimit={(id, limit) =>
+              handleColumnChange(() => setKanbanWipLimit(projectUri, id, limit), 'Failed to set WIP limit')
+            }
+            onDeleteColumn={(id) => handleColumnChange(() => deleteKanbanColumn(projectUri, id), 'Failed to delete column')}
+          />
+        ) : (
+          <div className={styles.loading}>Loading board…</div>
+        )}
+      </section>
+
+      {board && (
+        <section style={{ marginBottom: '1.5rem' }}>
+          <h3 style={{ marginBottom: '0.5rem' }}>Board Analytics</h3>
+          <KanbanAnalytics
+            board={board}
+            fileName={project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project'}
+          />
+        </section>
       )}
     </div>
   )
@@ -0,0 +1,18 @@
+import { Navigate, useSearchParams } from 'react-router-dom'
+import Layout from '../components/Layout'
+import { CollabProjectContent } from './CollabPage'
+
+export default function CollabProjectPage() {
+  const [searchParams] = useSearchParams()
+  const projectUri = searchParams.get('uri') ?? ''
+
+  if (!projectUri) {
+    return <Navigate to="/collab" replace />
+  }
+
+  return (
+    <Layout title="Project" showNav>
+      <CollabProjectContent projectUri={projectUri} />
+    </Layout>
+  )
+}
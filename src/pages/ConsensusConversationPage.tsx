@@ -0,0 +1,477 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link, Navigate, useSearchParams } from 'react-router-dom'
+import { agent, getSession } from '../lib/bsky'
+import { analyzeConsensus } from '../lib/wasm-bridge'
+import { VOTE_COLLECTION, invalidateStatementVotes, listVotesForStatements, type StatementVote } from '../lib/consensusVotes'
+import {
+  closeConversation,
+  createStatement,
+  getConversation,
+  isConversationOpen,
+  listStatements,
+  reopenConversation,
+  setStatementHidden,
+} from '../lib/consensus'
+import {
+  buildConsensusReport,
+  consensusReportFilename,
+  consensusReportToJson,
+  consensusReportToMarkdown,
+} from '../lib/consensusReport'
+import { downloadTextFile } from '../lib/downloadText'
+import { formatExactDateTime } from '../lib/date'
+import Layout from '../components/Layout'
+import OpinionMap, { GroupSwatch } from '../components/OpinionMap'
+import PostText from '../components/PostText'
+import type { ConsensusConversation, ConsensusResult, ConsensusStatement } from '../types'
+import styles from './ForumPage.module.css'
+
+type StatementItem = ConsensusStatement & {
+  id: string
+  myVote: -1 | 0 | 1 | null
+}
+
+export function ConsensusConversationContent({ conversationUri }: { conversationUri: string }) {
+  const [conversation, setConversation] = useState<ConsensusConversation | null>(null)
+  const [statements, setStatements] = useState<StatementItem[]>([])
+  const [newStatement, setNewStatement] = useState('')
+  const [result, setResult] = useState<ConsensusResult | null>(null)
+  const [communityVotes, setCommunityVotes] = useState<Record<string, StatementVote[]>>({})
+  const [showHidden, setShowHidden] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const session = getSession()
+
+  const load = useCallback(async () => {
+    try {
+      setError(null)
+      const conv = await getConversation(conversationUri)
+      if (!conv) {
+        setError('Conversation not found')
+        return
+      }
+      setConversation(conv)
+      const loaded: StatementItem[] = (await listStatements(conv)).map((s) => ({
+        ...s,
+        id: s.rkey,
+        myVote: null,
+      }))
+
+      if (session?.did) {
+        try {
+          // The viewer's votes across every conversation, so page to the end.
+          let cursor: string | undefined
+          do {
+            const voteRes = await agent.com.atproto.repo.listRecords({
+              repo: session.did,
+              collection: VOTE_COLLECTION,
+              limit: 100,
+              cursor,
+            })
+            for (const r of voteRes.data.records ?? []) {
+              const v = r.value as { statement?: string; value?: number }
+              if (v.statement) {
+                const stmt = loaded.find((s) => s.uri === v.statement)
+                if (stmt) stmt.myVote = (v.value ?? null) as -1 | 0 | 1 | null
+              }
+            }
+            cursor = voteRes.data.cursor
+          } while (cursor)
+        } catch {
+          /* ignore */
+        }
+      }
+
+      setStatements(loaded)
+      setCommunityVotes(await listVotesForStatements(loaded.map((s) => s.uri)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversation')
+    } finally {
+      setLoading(false)
+    }
+  }, [conversationUri, session?.did])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const analyze = useCallback(async () => {
+    const myId = session?.did ?? 'anonymous'
+    const votes: Array<{ user_id: string; statement_id: string; value: number }> = []
+    for (const s of statements) {
+      if (s.hidden) continue
+      for (const v of communityVotes[s.uri] ?? []) {
+        if (v.did !== myId) votes.push({ user_id: v.did, statement_id: s.id, value: v.value })
+      }
+      if (s.myVote !== null) votes.push({ user_id: myId, statement_id: s.id, value: s.myVote })
+    }
+    if (votes.length > 0) {
+      try {
+        const r = await analyzeConsensus(votes)
+        setResult(r)
+      } catch {
+        setResult(null)
+      }
+    } else {
+      setResult(null)
+    }
+  }, [statements, communityVotes, session?.did])
+
+  useEffect(() => {
+    analyze()
+  }, [analyze])
+
+  const isOpen = conversation ? isConversationOpen(conversation) : false
+  const isOwner = !!session?.did && session.did === conversation?.did && !conversation.legacy
+
+  async function vote(statementId: string, value: -1 | 0 | 1) {
+    const stmt = statements.find((s) => s.id === statementId)
+    if (!stmt || !isOpen) return
+    const newVote = stmt.myVote === value ? null : value
+    setStatements((prev) =>
+      prev.map((s) => (s.id === statementId ? { ...s, myVote: newVote } : s))
+    )
+
+    if (session?.did) {
+      try {
+        const rkey = `vote-${stmt.id.replace(/[^a-zA-Z0-9-]/g, '')}`
+        if (newVote !== null) {
+          await agent.com.atproto.repo.putRecord({
+            repo: session.did,
+            collection: VOTE_COLLECTION,
+            rkey,
+            record: {
+              $type: VOTE_COLLECTION,
+              statement: stmt.uri,
+              value: newVote,
+              createdAt: new Date().toISOString(),
+            },
+            validate: false,
+          })
+        } else {
+          try {
+            await agent.com.atproto.repo.deleteRecord({
+              repo: session.did,
+              collection: VOTE_COLLECTION,
+              rkey,
+            })
+          } catch {
+            /* may not exist */
+          }
+        }
+        invalidateStatementVotes(stmt.uri)
+      } catch (err) {
+        console.error('Failed to persist vote:', err)
+      }
+    }
+  }
+
+  async function addStatement() {
+    if (!newStatement.trim()) return
+    try {
+      await createStatement(conversationUri, newStatement)
+      setNewStatement('')
+      await load()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to add statement')
+    }
+  }
+
+  async function toggleOpen() {
+    if (!conversation) return
+    try {
+      const next = isOpen ? await closeConversation(conversation.uri) : await reopenConversation(conversation.uri)
+      setConversation(next)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update conversation')
+    }
+  }
+
+  async function toggleHidden(stmt: StatementItem) {
+    try {
+      const next = await setStatementHidden(conversationUri, stmt.uri, !stmt.hidden)
+      setConversation(next)
+      setStatements((prev) => prev.map((s) => (s.uri === stmt.uri ? { ...s, hidden: !stmt.hidden } : s)))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to moderate statement')
+    }
+  }
+
+  function getStatementResult(id: string) {
+    return result?.statements.find((s) => s.statementId === id)
+  }
+
+  function exportReport(format: 'md' | 'json') {
+    if (!conversation || !result) return
+    const report = buildConsensusReport(conversation, statements.filter((s) => !s.hidden), result)
+    if (format === 'md') {
+      downloadTextFile(consensusReportFilename(report, 'md'), consensusReportToMarkdown(report), 'text/markdown')
+    } else {
+      downloadTextFile(consensusReportFilename(report, 'json'), consensusReportToJson(report), 'application/json')
+    }
+  }
+
+  if (loading) return <div className={styles.loading}>Loading…</div>
+  if (error || !conversation) return <p className={styles.error}>{error ?? 'Conversation not found'}</p>
+
+  const visible = statements.filter((s) => !s.hidden || (isOwner && showHidden))
+  const hiddenCount = statements.filter((s) => s.hidden).length
+
+  return (
+    <div className={styles.wrap}>
+      <header className={styles.header}>
+        <p className={styles.subtitle} style={{ marginBottom: '0.5rem' }}>
+          <Link to="/consensus" className={styles.standardLink}>← All conversations</Link>
+        </p>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <h2 className={styles.title}>{conversation.topic || 'Untitled conversation'}</h2>
+          <span className={styles.commentBadge}>{isOpen ? 'Open' : 'Closed'}</span>
+        </div>
+        {conversation.description && (
+          <p className={styles.subtitle} style={{ marginTop: '0.25rem' }}>
+            <PostText text={conversation.description} />
+          </p>
+        )}
+        <p className={styles.subtitle} style={{ marginTop: '0.25rem', fontSize: '0.8rem' }}>
+          {conversation.opensAt && <>Opens {formatExactDateTime(conversation.opensAt)} · </>}
+          {conversation.closesAt ? <>Closes {formatExactDateTime(conversation.closesAt)}</> : 'No close date'}
+        </p>
+        {isOwner && (
+          <div className={styles.tabs}>
+            <button type="button" className={styles.tab} onClick={toggleOpen}>
+              {isOpen ? 'Close conversation' : 'Reopen conversation'}
+            </button>
+            {hiddenCount > 0 && (
+              <button
+                type="button"
+                className={showHidden ? styles.tabActive : styles.tab}
+                onClick={() => setShowHidden(!showHidden)}
+                aria-pressed={showHidden}
+              >
+                Show hidden ({hiddenCount})
+              </button>
+            )}
+          </div>
+        )}
+      </header>
+
+      {visible.length === 0 && <div className={styles.empty}>No statements yet.</div>}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', marginBottom: '1.5rem' }}>
+        {visible.map((stmt) => {
+          const sr = getStatementResult(stmt.id)
+          return (
+            <div
+              key={stmt.id}
+              style={{
+                padding: '1rem',
+                background: 'var(--surface)',
+                borderRadius: '0.5rem',
+                border: '1px solid var(--border)',
+                opacity: stmt.hidden ? 0.6 : 1,
+              }}
+            >
+              <p style={{ marginBottom: '0.75rem', lineHeight: 1.5 }}>
+                <PostText text={stmt.text} />
+              </p>
+              <div style={{ display: 'flex', gap: '0.5rem', marginBottom: sr ? '0.5rem' : 0 }}>
+                <button
+                  type="button"
+                  className={stmt.myVote === 1 ? styles.tabActive : styles.tab}
+                  style={{ fontSize: '0.9rem', padding: '6px 16px' }}
+                  onClick={() => vote(stmt.id, 1)}
+                  disabled={!isOpen || stmt.hidden}
+                >
+                  Agree
+                </button>
+                <button
+                  type="button"
+                  className={stmt.myVote === -1 ? styles.tabActive : styles.tab}
+                  style={{
+                    fontSize: '0.9rem',
+                    padding: '6px 16px',
+                    background: stmt.myVote === -1 ? 'var(--error)' : undefined,
+                    color: stmt.myVote === -1 ? '#fff' : undefined,
+                  }}
+                  onClick={() => vote(stmt.id, -1)}
+                  disabled={!isOpen || stmt.hidden}
+                >
+                  Disagree
+                </button>
+                <button
+                  type="button"
+                  className={stmt.myVote === 0 ? styles.tabActive : styles.tab}
+                  style={{ fontSize: '0.9rem', padding: '6px 16px' }}
+                  onClick={() => vote(stmt.id, 0)}
+                  disabled={!isOpen || stmt.hidden}
+                >
+                  Pass
+                </button>
+                {isOwner && (
+                  <button
+                    type="button"
+                    className={styles.tab}
+                    style={{ fontSize: '0.8rem', padding: '6px 12px', marginLeft: 'auto' }}
+                    onClick={() => toggleHidden(stmt)}
+                  >
+                    {stmt.hidden ? 'Unhide' : 'Hide'}
+                  </button>
+                )}
+              </div>
+              {sr && (
+                <div style={{ marginTop: '0.5rem' }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', color: 'var(--muted)', marginBottom: '4px' }}>
+                    <span>{Math.round(sr.agreementRatio * 100)}% agree</span>
+                    {result && result.clusterCount > 1 && (
+                      <span title="How strongly every opinion group agrees">
+                        Group consensus: {Math.round(sr.groupInformedConsensus * 100)}%
+                      </span>
+                    )}
+                    <span>Divisiveness: {Math.round(sr.divisiveness * 100)}%</span>
+                  </div>
+                  <div
+                    style={{
+                      height: 6,
+                      borderRadius: 3,
+                      background: 'var(--border)',
+                      overflow: 'hidden',
+                    }}
+                  >
+                    <div
+                      style={{
+                        height: '100%',
+                        width: `${sr.agreementRatio * 100}%`,
+                        background:
+                          sr.agreementRatio > 0.66
+                            ? 'var(--success, green)'
+                            : sr.agreementRatio > 0.33
+                              ? 'var(--warning, orange)'
+                              : 'var(--error, red)',
+                        borderRadius: 3,
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {session?.did && isOpen && !conversation.legacy && (
+        <div
+          style={{
+            padding: '1rem',
+            background: 'var(--surface)',
+            borderRadius: '0.5rem',
+            border: '1px solid var(--border)',
+            marginBottom: '1.5rem',
+          }}
+        >
+          <h3 style={{ marginBottom: '0.5rem' }}>Add a Statement</h3>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <input
+              type="text"
+              placeholder="What should the community decide on?"
+              value={newStatement}
+              onChange={(e) => setNewStatement(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addStatement()}
+              style={{ flex: 1, padding: '0.5rem' }}
+            />
+            <button type="button" className={styles.tabActive} onClick={addStatement}>
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!session && <div className={styles.empty}>Log in to vote and add statements.</div>}
+      {session && !isOpen && <div className={styles.empty}>This conversation is closed. Results are final.</div>}
+
+      {result && result.participants.length > 0 && (
+        <div
+          style={{
+            padding: '1rem',
+            background: 'var(--surface)',
+            borderRadius: '0.5rem',
+            border: '1px solid var(--border)',
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', flexWrap: 'wrap' }}>
+            <h3 style={{ margin: 0 }}>Opinion Map</h3>
+            <div style={{ display: 'flex', gap: '0.25rem', marginLeft: 'auto' }}>
+              <button type="button" className={styles.tab} onClick={() => exportReport('md')}>
+                Export Markdown
+              </button>
+              <button type="button" className={styles.tab} onClick={() => exportReport('json')}>
+                Export JSON
+              </button>
+            </div>
+          </div>
+          <p style={{ fontSize: '0.9rem', color: 'var(--muted)', marginBottom: '0.75rem' }}>
+            {result.totalParticipants} participant{result.totalParticipants !== 1 ? 's' : ''}
+            {result.clusterCount > 0 && (
+              <>
+                {' '}· {result.clusterCount} opinion group{result.clusterCount !== 1 ? 's' : ''}
+              </>
+            )}
+          </p>
+          <OpinionMap participants={result.participants} highlightId={session?.did} />
+          {result.clusterCount > 0 && (
+            <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', marginTop: '0.75rem' }}>
+              {result.clusters.map((cluster) => (
+                <div
+                  key={cluster.id}
+                  style={{
+                    padding: '0.75rem',
+                    flex: '1 1 200px',
+                    background: 'var(--bg)',
+                    borderRadius: '0.5rem',
+                  }}
+                >
+                  <h4 style={{ fontSize: '0.9rem', fontWeight: 700, marginBottom: '0.25rem' }}>
+                    <GroupSwatch clusterId={cluster.id} />
+                    Group {cluster.id + 1}
+                  </h4>
+                  <p style={{ fontSize: '0.85rem', color: 'var(--muted)', marginBottom: '0.5rem' }}>
+                    {cluster.memberCount} member{cluster.memberCount !== 1 ? 's' : ''} · Avg agreement:{' '}
+                    {Math.round(cluster.avgAgreement * 100)}%
+                  </p>
+                  {cluster.representativeStatements.length === 0 ? (
+                    <p style={{ fontSize: '0.8rem', color: 'var(--muted)' }}>No distinctive statements yet.</p>
+                  ) : (
+                    <ul style={{ margin: 0, paddingLeft: '1rem', fontSize: '0.85rem', lineHeight: 1.4 }}>
+                      {cluster.representativeStatements.map((r) => (
+                        <li key={`${r.statementId}-${r.direction}`}>
+                          <strong>
+                            {Math.round(r.groupShare * 100)}% {r.direction === 'agree' ? 'agree' : 'disagree'}:
+                          </strong>{' '}
+                          {statements.find((s) => s.id === r.statementId)?.text ?? r.statementId}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function ConsensusConversationPage() {
+  const [searchParams] = useSearchParams()
+  const conversationUri = searchParams.get('uri') ?? ''
+
+  if (!conversationUri) {
+    return <Navigate to="/consensus" replace />
+  }
+
+  return (
+    <Layout title="Consensus" showNav>
+      <ConsensusConversationContent conversationUri={conversationUri} />
+    </Layout>
+  )
+}
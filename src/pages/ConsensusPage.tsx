@@ -1,199 +1,96 @@
 import { useCallback, useEffect, useState } from 'react'
-import { agent, getSession, publicAgent } from '../lib/bsky'
-import { analyzeConsensus } from '../lib/wasm-bridge'
+import { Link } from 'react-router-dom'
+import { getSession } from '../lib/bsky'
+import {
+  createConversation,
+  hasLegacyStatements,
+  isConversationOpen,
+  legacyConversationUri,
+  listCommunityConversations,
+} from '../lib/consensus'
+import { formatRelativeTime } from '../lib/date'
 import Layout from '../components/Layout'
-import PostText from '../components/PostText'
-import type { ConsensusResult } from '../types'
+import type { ConsensusConversation } from '../types'
 import styles from './ForumPage.module.css'
 
-const STATEMENT_COLLECTION = 'app.artsky.forum.post'
-const VOTE_COLLECTION = 'app.artsky.consensus.vote'
+const EMPTY_FORM = { topic: '', description: '', opensAt: '', closesAt: '', seeds: '' }
 
-type StatementItem = {
-  id: string
-  uri: string
-  text: string
-  myVote: -1 | 0 | 1 | null
+/** datetime-local input value → ISO string (undefined when empty). */
+function localInputToIso(value: string): string | undefined {
+  if (!value) return undefined
+  const d = new Date(value)
+  return Number.isNaN(d.getTime()) ? undefined : d.toISOString()
 }
 
 export function ConsensusContent() {
-  const [statements, setStatements] = useState<StatementItem[]>([])
-  const [newStatement, setNewStatement] = useState('')
-  const [result, setResult] = useState<ConsensusResult | null>(null)
+  const [conversations, setConversations] = useState<ConsensusConversation[]>([])
+  const [cursor, setCursor] = useState<string | undefined>(undefined)
+  const [hasLegacy, setHasLegacy] = useState(false)
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [showCreate, setShowCreate] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
   const session = getSession()
 
   const load = useCallback(async () => {
     try {
-      const client = session ? agent : publicAgent
-      const didsToCheck: string[] = session?.did ? [session.did] : []
-      const loaded: StatementItem[] = []
-      const seenUris = new Set<string>()
-
-      for (const did of didsToCheck) {
-        try {
-          const res = await client.com.atproto.repo.listRecords({
-            repo: did,
-            collection: STATEMENT_COLLECTION,
-            limit: 100,
-          })
-          for (const r of res.data.records ?? []) {
-            if (seenUris.has(r.uri)) continue
-            const v = r.value as { title?: string; body?: string; tags?: string[] }
-            if (!v.tags?.includes('consensus')) continue
-            seenUris.add(r.uri)
-            loaded.push({
-              id: r.uri.split('/').pop() ?? r.uri,
-              uri: r.uri,
-              text: v.title || v.body || '',
-              myVote: null,
-            })
-          }
-        } catch {
-          /* ignore */
-        }
-      }
-
-      if (session?.did) {
-        try {
-          const voteRes = await client.com.atproto.repo.listRecords({
-            repo: session.did,
-            collection: VOTE_COLLECTION,
-            limit: 100,
-          })
-          for (const r of voteRes.data.records ?? []) {
-            const v = r.value as { statement?: string; value?: number }
-            if (v.statement) {
-              const stmt = loaded.find((s) => s.uri === v.statement)
-              if (stmt) stmt.myVote = (v.value ?? null) as -1 | 0 | 1 | null
-            }
-          }
-        } catch {
-          /* ignore */
-        }
-      }
-
-      if (loaded.length === 0) {
-        const examples = [
-          'Forums should support markdown formatting',
-          'Real-time collaboration is more important than async tools',
-          'The app should prioritize mobile over desktop',
-          'Blender and Godot workflows need dedicated UI sections',
-        ]
-        examples.forEach((text, i) => {
-          loaded.push({ id: `seed-${i}`, uri: '', text, myVote: null })
-        })
-      }
-
-      setStatements([...loaded])
+      const [res, legacy] = await Promise.all([
+        listCommunityConversations(),
+        session?.did ? hasLegacyStatements(session.did) : Promise.resolve(false),
+      ])
+      setConversations(res.conversations)
+      setCursor(res.cursor)
+      setHasLegacy(legacy)
     } catch {
-      setStatements([])
+      setConversations([])
+      setCursor(undefined)
     } finally {
       setLoading(false)
     }
   }, [session?.did])
 
+  async function loadMore() {
+    if (!cursor || loadingMore) return
+    setLoadingMore(true)
+    try {
+      const res = await listCommunityConversations({ cursor })
+      setConversations((prev) => {
+        const seen = new Set(prev.map((c) => c.uri))
+        return [...prev, ...res.conversations.filter((c) => !seen.has(c.uri))]
+      })
+      setCursor(res.cursor)
+    } catch {
+      setCursor(undefined)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
   useEffect(() => {
     load()
   }, [load])
 
-  const analyze = useCallback(async () => {
-    const votes = statements
-      .filter((s) => s.myVote !== null)
-      .map((s) => ({
-        user_id: session?.did ?? 'anonymous',
-        statement_id: s.id,
-        value: s.myVote as number,
-      }))
-    if (votes.length > 0) {
-      try {
-        const r = await analyzeConsensus(votes)
-        setResult(r)
-      } catch {
-        setResult(null)
-      }
-    } else {
-      setResult(null)
-    }
-  }, [statements, session?.did])
-
-  async function vote(statementId: string, value: -1 | 0 | 1) {
-    const stmt = statements.find((s) => s.id === statementId)
-    if (!stmt) return
-    const newVote = stmt.myVote === value ? null : value
-    setStatements((prev) =>
-      prev.map((s) => (s.id === statementId ? { ...s, myVote: newVote } : s))
-    )
-
-    if (stmt.uri && session?.did) {
-      try {
-        const rkey = `vote-${stmt.id.replace(/[^a-zA-Z0-9-]/g, '')}`
-        if (newVote !== null) {
-          await agent.com.atproto.repo.putRecord({
-            repo: session.did,
-            collection: VOTE_COLLECTION,
-            rkey,
-            record: {
-              $type: VOTE_COLLECTION,
-              statement: stmt.uri,
-              value: newVote,
-              createdAt: new Date().toISOString(),
-            },
-            validate: false,
-          })
-        } else {
-          try {
-            await agent.com.atproto.repo.deleteRecord({
-              repo: session.did,
-              collection: VOTE_COLLECTION,
-              rkey,
-            })
-          } catch {
-            /* may not exist */
-          }
-        }
-      } catch (err) {
-        console.error('Failed to persist vote:', err)
-      }
-    }
-
-    setTimeout(analyze, 0)
-  }
-
-  async function addStatement() {
-    if (!newStatement.trim()) return
-    const text = newStatement.trim()
-    let uri = ''
-    if (session?.did) {
-      try {
-        const rkey = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
-        const res = await agent.com.atproto.repo.putRecord({
-          repo: session.did,
-          collection: STATEMENT_COLLECTION,
-          rkey,
-          record: {
-            $type: STATEMENT_COLLECTION,
-            title: text,
-            body: text,
-            tags: ['consensus'],
-            createdAt: new Date().toISOString(),
-          },
-          validate: false,
-        })
-        uri = res.data.uri
-      } catch (err) {
-        console.error('Failed to persist statement:', err)
-      }
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+    if (!form.topic.trim() || creating) return
+    setCreating(true)
+    try {
+      await createConversation({
+        topic: form.topic,
+        description: form.description,
+        opensAt: localInputToIso(form.opensAt),
+        closesAt: localInputToIso(form.closesAt),
+        seedStatements: form.seeds.split('\n'),
+      })
+      setForm(EMPTY_FORM)
+      setShowCreate(false)
+      await load()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create conversation')
+    } finally {
+      setCreating(false)
     }
-    setStatements((prev) => [
-      ...prev,
-      { id: uri ? uri.split('/').pop()! : `${Date.now()}`, uri, text, myVote: null },
-    ])
-    setNewStatement('')
-  }
-
-  function getStatementResult(id: string) {
-    return result?.statements.find((s) => s.statementId === id)
   }
 
   return (
@@ -201,155 +98,116 @@ export function ConsensusContent() {
       <header className={styles.header}>
         <h2 className={styles.title}>Consensus</h2>
         <p className={styles.subtitle}>Vote on statements to find where the community agrees. Polis-like collaborative decision making.</p>
+        {session?.did && (
+          <button
+            type="button"
+            className={styles.tab}
+            style={{ marginTop: '0.75rem' }}
+            onClick={() => setShowCreate(!showCreate)}
+          >
+            + New Conversation
+          </button>
+        )}
       </header>
 
-      {loading && <div className={styles.loading}>Loading…</div>}
-
-      <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', marginBottom: '1.5rem' }}>
-        {statements.map((stmt) => {
-          const sr = getStatementResult(stmt.id)
-          return (
-            <div
-              key={stmt.id}
-              style={{
-                padding: '1rem',
-                background: 'var(--surface)',
-                borderRadius: '0.5rem',
-                border: '1px solid var(--border)',
-              }}
-            >
-              <p style={{ marginBottom: '0.75rem', lineHeight: 1.5 }}>
-                <PostText text={stmt.text} />
-              </p>
-              <div style={{ display: 'flex', gap: '0.5rem', marginBottom: sr ? '0.5rem' : 0 }}>
-                <button
-                  type="button"
-                  className={stmt.myVote === 1 ? styles.tabActive : styles.tab}
-                  style={{ fontSize: '0.9rem', padding: '6px 16px' }}
-                  onClick={() => vote(stmt.id, 1)}
-                >
-                  Agree
-                </button>
-                <button
-                  type="button"
-                  className={stmt.myVote === -1 ? styles.tabActive : styles.tab}
-                  style={{
-                    fontSize: '0.9rem',
-                    padding: '6px 16px',
-                    background: stmt.myVote === -1 ? 'var(--error)' : undefined,
-                    color: stmt.myVote === -1 ? '#fff' : undefined,
-                  }}
-                  onClick={() => vote(stmt.id, -1)}
-                >
-                  Disagree
-                </button>
-                <button
-                  type="button"
-                  className={stmt.myVote === 0 ? styles.tabActive : styles.tab}
-                  style={{ fontSize: '0.9rem', padding: '6px 16px' }}
-                  onClick={() => vote(stmt.id, 0)}
-                >
-                  Pass
-                </button>
-              </div>
-              {sr && (
-                <div style={{ marginTop: '0.5rem' }}>
-                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', color: 'var(--muted)', marginBottom: '4px' }}>
-                    <span>{Math.round(sr.agreementRatio * 100)}% agree</span>
-                    <span>Divisiveness: {Math.round(sr.divisiveness * 100)}%</span>
-                  </div>
-                  <div
-                    style={{
-                      height: 6,
-                      borderRadius: 3,
-                      background: 'var(--border)',
-                      overflow: 'hidden',
-                    }}
-                  >
-                    <div
-                      style={{
-                        height: '100%',
-                        width: `${sr.agreementRatio * 100}%`,
-                        background:
-                          sr.agreementRatio > 0.66
-                            ? 'var(--success, green)'
-                            : sr.agreementRatio > 0.33
-                              ? 'var(--warning, orange)'
-                              : 'var(--error, red)',
-                        borderRadius: 3,
-                      }}
-                    />
-                  </div>
-                </div>
-              )}
-            </div>
-          )
-        })}
-      </div>
-
-      {session?.did && (
-        <div
-          style={{
-            padding: '1rem',
-            background: 'var(--surface)',
-            borderRadius: '0.5rem',
-            border: '1px solid var(--border)',
-            marginBottom: '1.5rem',
-          }}
-        >
-          <h3 style={{ marginBottom: '0.5rem' }}>Add a Statement</h3>
-          <div style={{ display: 'flex', gap: '0.5rem' }}>
+      {showCreate && session?.did && (
+        <div style={{ padding: '1rem', marginBottom: '1rem', background: 'var(--surface)', borderRadius: '0.5rem', border: '1px solid var(--border)' }}>
+          <h3 style={{ marginBottom: '0.75rem' }}>Start a Conversation</h3>
+          <form onSubmit={handleCreate}>
             <input
               type="text"
-              placeholder="What should the community decide on?"
-              value={newStatement}
-              onChange={(e) => setNewStatement(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && addStatement()}
-              style={{ flex: 1, padding: '0.5rem' }}
+              placeholder="Topic"
+              value={form.topic}
+              onChange={(e) => setForm((f) => ({ ...f, topic: e.target.value }))}
+              style={{ width: '100%', marginBottom: '0.5rem', padding: '0.5rem' }}
             />
-            <button type="button" className={styles.tabActive} onClick={addStatement}>
-              Add
-            </button>
-          </div>
+            <textarea
+              placeholder="Description (optional)"
+              value={form.description}
+              onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+              style={{ width: '100%', minHeight: '60px', marginBottom: '0.5rem', padding: '0.5rem' }}
+            />
+            <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem', flexWrap: 'wrap' }}>
+              <label style={{ flex: 1, fontSize: '0.85rem', color: 'var(--muted)' }}>
+                Opens
+                <input
+                  type="datetime-local"
+                  value={form.opensAt}
+                  onChange={(e) => setForm((f) => ({ ...f, opensAt: e.target.value }))}
+                  style={{ width: '100%', padding: '0.5rem' }}
+                />
+              </label>
+              <label style={{ flex: 1, fontSize: '0.85rem', color: 'var(--muted)' }}>
+                Closes
+                <input
+                  type="datetime-local"
+                  value={form.closesAt}
+                  onChange={(e) => setForm((f) => ({ ...f, closesAt: e.target.value }))}
+                  style={{ width: '100%', padding: '0.5rem' }}
+                />
+              </label>
+            </div>
+            <textarea
+              placeholder="Seed statements, one per line"
+              value={form.seeds}
+              onChange={(e) => setForm((f) => ({ ...f, seeds: e.target.value }))}
+              style={{ width: '100%', minHeight: '100px', marginBottom: '0.75rem', padding: '0.5rem' }}
+            />
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button type="submit" className={styles.tabActive} disabled={creating}>
+                {creating ? 'Creating…' : 'Create'}
+              </button>
+              <button type="button" className={styles.tab} onClick={() => setShowCreate(false)}>
+                Cancel
+              </button>
+            </div>
+          </form>
         </div>
       )}
 
-      {!session && <div className={styles.empty}>Log in to vote and add statements.</div>}
-
-      {result && result.clusterCount > 0 && (
-        <div
-          style={{
-            padding: '1rem',
-            background: 'var(--surface)',
-            borderRadius: '0.5rem',
-            border: '1px solid var(--border)',
-          }}
-        >
-          <h3 style={{ marginBottom: '0.5rem' }}>Opinion Clusters</h3>
-          <p style={{ fontSize: '0.9rem', color: 'var(--muted)', marginBottom: '0.75rem' }}>
-            {result.totalParticipants} participant{result.totalParticipants !== 1 ? 's' : ''} · {result.clusterCount} opinion group
-            {result.clusterCount !== 1 ? 's' : ''}
-          </p>
-          <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
-            {result.clusters.map((cluster) => (
-              <div
-                key={cluster.id}
-                style={{
-                  padding: '0.75rem',
-                  flex: '1 1 200px',
-                  background: 'var(--bg)',
-                  borderRadius: '0.5rem',
-                }}
-              >
-                <h4 style={{ fontSize: '0.9rem', fontWeight: 700, marginBottom: '0.25rem' }}>Group {cluster.id + 1}</h4>
-                <p style={{ fontSize: '0.85rem', color: 'var(--muted)' }}>
-                  {cluster.memberCount} member{cluster.memberCount !== 1 ? 's' : ''} · Avg agreement:{' '}
-                  {Math.round(cluster.avgAgreement * 100)}%
-                </p>
-              </div>
-            ))}
-          </div>
-        </div>
+      {!session && <div className={styles.empty}>Log in to start and join conversations.</div>}
+      {loading ? (
+        <div className={styles.loading}>Loading conversations…</div>
+      ) : conversations.length === 0 && !hasLegacy ? (
+        session && <div className={styles.empty}>No conversations yet. Start one to gather community opinions!</div>
+      ) : (
+        <ul className={styles.list}>
+          {hasLegacy && session?.did && (
+            <li>
+              <Link to={`/consensus/conversation?uri=${encodeURIComponent(legacyConversationUri(session.did))}`} className={styles.postLink}>
+                <div style={{ padding: '1rem', background: 'var(--surface)', borderRadius: '0.5rem', border: '1px solid var(--border)' }}>
+                  <h3 style={{ fontSize: '1rem', fontWeight: 600, margin: 0 }}>Earlier statements</h3>
+                  <p className={styles.bodyPreview}>Your statements from before conversations, with their votes.</p>
+                </div>
+              </Link>
+            </li>
+          )}
+          {conversations.map((conv) => {
+            const open = isConversationOpen(conv)
+            return (
+              <li key={conv.uri}>
+                <Link to={`/consensus/conversation?uri=${encodeURIComponent(conv.uri)}`} className={styles.postLink}>
+                  <div style={{ padding: '1rem', background: 'var(--surface)', borderRadius: '0.5rem', border: '1px solid var(--border)' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                      <h3 style={{ fontSize: '1rem', fontWeight: 600, margin: 0 }}>{conv.topic || 'Untitled conversation'}</h3>
+                      <span className={styles.commentBadge} style={{ marginLeft: 'auto' }}>{open ? 'Open' : 'Closed'}</span>
+                    </div>
+                    {conv.description && <p className={styles.bodyPreview}>{conv.description.slice(0, 140)}</p>}
+                    <p style={{ fontSize: '0.8rem', color: 'var(--muted)', marginTop: '0.25rem' }}>
+                      {conv.seedStatements.length} seed statement{conv.seedStatements.length !== 1 ? 's' : ''}
+                      {conv.createdAt && <> · {formatRelativeTime(conv.createdAt)}</>}
+                    </p>
+                  </div>
+                </Link>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+      {!loading && cursor && (
+        <button type="button" className={styles.tab} style={{ marginTop: '0.75rem' }} onClick={loadMore} disabled={loadingMore}>
+          {loadingMore ? 'Loading…' : 'Load more'}
+        </button>
       )}
     </div>
   )
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react'
+import { Link, Navigate, useNavigate, useSearchParams } from 'react-router-dom'
+import Layout from '../components/Layout'
+import { getForumActivity, listForumPosts, type ForumActivity } from '../lib/forum'
+import {
+  deleteForumCategory,
+  getForumCategory,
+  normalizeTag,
+  postInCategory,
+  sortCategoryPosts,
+  tagCounts,
+} from '../lib/forumCategories'
+import { formatExactDateTime, formatRelativeTime } from '../lib/date'
+import { useSession } from '../context/SessionContext'
+import type { ForumCategory, ForumPost } from '../types'
+import styles from './ForumPage.module.css'
+import postBlockStyles from './PostDetailPage.module.css'
+
+type CategoryData = { category: ForumCategory; posts: ForumPost[]; activity: Record<string, ForumActivity> }
+
+async function loadCategory(categoryId: string, viewerDid?: string): Promise<CategoryData | null> {
+  const category = await getForumCategory(categoryId)
+  if (!category) return null
+  // The viewer's posts, plus the category owner's for record-defined categories
+  const repos = [...new Set([viewerDid, category.did].filter((d): d is string => !!d))]
+  const lists = await Promise.all(repos.map((did) => listForumPosts(did, { limit: 100 })))
+  const posts = lists.flatMap((l) => l.posts).filter((p) => postInCategory(p, category))
+  return { category, posts, activity: await getForumActivity(posts) }
+}
+
+function CategoryContent({ categoryId }: { categoryId: string }) {
+  const { session } = useSession()
+  const navigate = useNavigate()
+  const [data, setData] = useState<CategoryData | null | undefined>(undefined)
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    loadCategory(categoryId, session?.did)
+      .catch(() => null)
+      .then((d) => {
+        if (!cancelled) setData(d)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [categoryId, session?.did])
+
+  if (data === undefined) return <div className={styles.loading}>Loading category…</div>
+  if (data === null) return <p className={styles.error}>Category not found</p>
+
+  const { category, posts, activity } = data
+  const tags = tagCounts(posts)
+  const shown = sortCategoryPosts(
+    posts.filter((p) => selectedTags.every((t) => (p.tags ?? []).some((pt) => normalizeTag(pt) === t))),
+    activity
+  )
+  const isOwner = !!category.did && category.did === session?.did
+
+  function toggleTag(tag: string) {
+    setSelectedTags((list) => (list.includes(tag) ? list.filter((t) => t !== tag) : [...list, tag]))
+  }
+
+  async function handleDelete() {
+    if (!confirm(`Delete the category "${category.name}"? Posts keep their tags.`)) return
+    try {
+      await deleteForumCategory(category)
+      navigate('/forum', { replace: true })
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not delete category')
+    }
+  }
+
+  return (
+    <div className={styles.wrap}>
+      <header className={styles.header}>
+        <Link to="/forum" className={styles.standardLink} style={{ fontSize: '0.85rem' }}>
+          ← Forums
+        </Link>
+        <h2 className={styles.title}>{category.name}</h2>
+        {category.description && <p className={styles.subtitle}>{category.description}</p>}
+        {category.tags.length > 0 && (
+          <p style={{ margin: '0.25rem 0 0', fontSize: '0.8rem', color: 'var(--muted)' }}>
+            Posts tagged {category.tags.map((t) => `#${t}`).join(', ')}
+          </p>
+        )}
+        {isOwner && (
+          <button type="button" className={styles.tab} style={{ marginTop: '0.5rem' }} onClick={handleDelete}>
+            Delete category
+          </button>
+        )}
+      </header>
+
+      {tags.length > 0 && (
+        <div style={{ display: 'flex', gap: '0.35rem', flexWrap: 'wrap', marginBottom: '0.75rem' }} aria-label="Filter by tag">
+          {tags.map(({ tag, count }) => (
+            <button
+              key={tag}
+              type="button"
+              className={selectedTags.includes(tag) ? styles.tabActive : styles.tab}
+              aria-pressed={selectedTags.includes(tag)}
+              onClick={() => toggleTag(tag)}
+              style={{ fontSize: '0.8rem', padding: '0.2rem 0.6rem' }}
+            >
+              #{tag} <span style={{ color: 'var(--muted)' }}>{count}</span>
+            </button>
+          ))}
+          {selectedTags.length > 0 && (
+            <button type="button" className={styles.tab} onClick={() => setSelectedTags([])} style={{ fontSize: '0.8rem', padding: '0.2rem 0.6rem' }}>
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      {shown.length === 0 ? (
+        <div className={styles.empty}>
+          {posts.length === 0 ? 'No posts in this category yet.' : 'No posts have all the selected tags.'}
+        </div>
+      ) : (
+        <ul className={styles.list}>
+          {shown.map((post) => {
+            const a = activity[post.uri]
+            return (
+              <li key={post.uri}>
+                <Link to={`/forum/post?uri=${encodeURIComponent(post.uri)}`} className={styles.postLink}>
+                  <article className={postBlockStyles.postBlock}>
+                    <div className={postBlockStyles.postBlockContent}>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+                        {post.isPinned && <span className={styles.commentBadge}>Pinned</span>}
+                        {post.isWiki && <span className={styles.commentBadge}>Wiki</span>}
+                        {post.isLocked && <span className={styles.commentBadge}>Locked</span>}
+                        <h3 style={{ fontSize: '1rem', fontWeight: 600, margin: 0 }}>{post.title || 'Untitled'}</h3>
+                      </div>
+                      {post.body && (
+                        <p className={styles.bodyPreview}>
+                          {post.body.slice(0, 120)}
+                          {post.body.length > 120 ? '…' : ''}
+                        </p>
+                      )}
+                      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginTop: '0.25rem', fontSize: '0.85rem', color: 'var(--muted)' }}>
+                        {a && (
+                          <span>
+                            {a.replyCount} repl{a.replyCount === 1 ? 'y' : 'ies'}
+                          </span>
+                        )}
+                        {a?.lastActivityAt && (
+                          <span title={formatExactDateTime(a.lastActivityAt)}>active {formatRelativeTime(a.lastActivityAt)}</span>
+                        )}
+                        {post.tags?.map((tag) => (
+                          <span key={tag} className={styles.commentBadge} style={{ fontSize: '0.7rem' }}>
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  </article>
+                </Link>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default function ForumCategoryPage() {
+  const [searchParams] = useSearchParams()
+  const categoryId = searchParams.get('id') ?? ''
+
+  if (!categoryId) {
+    return <Navigate to="/forum" replace />
+  }
+
+  return (
+    <Layout title="Forum category" showNav>
+      <CategoryContent key={categoryId} categoryId={categoryId} />
+    </Layout>
+  )
+}
@@ -1,20 +1,27 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { Link } from 'react-router-dom'
+import { Link, useSearchParams } from 'react-router-dom'
 import { listStandardSiteDocumentsAll, listStandardSiteDocumentsForForum, getSession, type StandardSiteDocumentView } from '../lib/bsky'
-import { listForumPosts, createForumPost, saveDraft } from '../lib/forum'
+import { listForumPosts, createForumPost, getForumProfiles, saveDraft } from '../lib/forum'
+import { getForumModeration, getModeratorList, saveModeratorList } from '../lib/forumModeration'
+import { loadWikiIndex, newWikiPageHref, wikiPageHref } from '../lib/wikiLinks'
+import { createForumCategory, forumCategoryHref, listForumCategories } from '../lib/forumCategories'
+import { FORUM_CATEGORIES } from '../config/forumCategories'
 import { FORUM_DISCOVERY_URLS } from '../config/forumDiscovery'
 import { formatRelativeTime, formatExactDateTime } from '../lib/date'
 import { useListKeyboardNav } from '../hooks/useListKeyboardNav'
 import Layout from '../components/Layout'
 import ProfileLink from '../components/ProfileLink'
+import MarkdownEditor from '../components/MarkdownEditor'
+import ForumImagePicker from '../components/ForumImagePicker'
+import ForumHiddenNotice from '../components/ForumHiddenNotice'
 import { useProfileModal } from '../context/ProfileModalContext'
 import { CollabContent } from './CollabPage'
 import { ConsensusContent } from './ConsensusPage'
-import type { ForumPost } from '../types'
+import type { ForumCategory, ForumHide, ForumImageDraft, ForumPost, ForumWikiSummary } from '../types'
 import styles from './ForumPage.module.css'
 import postBlockStyles from './PostDetailPage.module.css'
 
-type ForumSection = 'discover' | 'artsky' | 'collab' | 'consensus'
+type ForumSection = 'discover' | 'artsky' | 'wiki' | 'collab' | 'consensus'
 
 function documentUrl(doc: StandardSiteDocumentView): string | null {
   if (!doc.baseUrl) return null
@@ -44,17 +51,161 @@ function bodyPreview(body: string | undefined): string {
 
 type ForumTab = 'all' | 'followed' | 'mine'
 
+/** Links to the forum categories, with a way to add your own. */
+function CategoryBar() {
+  const [categories, setCategories] = useState<ForumCategory[]>(FORUM_CATEGORIES)
+  const session = getSession()
+
+  useEffect(() => {
+    let cancelled = false
+    listForumCategories().then((c) => {
+      if (!cancelled) setCategories(c)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  async function handleAdd() {
+    const name = prompt('Category name')?.trim()
+    if (!name) return
+    const tags = prompt('Tags that put a post in this category (comma-separated, empty for every post)') ?? ''
+    try {
+      const category = await createForumCategory({ name, tags: tags.split(',') })
+      setCategories((list) => [...list, category])
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not create category')
+    }
+  }
+
+  return (
+    <div style={{ display: 'flex', gap: '0.35rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '0.75rem' }}>
+      <span style={{ fontSize: '0.85rem', color: 'var(--muted)' }}>Categories:</span>
+      {categories.map((c) => (
+        <Link
+          key={c.id}
+          to={forumCategoryHref(c)}
+          className={styles.tab}
+          title={c.description}
+          style={{ fontSize: '0.8rem', padding: '0.2rem 0.6rem', textDecoration: 'none' }}
+        >
+          {c.name}
+        </Link>
+      ))}
+      {session?.did && (
+        <button type="button" className={styles.tab} onClick={handleAdd} style={{ fontSize: '0.8rem', padding: '0.2rem 0.6rem' }}>
+          + Category
+        </button>
+      )}
+    </div>
+  )
+}
+
+/** Edit the viewer's community moderator list (handles, comma-separated). */
+function ModeratorListButton() {
+  const [busy, setBusy] = useState(false)
+
+  async function handleEdit() {
+    const did = getSession()?.did
+    if (!did || busy) return
+    setBusy(true)
+    try {
+      const list = await getModeratorList(did)
+      const profiles = await getForumProfiles(list?.moderators ?? [])
+      const current = (list?.moderators ?? []).map((m) => profiles.get(m)?.handle ?? m).join(', ')
+      const input = prompt('Moderators for your community (handles, comma-separated). You moderate too.', current)
+      if (input === null) return
+      await saveModeratorList({ name: list?.name, moderators: input.split(',').filter((m) => m.trim()) })
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not save moderators')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <button type="button" className={styles.tab} style={{ marginBottom: '0.75rem' }} onClick={handleEdit} disabled={busy}>
+      Moderators
+    </button>
+  )
+}
+
+/** Wiki pages from the wiki index, most recently edited first. */
+function WikiSection({ searchQuery }: { searchQuery: string }) {
+  const [pages, setPages] = useState<ForumWikiSummary[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadWikiIndex()
+      .catch(() => [])
+      .then((p) => {
+        if (!cancelled) setPages(p)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const query = searchQuery.trim().toLowerCase()
+  const shown = (pages ?? [])
+    .filter((p) => !query || p.title.toLowerCase().includes(query) || p.body.toLowerCase().includes(query))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+
+  return (
+    <>
+      {getSession()?.did && (
+        <Link to={newWikiPageHref('')} className={styles.tab} style={{ display: 'inline-block', marginBottom: '0.75rem', textDecoration: 'none' }}>
+          + New page
+        </Link>
+      )}
+      {!pages ? (
+        <div className={styles.loading}>Loading wiki pages…</div>
+      ) : shown.length === 0 ? (
+        <div className={styles.empty}>
+          {pages.length === 0 ? 'No wiki pages yet. Promote a thread or start a page.' : 'No wiki pages match your search.'}
+        </div>
+      ) : (
+        <ul className={styles.list}>
+          {shown.map((p) => (
+            <li key={p.wiki.uri}>
+              <Link to={wikiPageHref(p.wiki.uri)} className={styles.postLink}>
+                <article className={postBlockStyles.postBlock}>
+                  <div className={postBlockStyles.postBlockContent}>
+                    <h3 style={{ fontSize: '1rem', fontWeight: 600, margin: '0 0 0.25rem' }}>{p.title || 'Untitled'}</h3>
+                    {bodyPreview(p.body) && <p className={styles.bodyPreview}>{bodyPreview(p.body)}</p>}
+                    <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.25rem', fontSize: '0.85rem', color: 'var(--muted)' }}>
+                      <span>
+                        {p.revisionCount} revision{p.revisionCount !== 1 ? 's' : ''}
+                      </span>
+                      {p.updatedAt && <span title={formatExactDateTime(p.updatedAt)}>edited {formatRelativeTime(p.updatedAt)}</span>}
+                    </div>
+                  </div>
+                </article>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  )
+}
+
 export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?: boolean; onRegisterRefresh?: (fn: () => void | Promise<void>) => void }) {
-  const [section, setSection] = useState<ForumSection>('discover')
+  const [searchParams] = useSearchParams()
+  const [section, setSection] = useState<ForumSection>(() => (searchParams.get('section') === 'wiki' ? 'wiki' : 'discover'))
   const [tab, setTab] = useState<ForumTab>('all')
   const [documents, setDocuments] = useState<StandardSiteDocumentView[]>([])
   const [artskyPosts, setArtskyPosts] = useState<ForumPost[]>([])
+  const [artskyHidden, setArtskyHidden] = useState<Map<string, ForumHide>>(new Map())
+  const [revealedPosts, setRevealedPosts] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState('')
   const [focusedIndex, setFocusedIndex] = useState(0)
   const [showArtskyCompose, setShowArtskyCompose] = useState(false)
   const [artskyCompose, setArtskyCompose] = useState({ title: '', body: '', tags: '' })
+  const [artskyImages, setArtskyImages] = useState<ForumImageDraft[]>([])
+  const [artskyPosting, setArtskyPosting] = useState(false)
   const session = getSession()
   const { isModalOpen, openForumPostModal } = useProfileModal()
   const listRef = useRef<HTMLUListElement>(null)
@@ -88,8 +239,12 @@ export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?:
     }
     try {
       setLoading(true)
-      const result = await listForumPosts(session.did, { limit: 50 })
+      const [result, moderation] = await Promise.all([
+        listForumPosts(session.did, { limit: 50 }),
+        getForumModeration().catch(() => null),
+      ])
       setArtskyPosts(result.posts)
+      setArtskyHidden(moderation?.hidden ?? new Map())
     } catch {
       setArtskyPosts([])
     } finally {
@@ -154,18 +309,23 @@ export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?:
   const showSignInForTab = (tab === 'followed' || tab === 'mine') && !session
 
   async function handleArtskyCreatePost() {
-    if (!artskyCompose.title.trim()) return
+    if (!artskyCompose.title.trim() || artskyPosting) return
+    setArtskyPosting(true)
     try {
       await createForumPost({
         title: artskyCompose.title,
         body: artskyCompose.body,
         tags: artskyCompose.tags.split(',').map((t) => t.trim()).filter(Boolean),
+        images: artskyImages,
       })
       setArtskyCompose({ title: '', body: '', tags: '' })
+      setArtskyImages([])
       setShowArtskyCompose(false)
       loadArtsky()
     } catch (err) {
       alert(err instanceof Error ? err.message : 'Failed to create post')
+    } finally {
+      setArtskyPosting(false)
     }
   }
 
@@ -199,6 +359,14 @@ export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?:
           >
             ArtSky
           </button>
+          <button
+            type="button"
+            className={section === 'wiki' ? styles.tabActive : styles.tab}
+            onClick={() => setSection('wiki')}
+            aria-pressed={section === 'wiki'}
+          >
+            Wiki
+          </button>
           <button
             type="button"
             className={section === 'collab' ? styles.tabActive : styles.tab}
@@ -230,20 +398,21 @@ export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?:
           </>
         )}
 
-        {(section === 'discover' || section === 'artsky') && (
+        {(section === 'discover' || section === 'artsky' || section === 'wiki') && (
           <div className={styles.searchRow}>
             <input
               type="search"
               className={styles.searchInput}
-              placeholder="Search posts…"
+              placeholder={section === 'wiki' ? 'Search wiki pages…' : 'Search posts…'}
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              aria-label="Search posts"
+              aria-label={section === 'wiki' ? 'Search wiki pages' : 'Search posts'}
             />
           </div>
         )}
       </header>
 
+      {section === 'wiki' && <WikiSection searchQuery={searchQuery} />}
       {section === 'collab' && <CollabContent />}
       {section === 'consensus' && <ConsensusContent />}
 
@@ -307,10 +476,14 @@ export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?:
 
       {section === 'artsky' && (
         <>
+          <CategoryBar />
           {session?.did && (
-            <button type="button" className={styles.tab} style={{ marginBottom: '0.75rem' }} onClick={() => setShowArtskyCompose(!showArtskyCompose)}>
-              + New Post
-            </button>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button type="button" className={styles.tab} style={{ marginBottom: '0.75rem' }} onClick={() => setShowArtskyCompose(!showArtskyCompose)}>
+                + New Post
+              </button>
+              <ModeratorListButton />
+            </div>
           )}
           {showArtskyCompose && session?.did && (
             <div style={{ padding: '1rem', marginBottom: '1rem', background: 'var(--surface)', borderRadius: '0.5rem', border: '1px solid var(--border)' }}>
@@ -321,12 +494,15 @@ export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?:
                 onChange={(e) => setArtskyCompose((c) => ({ ...c, title: e.target.value }))}
                 style={{ width: '100%', marginBottom: '0.5rem', padding: '0.5rem' }}
               />
-              <textarea
-                placeholder="Write your post… Use @username for mentions"
-                value={artskyCompose.body}
-                onChange={(e) => setArtskyCompose((c) => ({ ...c, body: e.target.value }))}
-                style={{ width: '100%', minHeight: 120, marginBottom: '0.5rem', padding: '0.5rem' }}
-              />
+              <div style={{ marginBottom: '0.5rem' }}>
+                <MarkdownEditor
+                  placeholder="Write your post… Markdown and @handle mentions work"
+                  value={artskyCompose.body}
+                  onChange={(body) => setArtskyCompose((c) => ({ ...c, body }))}
+                  authorDid={session.did}
+                  textareaStyle={{ width: '100%', minHeight: 120, padding: '0.5rem' }}
+                />
+              </div>
               <input
                 type="text"
                 placeholder="Tags (comma-separated)"
@@ -334,8 +510,13 @@ export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?:
                 onChange={(e) => setArtskyCompose((c) => ({ ...c, tags: e.target.value }))}
                 style={{ width: '100%', marginBottom: '0.5rem', padding: '0.5rem' }}
               />
+              <div style={{ marginBottom: '0.5rem' }}>
+                <ForumImagePicker images={artskyImages} onChange={setArtskyImages} disabled={artskyPosting} />
+              </div>
               <div style={{ display: 'flex', gap: '0.5rem' }}>
-                <button type="button" className={styles.tabActive} onClick={handleArtskyCreatePost}>Post</button>
+                <button type="button" className={styles.tabActive} onClick={handleArtskyCreatePost} disabled={artskyPosting}>
+                  {artskyPosting ? 'Posting…' : 'Post'}
+                </button>
                 <button type="button" className={styles.tab} onClick={handleArtskySaveDraft}>Save Draft</button>
                 <button type="button" className={styles.tab} onClick={() => setShowArtskyCompose(false)}>Cancel</button>
               </div>
@@ -351,6 +532,14 @@ export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?:
             <ul ref={listRef} className={styles.list}>
               {artskyFiltered.map((post, index) => {
                 const isFocused = index === artskyFocusedIndex
+                const hide = artskyHidden.get(post.uri)
+                if (hide && !revealedPosts.includes(post.uri)) {
+                  return (
+                    <li key={post.uri} data-forum-index={index}>
+                      <ForumHiddenNotice hide={hide} label="Post" onShow={() => setRevealedPosts((r) => [...r, post.uri])} />
+                    </li>
+                  )
+                }
                 return (
                   <li key={post.uri} data-forum-index={index}>
                     <Link
@@ -363,6 +552,7 @@ export function ForumContent({ inModal = false, onRegisterRefresh }: { inModal?:
                           <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
                             {post.isPinned && <span className={styles.commentBadge}>Pinned</span>}
                             {post.isWiki && <span className={styles.commentBadge}>Wiki</span>}
+                            {post.isLocked && <span className={styles.commentBadge}>Locked</span>}
                             <h3 style={{ fontSize: '1rem', fontWeight: 600, margin: 0 }}>{post.title || 'Untitled'}</h3>
                           </div>
                           {post.body && <p className={styles.bodyPreview}>{post.body.slice(0, 120)}{post.body.length > 120 ? '…' : ''}</p>}
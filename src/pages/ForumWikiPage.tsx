@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link, Navigate, useNavigate, useSearchParams } from 'react-router-dom'
+import Layout from '../components/Layout'
+import MarkdownEditor from '../components/MarkdownEditor'
+import WikiPanel from '../components/WikiPanel'
+import { createWikiPage, getForumWiki } from '../lib/forum'
+import { findWikiBacklinks, findWikiPage, invalidateWikiIndex, loadWikiIndex, wikiPageHref } from '../lib/wikiLinks'
+import { useSession } from '../context/SessionContext'
+import { useWikiLinkResolver } from '../hooks/useWikiLinkResolver'
+import type { ForumWiki, ForumWikiSummary } from '../types'
+import styles from './ForumPage.module.css'
+
+function WikiPageContent({ wikiUri }: { wikiUri: string }) {
+  const [wiki, setWiki] = useState<ForumWiki | null | undefined>(undefined)
+  const [pages, setPages] = useState<ForumWikiSummary[] | null>(null)
+  const owner = wiki?.did
+
+  useEffect(() => {
+    let cancelled = false
+    getForumWiki(wikiUri).then((w) => {
+      if (!cancelled) setWiki(w)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [wikiUri])
+
+  const loadIndex = useCallback(async () => {
+    if (!owner) return
+    setPages(await loadWikiIndex([owner]).catch(() => []))
+  }, [owner])
+
+  useEffect(() => {
+    let cancelled = false
+    if (owner) {
+      loadWikiIndex([owner])
+        .catch(() => [])
+        .then((p) => {
+          if (!cancelled) setPages(p)
+        })
+    }
+    return () => {
+      cancelled = true
+    }
+  }, [owner])
+
+  const wikiLink = useWikiLinkResolver(pages, owner)
+
+  if (wiki === undefined) return <div className={styles.loading}>Loading wiki page…</div>
+  if (wiki === null) return <p className={styles.error}>Wiki page not found</p>
+
+  const summary = pages?.find((p) => p.wiki.uri === wiki.uri)
+  const backlinks = pages && summary ? findWikiBacklinks(pages, summary) : []
+
+  return (
+    <div className={styles.wrap}>
+      <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', fontSize: '0.85rem' }}>
+        <Link to="/forum?section=wiki" className={styles.standardLink}>
+          ← All wiki pages
+        </Link>
+        {wiki.sourcePost && (
+          <Link to={`/forum/post?uri=${encodeURIComponent(wiki.sourcePost)}`} className={styles.standardLink}>
+            Discussion thread
+          </Link>
+        )}
+      </div>
+      <WikiPanel wiki={wiki} wikiLink={wikiLink} onRevisionSaved={loadIndex} />
+      <section style={{ marginTop: '1rem' }}>
+        <h3 style={{ margin: '0 0 0.35rem', fontSize: '0.95rem' }}>Linked from</h3>
+        {!pages ? (
+          <div className={styles.loading}>Loading…</div>
+        ) : backlinks.length === 0 ? (
+          <p style={{ margin: 0, fontSize: '0.85rem', color: 'var(--muted)' }}>No other wiki pages link here yet.</p>
+        ) : (
+          <ul style={{ margin: 0, paddingLeft: '1.25rem', fontSize: '0.9rem' }}>
+            {backlinks.map((p) => (
+              <li key={p.wiki.uri}>
+                <Link to={wikiPageHref(p.wiki.uri)} className={styles.standardLink}>
+                  {p.title || 'Untitled'}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
+
+function NewWikiPage({ initialTitle }: { initialTitle: string }) {
+  const { session } = useSession()
+  const navigate = useNavigate()
+  const [title, setTitle] = useState(initialTitle)
+  const [body, setBody] = useState('')
+  const [pages, setPages] = useState<ForumWikiSummary[] | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadWikiIndex()
+      .catch(() => [])
+      .then((p) => {
+        if (!cancelled) setPages(p)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const wikiLink = useWikiLinkResolver(pages, session?.did)
+  const existing = pages && title.trim() ? findWikiPage(pages, title, session?.did) : null
+
+  async function handleCreate() {
+    if (saving || !title.trim()) return
+    setSaving(true)
+    try {
+      const uri = await createWikiPage({ title, body })
+      invalidateWikiIndex()
+      navigate(wikiPageHref(uri), { replace: true })
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not create the page')
+      setSaving(false)
+    }
+  }
+
+  if (!session) return <div className={styles.empty}>Log in to create wiki pages.</div>
+
+  return (
+    <div className={styles.wrap}>
+      <header className={styles.header}>
+        <h2 className={styles.title}>New wiki page</h2>
+      </header>
+      <input
+        type="text"
+        aria-label="Title"
+        placeholder="Page title"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        style={{ width: '100%', marginBottom: '0.5rem', padding: '0.5rem' }}
+      />
+      {existing && (
+        <p style={{ margin: '0 0 0.5rem', fontSize: '0.85rem' }}>
+          A page with this title already exists:{' '}
+          <Link to={wikiPageHref(existing.wiki.uri)} className={styles.standardLink}>
+            {existing.title}
+          </Link>
+        </p>
+      )}
+      <div style={{ marginBottom: '0.5rem' }}>
+        <MarkdownEditor
+          value={body}
+          onChange={setBody}
+          placeholder="Write the page… Link other pages with [[Page Title]]"
+          authorDid={session.did}
+          wikiLink={wikiLink}
+          rows={14}
+          textareaStyle={{ width: '100%', padding: '0.5rem' }}
+        />
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button type="button" className={styles.tabActive} disabled={saving || !title.trim()} onClick={handleCreate}>
+          {saving ? 'Creating…' : 'Create page'}
+        </button>
+        <button type="button" className={styles.tab} disabled={saving} onClick={() => navigate(-1)}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default function ForumWikiPage() {
+  const [searchParams] = useSearchParams()
+  const wikiUri = searchParams.get('uri')
+  const newTitle = searchParams.get('new')
+
+  if (!wikiUri && newTitle === null) {
+    return <Navigate to="/forum?section=wiki" replace />
+  }
+
+  return (
+    <Layout title="Wiki" showNav>
+      {wikiUri ? <WikiPageContent key={wikiUri} wikiUri={wikiUri} /> : <NewWikiPage key={newTitle} initialTitle={newTitle ?? ''} />}
+    </Layout>
+  )
+}
@@ -10,7 +10,7 @@ import { getArtboards, createArtboard, addPostToArtboard, isPostInArtboard } fro
 import { formatRelativeTime, formatExactDateTime } from '../lib/date'
 import Layout from '../components/Layout'
 import ProfileLink from '../components/ProfileLink'
-import VideoWithHls from '../components/VideoWithHls'
+import MediaGallery from '../components/MediaGallery'
 import PostText from '../components/PostText'
 import PostActionsMenu from '../components/PostActionsMenu'
 import ComposerSuggestions from '../components/ComposerSuggestions'
@@ -205,101 +205,6 @@ function getDesktopSnapshot() {
   return typeof window !== 'undefined' ? window.innerWidth >= DESKTOP_BREAKPOINT : false
 }
 
-function MediaGallery({
-  items,
-  autoPlayFirstVideo = false,
-  hideVideoControlsUntilTap = false,
-  onFocusItem,
-  onDoubleTapLike,
-}: {
-  items: Array<{ url: string; type: 'image' | 'video'; videoPlaylist?: string; aspectRatio?: number }>
-  autoPlayFirstVideo?: boolean
-  /** On mobile: hide native video controls until user taps the video. */
-  hideVideoControlsUntilTap?: boolean
-  onFocusItem?: (index: number) => void
-  /** Called when user double-taps or double-clicks on media to like the post. */
-  onDoubleTapLike?: () => void
-}) {
-  const lastTapRef = useRef(0)
-  const lastClickRef = useRef(0)
-
-  if (items.length === 0) return null
-  const firstVideoIndex = autoPlayFirstVideo
-    ? items.findIndex((m) => m.type === 'video' && m.videoPlaylist)
-    : -1
-
-  const handleMediaTouchEnd = (e: React.TouchEvent) => {
-    if (!onDoubleTapLike || e.changedTouches.length !== 1) return
-    const now = Date.now()
-    if (now - lastTapRef.current < 400) {
-      lastTapRef.current = 0
-      e.preventDefault()
-      onDoubleTapLike()
-    } else {
-      lastTapRef.current = now
-    }
-  }
-
-  const handleMediaClick = (e: React.MouseEvent) => {
-    if (!onDoubleTapLike) return
-    const now = Date.now()
-    if (now - lastClickRef.current < 400) {
-      lastClickRef.current = 0
-      e.stopPropagation()
-      e.preventDefault()
-      onDoubleTapLike()
-    } else {
-      lastClickRef.current = now
-    }
-  }
-
-  return (
-    <div
-      className={styles.galleryWrap}
-      onTouchEnd={handleMediaTouchEnd}
-      onClick={handleMediaClick}
-    >
-      <div className={styles.gallery}>
-        {items.map((m, i) => {
-          if (m.type === 'video' && m.videoPlaylist) {
-            return (
-              <div
-                key={i}
-                className={styles.galleryVideoWrap}
-                data-media-item={i}
-                tabIndex={0}
-                onFocus={() => onFocusItem?.(i)}
-              >
-                <VideoWithHls
-                  playlistUrl={m.videoPlaylist}
-                  poster={m.url || undefined}
-                  className={styles.galleryVideo}
-                  autoPlay={i === firstVideoIndex}
-                  preload={i === firstVideoIndex ? 'metadata' : 'none'}
-                  controlsHiddenUntilTap={hideVideoControlsUntilTap}
-                />
-              </div>
-            )
-          }
-          const aspect = m.type === 'image' && m.aspectRatio != null ? m.aspectRatio : 1
-          return (
-            <div
-              key={i}
-              className={styles.galleryImageBtn}
-              style={{ aspectRatio: aspect, ['--media-aspect']: aspect } as React.CSSProperties}
-              data-media-item={i}
-              tabIndex={0}
-              onFocus={() => onFocusItem?.(i)}
-            >
-              <img src={m.url} alt="" className={styles.galleryMedia} loading="lazy" />
-            </div>
-          )
-        })}
-      </div>
-    </div>
-  )
-}
-
 function PostBlock({
   node,
   depth = 0,
@@ -31,16 +31,120 @@ export interface ForumPost {
   tags?: string[]
   isPinned?: boolean
   isWiki?: boolean
+  /** Locked threads take no new replies */
+  isLocked?: boolean
+  /** Set when the author edits the post */
+  editedAt?: string
+  images?: ForumImage[]
   replyCount?: number
   likeCount?: number
 }
 
+/** A community's forum moderator list (app.artsky.forum.moderators, one per account). */
+export interface ForumModeratorList {
+  uri: string
+  /** Owner; moderates along with the listed accounts */
+  did: string
+  name?: string
+  moderators: string[]
+}
+
+/** A hide on a forum post or reply: by the thread author (replies only) or a community moderator. */
+export interface ForumHide {
+  /** The hide record */
+  uri: string
+  /** The hidden post or reply */
+  subject: string
+  /** Who hid it */
+  did: string
+  byThreadAuthor: boolean
+  reason?: string
+  createdAt?: string
+}
+
+/** An image attached to a forum post or reply. */
+export interface ForumImage {
+  url: string
+  alt: string
+  /** Stored blob ref, written back as-is when the record is rewritten */
+  blob: unknown
+}
+
+/** An image picked for a forum post or reply, not uploaded yet. */
+export interface ForumImageDraft {
+  file: File
+  alt: string
+}
+
+/** A forum category: posts carrying any of its tags (every post when it has none). */
+export interface ForumCategory {
+  /** Config id, or the record URI for app.artsky.forum.category records */
+  id: string
+  name: string
+  description?: string
+  tags: string[]
+  /** Owner of a record-defined category */
+  did?: string
+}
+
+/** A wiki page (app.artsky.forum.wiki). Its own title/body are the first revision. */
+export interface ForumWiki {
+  uri: string
+  cid: string
+  /** Owner: who promoted the page; always allowed to edit */
+  did: string
+  rkey: string
+  sourcePost?: string
+  title?: string
+  body?: string
+  tags?: string[]
+  /** Other DIDs allowed to add revisions */
+  editors: string[]
+  /** Removed editors; their revisions from before removedAt stay in the history */
+  formerEditors: Array<{ did: string; removedAt: string }>
+  createdAt?: string
+  lastEditedAt?: string
+}
+
+/** One revision of a wiki page, stored in its author's repo (app.artsky.forum.wikiRevision). */
+export interface ForumWikiRevision {
+  /** The wiki record URI for the first revision */
+  uri: string
+  /** Author */
+  did: string
+  authorHandle?: string
+  wiki: string
+  /** Revision this one was made from */
+  parent?: string
+  title?: string
+  body?: string
+  /** Edit summary */
+  summary?: string
+  /** Set when this revision restores an older one */
+  revertOf?: string
+  createdAt: string
+}
+
+/** A wiki page with its current (latest) revision, for listings and link resolution. */
+export interface ForumWikiSummary {
+  wiki: ForumWiki
+  title: string
+  body: string
+  updatedAt: string
+  /** Author of the latest revision */
+  updatedBy: string
+  revisionCount: number
+}
+
 export interface ForumReply {
   uri: string
   cid: string
   replyTo?: string
   author: { did: string; handle: string; avatar?: string; displayName?: string }
-  record: { text?: string; createdAt?: string }
+  record: { text?: string; createdAt?: string; editedAt?: string }
+  images?: ForumImage[]
+  /** Deleted by its author but kept as a "[deleted]" placeholder for the replies under it */
+  deleted?: boolean
   likeCount?: number
   viewer?: { like?: string }
   isComment?: boolean
@@ -48,6 +152,35 @@ export interface ForumReply {
 
 // ── Consensus / Polis ────────────────────────────────────────────────────
 
+export interface ConsensusConversation {
+  uri: string
+  cid: string
+  did: string
+  rkey: string
+  topic: string
+  description?: string
+  opensAt?: string
+  closesAt?: string
+  seedStatements: string[]
+  hiddenStatements: string[]
+  createdAt?: string
+  /** Statements posted before conversations existed (forum posts tagged "consensus"); vote only */
+  legacy?: boolean
+}
+
+export interface ConsensusStatement {
+  uri: string
+  cid: string
+  did: string
+  rkey: string
+  conversation: string
+  text: string
+  isSeed?: boolean
+  createdAt?: string
+  /** Hidden by the conversation owner */
+  hidden?: boolean
+}
+
 export interface ConsensusResult {
   statements: Array<{
     statementId: string
@@ -57,14 +190,34 @@ export interface ConsensusResult {
     totalVoters: number
     agreementRatio: number
     divisiveness: number
+    /** Product of each group's (smoothed) agree probability: high only when every group agrees. */
+    groupInformedConsensus: number
   }>
   totalParticipants: number
+  /** Participants projected onto the first two principal components (empty when too few votes). */
+  participants: Array<{
+    id: string
+    x: number
+    y: number
+    clusterId: number | null
+  }>
   clusterCount: number
   clusters: Array<{
     id: number
     memberCount: number
     memberIds: string[]
     avgAgreement: number
+    /** Statements that set this group apart from everyone else, most distinctive first. */
+    representativeStatements: Array<{
+      statementId: string
+      direction: 'agree' | 'disagree'
+      /** Smoothed probability of the group voting in `direction`; for ranking, not display. */
+      groupRatio: number
+      /** Share of the group's votes on the statement cast in `direction` (0–1). */
+      groupShare: number
+      /** How much more likely the group is to vote this way than the rest (>1 = distinctive). */
+      repness: number
+    }>
   }>
 }
 
@@ -74,6 +227,8 @@ export type ProjectType = 'blender' | 'godot' | 'general'
 
 export interface CollabProject {
   uri: string
+  /** Record CID, when read from the repo */
+  cid?: string
   name: string
   description: string
   type: ProjectType
@@ -84,6 +239,86 @@ export interface CollabProject {
   magnetLink?: string
   previewUrl?: string
   createdAt: string
+  updatedAt?: string
+  /** Recent metadata edits, oldest first (capped) */
+  history?: ProjectChange[]
+  /** The project this one was forked from, as it was at fork time */
+  forkOf?: StrongRef
+  /** Files expected at externalUrl / in the torrent, for integrity checks */
+  assets?: ProjectAsset[]
+}
+
+export interface ProjectAsset {
+  /** Path relative to the project root, e.g. "textures/wood.png" */
+  name: string
+  size: number
+  /** Lowercase hex SHA-256 of the file contents */
+  sha256: string
+}
+
+export interface StrongRef {
+  uri: string
+  cid: string
+}
+
+export interface ProjectChange {
+  at: string
+  by: string
+  /** Names of the fields that changed */
+  fields: string[]
+  /** New version, when the version changed */
+  version?: string
+}
+
+/**
+ * Project roles. owner: the project record's author (manages members and columns);
+ * maintainer: can also delete cards; contributor: adds, edits and moves cards;
+ * viewer: listed as a member, board is read-only.
+ */
+export type CollabRole = 'owner' | 'maintainer' | 'contributor' | 'viewer'
+
+export interface ProjectMember {
+  did: string
+  role: CollabRole
+  /** active = invite accepted (or the owner); invited = waiting for the invitee's acceptance record */
+  status: 'active' | 'invited'
+  /** AT-URI of the invite record in the owner's repo (absent for the owner) */
+  inviteUri?: string
+  invitedAt?: string
+  acceptedAt?: string
+}
+
+export interface ReleaseDownload {
+  label?: string
+  /** http(s) URL or magnet link */
+  url: string
+}
+
+/** A published build of a collab project (app.artsky.collab.release). */
+export interface ProjectRelease {
+  uri: string
+  cid: string
+  did: string
+  rkey: string
+  project: string
+  /** Semantic version, e.g. 1.4.0 or 2.0.0-beta.1 */
+  version: string
+  notes: string
+  downloads: ReleaseDownload[]
+  /** "<algorithm>:<hex digest>", e.g. sha256:9f86d0… */
+  checksum?: string
+  createdAt: string
+}
+
+/** An invite addressed to the viewer. */
+export interface ProjectInvitation {
+  inviteUri: string
+  projectUri: string
+  projectName?: string
+  owner: string
+  role: CollabRole
+  invitedAt: string
+  accepted: boolean
 }
 
 export interface KanbanCard {
@@ -91,17 +326,56 @@ export interface KanbanCard {
   title: string
   description?: string
   assignee?: string
-  status: 'todo' | 'in-progress' | 'review' | 'done'
+  /** Id of the column the card is in (default columns: todo, in-progress, review, done) */
+  status: string
   priority: 'low' | 'medium' | 'high'
+  /** Sort key within the column (ascending) */
+  position: number
+  /** Due date as YYYY-MM-DD */
+  dueDate?: string
+  labels?: string[]
   createdAt: string
+  /** Latest edit to any field, across every repo holding a copy of the card */
+  updatedAt?: string
+  /** DID of whoever made the latest edit */
+  updatedBy?: string
+  /** Every time the card entered a column, oldest first */
+  transitions?: KanbanTransition[]
+  /** Bluesky posts, forum threads and artboards attached to the card */
+  links?: KanbanCardLink[]
+}
+
+export interface KanbanCardLink {
+  kind: 'post' | 'forum' | 'artboard'
+  /** AT-URI of the app.bsky.feed.post, app.artsky.forum.post or app.artsky.artboard record */
+  uri: string
+}
+
+export interface KanbanCardComment {
+  uri: string
+  did: string
+  cardId: string
+  text: string
+  createdAt: string
+}
+
+export interface KanbanTransition {
+  /** Column id the card entered */
+  column: string
+  at: string
+  /** Who moved it (unknown for moves made before transitions were recorded) */
+  by?: string
+}
+
+export interface KanbanColumn {
+  id: string
+  title: string
+  /** Work-in-progress limit: max cards allowed in the column (unset = no limit) */
+  wipLimit?: number
 }
 
 export interface KanbanBoard {
   id: string
   projectUri: string
-  columns: Array<{
-    id: string
-    title: string
-    cards: KanbanCard[]
-  }>
+  columns: Array<KanbanColumn & { cards: KanbanCard[] }>
 }